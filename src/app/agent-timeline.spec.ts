@@ -0,0 +1,106 @@
+import { buildAgentTimeline, categorizeAgentState, reasonCodeNames } from './agent-timeline';
+import { EventThread, EventView } from './log-viewer.model';
+
+function eventAt(id: string, minute: number, context: string, data: Record<string, unknown>): EventView {
+  const time = Date.UTC(2026, 4, 1, 10, minute);
+  return {
+    uid: id,
+    id,
+    source: 'agent.json',
+    timestamp: new Date(time).toISOString(),
+    time,
+    level: 'INFO',
+    levelTone: 'info',
+    application: 'AgentDesktop',
+    context,
+    message: '',
+    lineTitle: '',
+    rawValue: { data }
+  };
+}
+
+const minute = (value: number): number => Date.UTC(2026, 4, 1, 10, value);
+
+const events = [
+  eventAt('a', 0, 'AgentService', { state: 'READY' }),
+  eventAt('b', 5, 'interaction', { state: 'ACTIVE', interactionId: 'I-1' }),
+  eventAt('c', 10, 'AgentService', { state: 'NOT_READY', reasonCode: '12' }),
+  eventAt('d', 12, 'AgentService', { state: 'NOT_READY', reasonCode: '12' }),
+  eventAt('e', 20, 'ui', { agentState: 'READY' }),
+  eventAt('f', 25, 'AgentService', { state: 'NOT_READY', reasonCode: '40' }),
+  eventAt('g', 28, 'AgentService', { state: 'LOGGED_OUT' }),
+  eventAt('h', 30, 'ui', { note: 'last event' })
+];
+
+const thread: EventThread = {
+  id: 'I-1',
+  keys: [{ path: 'data.interactionId', value: 'I-1' }],
+  events: [events[1]],
+  start: minute(5),
+  end: minute(8),
+  participants: [],
+  finalState: 'ACTIVE'
+};
+
+describe('reasonCodeNames', () => {
+  it('should map reason codes of the agent block to their friendly names', () => {
+    const agent = {
+      reasonCodes: [{ code: 12, friendlyName: 'Lunch' }, { code: '40', friendlyName: 'Training' }, { code: '7' }]
+    };
+
+    expect(reasonCodeNames(agent)).toEqual({ '12': 'Lunch', '40': 'Training' });
+    expect(reasonCodeNames(undefined)).toEqual({});
+  });
+});
+
+describe('categorizeAgentState', () => {
+  it('should recognise the usual state spellings', () => {
+    expect(categorizeAgentState('READY')).toBe('ready');
+    expect(categorizeAgentState('NotReady')).toBe('not-ready');
+    expect(categorizeAgentState('LOGGED_OUT')).toBe('logged-out');
+    expect(categorizeAgentState('AFTER_CALL_WORK')).toBe('busy');
+    expect(categorizeAgentState('PENDING')).toBe('other');
+  });
+});
+
+describe('buildAgentTimeline', () => {
+  it('should turn agent state events into consecutive spans, ignoring other state keys', () => {
+    const timeline = buildAgentTimeline(events, [thread], { '12': 'Lunch' });
+
+    expect(timeline?.spans.map((span) => [span.label, span.start, span.end, span.eventUid])).toEqual([
+      ['READY', minute(0), minute(10), 'a'],
+      ['NOT_READY · Lunch', minute(10), minute(20), 'c'],
+      ['READY', minute(20), minute(25), 'e'],
+      ['NOT_READY · 40', minute(25), minute(28), 'f'],
+      ['LOGGED_OUT', minute(28), minute(30), 'g'],
+      ['Busy · I-1', minute(5), minute(8), 'b']
+    ]);
+  });
+
+  it('should total durations per state and per reason code', () => {
+    const timeline = buildAgentTimeline(events, [thread], { '12': 'Lunch' });
+
+    expect(timeline?.totals.map((total) => [total.label, total.duration, total.count])).toEqual([
+      ['READY', 15 * 60000, 2],
+      ['NOT_READY · Lunch', 10 * 60000, 1],
+      ['NOT_READY · 40', 3 * 60000, 1],
+      ['Busy on interactions', 3 * 60000, 1],
+      ['LOGGED_OUT', 2 * 60000, 1]
+    ]);
+    expect(timeline?.reasonTotals).toEqual([
+      { code: '12', name: 'Lunch', duration: 10 * 60000, count: 1 },
+      { code: '40', name: '40', duration: 3 * 60000, count: 1 }
+    ]);
+  });
+
+  it('should leave out interactions of another log', () => {
+    const otherLog: EventThread = { ...thread, id: 'I-2', events: [eventAt('x', 6, 'interaction', {})] };
+    const timeline = buildAgentTimeline(events, [thread, otherLog], {});
+
+    expect(timeline?.spans.filter((span) => span.category === 'busy').map((span) => span.eventUid)).toEqual(['b']);
+  });
+
+  it('should return null when no event carries an agent state', () => {
+    expect(buildAgentTimeline([events[1], events[7]], [thread], {})).toBeNull();
+  });
+});
@@ -0,0 +1,210 @@
+import { EventThread, EventView } from './log-viewer.model';
+import { getPathValue } from './mapping-profiles';
+
+export type AgentStateCategory = 'ready' | 'not-ready' | 'busy' | 'logged-out' | 'other';
+
+/** One stretch of time the agent spent in a state, or on an interaction for `busy`. */
+export interface AgentStateSpan {
+  category: AgentStateCategory;
+  /** The state as shown, with the reason code's friendly name for Not Ready. */
+  label: string;
+  start: number;
+  end: number;
+  /** The event that started the span. */
+  eventUid: string;
+  reasonCode: string;
+}
+
+export interface AgentStateTotal {
+  category: AgentStateCategory;
+  label: string;
+  duration: number;
+  count: number;
+}
+
+export interface ReasonCodeTotal {
+  code: string;
+  name: string;
+  duration: number;
+  count: number;
+}
+
+export interface AgentTimeline {
+  start: number;
+  end: number;
+  spans: AgentStateSpan[];
+  totals: AgentStateTotal[];
+  reasonTotals: ReasonCodeTotal[];
+}
+
+/** Where agent state events keep the new state; `agentState` keys mark an agent event on their own. */
+const EXPLICIT_STATE_PATHS = ['data.agentState', 'agentState', 'data.agent.state'];
+/** Generic state keys, only trusted on events whose context or topic mentions the agent. */
+const GENERIC_STATE_PATHS = ['data.state', 'data.newState', 'data.status', 'state'];
+const REASON_PATHS = ['data.reasonCode', 'data.reasonCodeId', 'data.reason.code', 'data.reason', 'reasonCode'];
+const AGENT_CONTEXT = /agent/i;
+
+const CATEGORY_PATTERNS: Array<[AgentStateCategory, RegExp]> = [
+  ['not-ready', /not.?ready|aux|away|break|unavailable/i],
+  ['logged-out', /log(?:ged)?.?(?:out|off)|offline|signed.?out/i],
+  ['ready', /^(?:ready|available|idle)$/i],
+  ['busy', /busy|on.?call|talking|engaged|wrap|after.?call/i]
+];
+
+/** `code -> friendly name` from the `reasonCodes` list of the metadata agent block. */
+export function reasonCodeNames(agent: unknown): Record<string, string> {
+  const names: Record<string, string> = {};
+  const reasonCodes = getPathValue(agent, 'reasonCodes');
+  if (!Array.isArray(reasonCodes)) {
+    return names;
+  }
+
+  for (const reason of reasonCodes) {
+    const code = getPathValue(reason, 'code') ?? getPathValue(reason, 'id');
+    const name = getPathValue(reason, 'friendlyName') ?? getPathValue(reason, 'name');
+    if ((typeof code === 'string' || typeof code === 'number') && typeof name === 'string' && name) {
+      names[String(code)] = name;
+    }
+  }
+
+  return names;
+}
+
+export function categorizeAgentState(state: string): AgentStateCategory {
+  return CATEGORY_PATTERNS.find(([, pattern]) => pattern.test(state.trim()))?.[0] ?? 'other';
+}
+
+/**
+ * Reconstructs the agent's state over time. Each agent state event starts a span that lasts until the next
+ * one (the last lasts until the last event of the log); repeated reports of the same state extend the
+ * current span. Interactions, given as correlation threads, form the `busy` spans; threads without any of
+ * `events` belong to another log and are left out. Returns `null` when the events hold no agent state at all.
+ */
+export function buildAgentTimeline(
+  events: EventView[],
+  threads: EventThread[],
+  reasonNames: Record<string, string>
+): AgentTimeline | null {
+  let start = Number.POSITIVE_INFINITY;
+  let end = Number.NEGATIVE_INFINITY;
+  for (const { time } of events) {
+    if (time !== null) {
+      start = Math.min(start, time);
+      end = Math.max(end, time);
+    }
+  }
+
+  const stateSpans: AgentStateSpan[] = [];
+  for (const event of events) {
+    if (event.time === null) {
+      continue;
+    }
+    const state = agentStateOf(event);
+    if (!state) {
+      continue;
+    }
+
+    const category = categorizeAgentState(state);
+    const reasonCode = category === 'not-ready' ? firstValue(event.rawValue, REASON_PATHS) : '';
+    const reasonName = reasonCode ? (reasonNames[reasonCode] ?? reasonCode) : '';
+    const label = reasonName ? `${state} · ${reasonName}` : state;
+
+    const current = stateSpans[stateSpans.length - 1];
+    if (current?.label === label) {
+      continue;
+    }
+    if (current) {
+      current.end = event.time;
+    }
+    stateSpans.push({ category, label, start: event.time, end, eventUid: event.uid, reasonCode });
+  }
+
+  if (stateSpans.length === 0) {
+    return null;
+  }
+
+  const eventUids = new Set(events.map((event) => event.uid));
+  const busySpans: AgentStateSpan[] = threads
+    .filter(
+      (thread) =>
+        thread.start !== null && thread.end !== null && thread.events.some((event) => eventUids.has(event.uid))
+    )
+    .map((thread) => ({
+      category: 'busy',
+      label: `Busy · ${thread.keys[0].value}`,
+      start: thread.start as number,
+      end: thread.end as number,
+      eventUid: thread.events[0].uid,
+      reasonCode: ''
+    }));
+
+  return {
+    start,
+    end,
+    spans: [...stateSpans, ...busySpans],
+    totals: stateTotals(stateSpans, busySpans),
+    reasonTotals: reasonTotals(stateSpans, reasonNames)
+  };
+}
+
+function agentStateOf(event: EventView): string {
+  const explicit = firstValue(event.rawValue, EXPLICIT_STATE_PATHS);
+  if (explicit) {
+    return explicit;
+  }
+
+  return AGENT_CONTEXT.test(event.context) ? firstValue(event.rawValue, GENERIC_STATE_PATHS) : '';
+}
+
+function stateTotals(stateSpans: AgentStateSpan[], busySpans: AgentStateSpan[]): AgentStateTotal[] {
+  const totals = new Map<string, AgentStateTotal>();
+  for (const span of stateSpans) {
+    const total = totals.get(span.label) ?? { category: span.category, label: span.label, duration: 0, count: 0 };
+    total.duration += span.end - span.start;
+    total.count += 1;
+    totals.set(span.label, total);
+  }
+
+  if (busySpans.length > 0) {
+    totals.set('busy', {
+      category: 'busy',
+      label: 'Busy on interactions',
+      duration: busySpans.reduce((sum, span) => sum + (span.end - span.start), 0),
+      count: busySpans.length
+    });
+  }
+
+  return Array.from(totals.values()).sort((left, right) => right.duration - left.duration);
+}
+
+function reasonTotals(stateSpans: AgentStateSpan[], reasonNames: Record<string, string>): ReasonCodeTotal[] {
+  const totals = new Map<string, ReasonCodeTotal>();
+  for (const span of stateSpans) {
+    if (!span.reasonCode) {
+      continue;
+    }
+
+    const total = totals.get(span.reasonCode) ?? {
+      code: span.reasonCode,
+      name: reasonNames[span.reasonCode] ?? span.reasonCode,
+      duration: 0,
+      count: 0
+    };
+    total.duration += span.end - span.start;
+    total.count += 1;
+    totals.set(span.reasonCode, total);
+  }
+
+  return Array.from(totals.values()).sort((left, right) => right.duration - left.duration);
+}
+
+function firstValue(raw: unknown, paths: string[]): string {
+  for (const path of paths) {
+    const value = getPathValue(raw, path);
+    if ((typeof value === 'string' || typeof value === 'number') && String(value).trim()) {
+      return String(value).trim();
+    }
+  }
+
+  return '';
+}
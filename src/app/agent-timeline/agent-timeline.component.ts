@@ -0,0 +1,146 @@
+import { DatePipe, DecimalPipe } from '@angular/common';
+import { Component, EventEmitter, Input, OnChanges, Output, inject } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+
+import {
+  AgentStateCategory,
+  AgentStateSpan,
+  AgentTimeline,
+  buildAgentTimeline,
+  reasonCodeNames
+} from '../agent-timeline';
+import { CorrelationSettingsService } from '../correlation-settings.service';
+import { formatDuration } from '../duration-format';
+import { isFromSource } from '../event-merge';
+import { buildEventThreads } from '../event-threads';
+import { EventView, LogSource, PrettyMetadataBlock } from '../log-viewer.model';
+
+interface SwimlaneBar {
+  span: AgentStateSpan;
+  x: number;
+  width: number;
+  title: string;
+}
+
+interface Swimlane {
+  category: AgentStateCategory;
+  name: string;
+  bars: SwimlaneBar[];
+}
+
+const CHART_WIDTH = 1000;
+const LANES: Array<{ category: AgentStateCategory; name: string }> = [
+  { category: 'ready', name: 'Ready' },
+  { category: 'not-ready', name: 'Not Ready' },
+  { category: 'busy', name: 'Busy' },
+  { category: 'logged-out', name: 'Logged out' },
+  { category: 'other', name: 'Other' }
+];
+
+/**
+ * Swimlanes of the agent's state over one log: Ready, Not Ready (by reason code), busy on an interaction
+ * and logged out, with the time spent in each. Each file is one agent's log, so the lanes are built from a
+ * single file, by default the first with an agent metadata block. Built only while open. Clicking a bar
+ * asks the parent to show the event that started it; the selected event's time is marked across the lanes.
+ */
+@Component({
+  selector: 'app-agent-timeline',
+  imports: [DatePipe, DecimalPipe, FormsModule],
+  templateUrl: './agent-timeline.component.html',
+  styleUrl: './agent-timeline.component.css'
+})
+export class AgentTimelineComponent implements OnChanges {
+  private readonly correlation = inject(CorrelationSettingsService);
+
+  @Input({ required: true }) events: EventView[] = [];
+  /** Open files; the metadata agent block names the reason codes. */
+  @Input({ required: true }) sources: LogSource[] = [];
+  @Input() selectedEventUid: string | null = null;
+  @Output() showEvent = new EventEmitter<string>();
+
+  readonly chartWidth = CHART_WIDTH;
+  isOpen = false;
+  sourceKey = '';
+  timeline: AgentTimeline | null = null;
+  lanes: Swimlane[] = [];
+  /** State lanes hit by the selected event's time, and its x position. */
+  marker: { x: number; states: string[] } | null = null;
+
+  ngOnChanges(): void {
+    if (this.isOpen) {
+      this.buildTimeline();
+    }
+  }
+
+  onToggle(event: Event): void {
+    this.isOpen = (event.target as HTMLDetailsElement).open;
+    if (this.isOpen) {
+      this.buildTimeline();
+    }
+  }
+
+  buildTimeline(): void {
+    if (!this.sources.some((source) => source.key === this.sourceKey)) {
+      const agentSource = this.sources.find((source) => agentBlock(source) !== undefined);
+      this.sourceKey = (agentSource ?? this.sources[0])?.key ?? '';
+    }
+
+    const source = this.sources.find((candidate) => candidate.key === this.sourceKey);
+    const events = this.events.filter((event) => isFromSource(event, this.sourceKey));
+    this.timeline = source
+      ? buildAgentTimeline(
+          events,
+          buildEventThreads(events, this.correlation.settings),
+          reasonCodeNames(agentBlock(source)?.rawValue)
+        )
+      : null;
+    this.lanes = this.timeline ? this.buildLanes(this.timeline) : [];
+    this.marker = this.timeline ? this.buildMarker(this.timeline) : null;
+  }
+
+  duration(ms: number): string {
+    return formatDuration(ms);
+  }
+
+  private buildLanes(timeline: AgentTimeline): Swimlane[] {
+    return LANES.map(({ category, name }) => ({
+      category,
+      name,
+      bars: timeline.spans
+        .filter((span) => span.category === category)
+        .map((span) => {
+          const x = this.toX(timeline, span.start);
+          return {
+            span,
+            x,
+            // Keep instantaneous spans visible as a hairline.
+            width: Math.max(this.toX(timeline, span.end) - x, 1),
+            title: `${span.label}\n${new Date(span.start).toISOString()} → ${new Date(span.end).toISOString()}\n${formatDuration(span.end - span.start)}`
+          };
+        })
+    })).filter((lane) => lane.bars.length > 0 || lane.category !== 'other');
+  }
+
+  private buildMarker(timeline: AgentTimeline): { x: number; states: string[] } | null {
+    const time = this.events.find((event) => event.uid === this.selectedEventUid)?.time ?? null;
+    if (time === null) {
+      return null;
+    }
+
+    return {
+      x: this.toX(timeline, time),
+      states: timeline.spans
+        .filter((span) => span.start <= time && time < span.end)
+        .map((span) => span.label)
+    };
+  }
+
+  private toX(timeline: AgentTimeline, time: number): number {
+    const span = timeline.end - timeline.start;
+    return span > 0 ? ((time - timeline.start) / span) * CHART_WIDTH : 0;
+  }
+}
+
+function agentBlock(source: LogSource): PrettyMetadataBlock | undefined {
+  return source.prettyMetaBlocks.find((block) => block.key === 'agent');
+}
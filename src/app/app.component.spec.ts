@@ -1,10 +1,12 @@
 import { TestBed } from '@angular/core/testing';
+import { Router, provideRouter } from '@angular/router';
 import { AppComponent } from './app.component';
 
 describe('AppComponent', () => {
   beforeEach(async () => {
     await TestBed.configureTestingModule({
       imports: [AppComponent],
+      providers: [provideRouter([])],
     }).compileComponents();
   });
 
@@ -28,4 +30,19 @@ describe('AppComponent', () => {
     expect(compiled.querySelector('h1')?.textContent).toContain('Workspace JSON Log Viewer');
     expect(compiled.querySelector('input[type="file"]')).toBeTruthy();
   });
+
+  it('should restore the filters from the query parameters', async () => {
+    await TestBed.inject(Router).navigate([], {
+      queryParams: { q: 'level:ERROR', level: ['ERROR', 'WARN'], app: 'AgentDesktop', bookmarked: '1' }
+    });
+    const fixture = TestBed.createComponent(AppComponent);
+    fixture.detectChanges();
+
+    const app = fixture.componentInstance;
+    expect(app.searchText).toBe('level:ERROR');
+    expect(app.queryError).toBe('');
+    expect(app.selectedLevels).toEqual(['ERROR', 'WARN']);
+    expect(app.selectedApplications).toEqual(['AgentDesktop']);
+    expect(app.bookmarkedOnly).toBeTrue();
+  });
 });
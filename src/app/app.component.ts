@@ -1,1041 +1,1083 @@
 import { CommonModule } from '@angular/common';
-import { Component } from '@angular/core';
+import { Component, ElementRef, HostListener, OnDestroy, OnInit, ViewChild, inject } from '@angular/core';
 import { FormsModule } from '@angular/forms';
-
-interface EventView {
-  uid: string;
-  id: string;
-  timestamp: string;
-  level: string;
-  levelTone: 'error' | 'warning' | 'info' | 'debug' | 'trace' | 'neutral';
-  application: string;
-  context: string;
-  message: string;
-  rawJson: string;
-  lineTitle: string;
-  searchable: string;
-}
-
-interface JsonPreviewTarget {
-  rawValue: unknown;
-  rawJsonCache?: string;
-}
-
-interface MetaEntry extends JsonPreviewTarget {
-  key: string;
-  value: string;
-}
-
-interface PrettyFact {
-  label: string;
-  value: string;
-}
-
-interface PrettyMetadataBlock extends JsonPreviewTarget {
-  key: string;
-  title: string;
-  subtitle: string;
-  facts: PrettyFact[];
-  highlights: string[];
-}
+import { ActivatedRoute, Router } from '@angular/router';
+import { Subscription } from 'rxjs';
+
+import { AgentTimelineComponent } from './agent-timeline/agent-timeline.component';
+import { ArchiveBrowserComponent } from './archive-browser/archive-browser.component';
+import { CommandPaletteComponent } from './command-palette/command-palette.component';
+import {
+  EMPTY_ANNOTATION,
+  EventBookmarks,
+  bookmarksFromSession,
+  bookmarksToSession
+} from './event-annotations';
+import { EventListComponent } from './event-list/event-list.component';
+import { ExportMenuComponent } from './export-menu/export-menu.component';
+import { isFromSource, mergeEventsByTime } from './event-merge';
+import { createEventFilter } from './event-filters';
+import { EventPredicate, QuerySyntaxError, appendQueryTerm, compileEventQuery } from './event-query';
+import { threadQuery } from './event-threads';
+import { FindingsPanelComponent } from './findings-panel/findings-panel.component';
+import { ViewerShortcut, handlesOwnKey, keyboardAction, moveEventIndex } from './keyboard-shortcuts';
+import { LineParserSettingsComponent } from './line-parser-settings/line-parser-settings.component';
+import { LineParserSettingsService } from './line-parser-settings.service';
+import { EventRingBuffer } from './live-tail';
+import { LiveTailComponent } from './live-tail/live-tail.component';
+import { LiveTailService } from './live-tail.service';
+import {
+  ArchiveEntry,
+  UnpackedUploads,
+  UploadFailure,
+  extractArchiveEntries,
+  unpackUploads
+} from './log-archive';
+import { LogCompareComponent } from './log-compare/log-compare.component';
+import { LogParseService } from './log-parse.service';
+import { MappingProfileEditorComponent } from './mapping-profile-editor/mapping-profile-editor.component';
+import { MappingProfilesService } from './mapping-profiles.service';
+import { clusterQuery } from './message-clusters';
+import { MessageClustersComponent } from './message-clusters/message-clusters.component';
+import { MetadataPanelComponent } from './metadata-panel/metadata-panel.component';
+import { PaletteViewer, buildPaletteCommands } from './palette-commands';
+import { RedactionSettingsComponent } from './redaction-settings/redaction-settings.component';
+import { RedactionSettingsService } from './redaction-settings.service';
+import { SavedSessionsComponent } from './saved-sessions/saved-sessions.component';
+import { SessionStoreService } from './session-store.service';
+import { SkippedLinesComponent } from './skipped-lines/skipped-lines.component';
+import { StatsDashboardComponent } from './stats-dashboard/stats-dashboard.component';
+import { TemplateExplorerComponent } from './template-explorer/template-explorer.component';
+import { ThreadListComponent } from './thread-list/thread-list.component';
+import { TimelineHistogramComponent } from './timeline-histogram/timeline-histogram.component';
+import {
+  EMPTY_VIEWER_STATE,
+  ViewerQueryParams,
+  viewerStateFromQueryParams,
+  viewerStateToQueryParams
+} from './viewer-url-state';
+import {
+  EventAnnotation,
+  EventThread,
+  EventView,
+  FilterDimension,
+  Finding,
+  LiveTailSettings,
+  LogFormat,
+  LogParseMessage,
+  LogSource,
+  LogSourceStatus,
+  MessageCluster,
+  PaletteCommand,
+  SavedSession,
+  TimeRange,
+  ViewerState
+} from './log-viewer.model';
 
 @Component({
   selector: 'app-root',
-  imports: [CommonModule, FormsModule],
+  imports: [
+    AgentTimelineComponent,
+    ArchiveBrowserComponent,
+    CommandPaletteComponent,
+    CommonModule,
+    FormsModule,
+    EventListComponent,
+    ExportMenuComponent,
+    FindingsPanelComponent,
+    LineParserSettingsComponent,
+    LiveTailComponent,
+    LogCompareComponent,
+    MappingProfileEditorComponent,
+    MessageClustersComponent,
+    MetadataPanelComponent,
+    RedactionSettingsComponent,
+    SavedSessionsComponent,
+    SkippedLinesComponent,
+    StatsDashboardComponent,
+    TemplateExplorerComponent,
+    ThreadListComponent,
+    TimelineHistogramComponent
+  ],
   templateUrl: './app.component.html',
   styleUrl: './app.component.css'
 })
-export class AppComponent {
+export class AppComponent implements OnInit, OnDestroy, PaletteViewer {
+  private readonly logParseService = inject(LogParseService);
+  private readonly lineParserSettings = inject(LineParserSettingsService);
+  private readonly liveTail = inject(LiveTailService);
+  private readonly mappingProfiles = inject(MappingProfilesService);
+  private readonly redaction = inject(RedactionSettingsService);
+  private readonly sessionStore = inject(SessionStoreService);
+  private readonly router = inject(Router);
+  private readonly route = inject(ActivatedRoute);
+
+  @ViewChild(EventListComponent) private eventList?: EventListComponent;
+  @ViewChild('searchInput') private searchInput?: ElementRef<HTMLInputElement>;
+  @ViewChild('fileInput') private fileInput?: ElementRef<HTMLInputElement>;
+  @ViewChild('addFileInput') private addFileInput?: ElementRef<HTMLInputElement>;
+
   title = 'Workspaces JSON Log Viewer';
-  fileName = '';
-  parseError = '';
+  readonly formatLabels: Record<LogFormat, string> = {
+    json: 'JSON document',
+    ndjson: 'JSON Lines',
+    concatenated: 'concatenated JSON',
+    text: 'text log'
+  };
+  sources: LogSource[] = [];
+  isDragOver = false;
+  /** Set while uploads are being decompressed or extracted. */
+  isUnpacking = false;
+  /** Zip archives waiting for their entries to be picked, with the uploads that came along. */
+  pendingUploads: (UnpackedUploads & { append: boolean }) | null = null;
 
-  applicationName = '-';
   totalEvents = 0;
-  metaEntries: MetaEntry[] = [];
-  prettyMetaBlocks: PrettyMetadataBlock[] = [];
 
   searchText = '';
+  queryError = '';
   selectedLevels: string[] = [];
   selectedApplications: string[] = [];
   selectedContexts: string[] = [];
+  selectedSources: string[] = [];
+  timeRange: TimeRange | null = null;
+  bookmarkedOnly = false;
 
   levelOptions: string[] = [];
   applicationOptions: string[] = [];
   contextOptions: string[] = [];
+  sourceOptions: string[] = [];
 
   isLoaded = false;
   expandedEventUid: string | null = null;
-  expandedMetaKey: string | null = null;
+  /** The event the keyboard shortcuts act on; moved with j/k and n/N. */
+  activeEventUid: string | null = null;
+  /** Commands of the open command palette, built when it opens; `null` while it is closed. */
+  paletteCommands: PaletteCommand[] | null = null;
   filteredEvents: EventView[] = [];
+  /** Events passing every filter except the time range; the histogram charts these. */
+  timelineEvents: EventView[] = [];
+  /** Human-readable active filters, for exports. */
+  filterDescription: string[] = [];
+  /** Bookmarked events by uid, with their investigation notes and tags. */
+  bookmarks: EventBookmarks = new Map();
+  /** The events panel shows either the event list or the statistics of the same filtered events. */
+  eventsView: 'list' | 'statistics' = 'list';
+  /** Shows unredacted values in the viewer; exports stay redacted regardless. */
+  showOriginal = false;
+  /** The sources as the metadata panel shows them, redacted unless `showOriginal` is set. */
+  metadataSources: LogSource[] = [];
   private eventViews: EventView[] = [];
-
-  onFileSelected(event: Event): void {
-    const input = event.target as HTMLInputElement;
-    const selectedFile = input.files?.[0];
-
-    if (!selectedFile) {
-      return;
-    }
-
-    this.loadFile(selectedFile);
-    input.value = '';
+  /** `eventViews` as displayed and filtered: redacted copies, or the same array when nothing is masked. */
+  private displayViews: EventView[] = [];
+  private redactedViews = new WeakMap<EventView, EventView>();
+  private parseSubscription: Subscription | null = null;
+  private liveSubscription: Subscription | null = null;
+  /** The newest events of the live feed; events pushed out of it are dropped from the viewer. */
+  private liveBuffer: EventRingBuffer | null = null;
+  private urlSubscription: Subscription | null = null;
+  private searchPredicate: EventPredicate | null = null;
+  private appliedQuery = '';
+  private nextSourceNumber = 1;
+  /** Counts uploads, so a slow archive does not load after newer files were chosen. */
+  private uploadNumber = 0;
+  /** Serialized query parameters last written to or read from the URL, to skip redundant navigations. */
+  private urlStateKey = '';
+  /** Row to scroll to once a reopened session has finished parsing. */
+  private pendingScrollIndex: number | null = null;
+
+  ngOnInit(): void {
+    this.urlSubscription = this.route.queryParams.subscribe((params) => this.onUrlChange(params));
   }
 
-  onFilterChange(): void {
-    this.applyFilters();
+  ngOnDestroy(): void {
+    this.parseSubscription?.unsubscribe();
+    this.liveSubscription?.unsubscribe();
+    this.urlSubscription?.unsubscribe();
   }
 
-  clearFilters(): void {
-    this.searchText = '';
-    this.selectedLevels = [];
-    this.selectedApplications = [];
-    this.selectedContexts = [];
-    this.applyFilters();
+  get isParsing(): boolean {
+    return this.sources.some((source) => source.status === 'parsing' || source.status === 'queued');
   }
 
-  toggleFilterOption(
-    filterType: 'level' | 'application' | 'context',
-    option: string,
-    event: Event
-  ): void {
-    const input = event.target as HTMLInputElement;
-    const checked = input.checked;
-
-    if (filterType === 'level') {
-      this.selectedLevels = this.toggleSelection(this.selectedLevels, option, checked);
-    } else if (filterType === 'application') {
-      this.selectedApplications = this.toggleSelection(this.selectedApplications, option, checked);
-    } else {
-      this.selectedContexts = this.toggleSelection(this.selectedContexts, option, checked);
-    }
-
-    this.applyFilters();
+  get isLive(): boolean {
+    return this.sources.some((source) => source.status === 'live');
   }
 
-  isFilterOptionSelected(
-    filterType: 'level' | 'application' | 'context',
-    option: string
-  ): boolean {
-    if (filterType === 'level') {
-      return this.selectedLevels.includes(option);
-    }
-    if (filterType === 'application') {
-      return this.selectedApplications.includes(option);
-    }
+  get liveBufferSize(): number {
+    return this.liveBuffer?.size ?? 0;
+  }
 
-    return this.selectedContexts.includes(option);
+  get applicationName(): string {
+    const names = this.uniqueOptions(
+      this.metadataSources
+        .filter((source) => source.status === 'complete')
+        .map((source) => source.applicationName)
+    );
+    return names.length > 0 ? names.join(', ') : '-';
   }
 
-  toggleEventJson(eventUid: string): void {
-    this.expandedEventUid = this.expandedEventUid === eventUid ? null : eventUid;
+  /** Every event as displayed, before filtering; threads are built from these. */
+  get allEvents(): EventView[] {
+    return this.displayViews;
   }
 
-  isEventExpanded(eventUid: string): boolean {
-    return this.expandedEventUid === eventUid;
+  get hasSkippedLines(): boolean {
+    return this.sources.some((source) => source.skippedLines.length > 0);
   }
 
-  toggleMetaJson(metaKey: string): void {
-    this.expandedMetaKey = this.expandedMetaKey === metaKey ? null : metaKey;
+  get hasMetadata(): boolean {
+    return this.sources.some(
+      (source) => source.prettyMetaBlocks.length > 0 || source.metaEntries.length > 0
+    );
   }
 
-  isMetaExpanded(metaKey: string): boolean {
-    return this.expandedMetaKey === metaKey;
+  get hasTemplateMetadata(): boolean {
+    return this.sources.some((source) =>
+      source.prettyMetaBlocks.some((block) => block.key === 'templates' || block.key === 'widgets')
+    );
   }
 
-  getMetaRawJson(target: JsonPreviewTarget): string {
-    if (target.rawJsonCache) {
-      return target.rawJsonCache;
-    }
+  onFileSelected(event: Event, append = false): void {
+    const input = event.target as HTMLInputElement;
+    const selectedFiles = Array.from(input.files ?? []);
 
-    const maxChars = 120000;
-    const rawJson = this.toJsonString(target.rawValue, 2);
-    target.rawJsonCache =
-      rawJson.length > maxChars
-        ? `${rawJson.slice(0, maxChars)}\n... [truncated at ${maxChars} characters]`
-        : rawJson;
+    if (selectedFiles.length === 0) {
+      return;
+    }
 
-    return target.rawJsonCache;
+    void this.openUploads(selectedFiles, append);
+    input.value = '';
   }
 
-  private loadFile(file: File): void {
-    const reader = new FileReader();
-    this.parseError = '';
-
-    reader.onload = () => {
-      try {
-        const rawText = typeof reader.result === 'string' ? reader.result : '';
-        if (!rawText.trim()) {
-          throw new Error('The selected file is empty.');
-        }
+  onDragOver(event: DragEvent): void {
+    event.preventDefault();
+    this.isDragOver = true;
+  }
 
-        const parsed = JSON.parse(rawText) as unknown;
-        this.processJson(parsed, file.name);
-      } catch (error) {
-        this.handleParseError(error);
-      }
-    };
+  onDragLeave(): void {
+    this.isDragOver = false;
+  }
 
-    reader.onerror = () => {
-      this.handleParseError(new Error('Could not read the selected file.'));
-    };
+  onDrop(event: DragEvent): void {
+    event.preventDefault();
+    this.isDragOver = false;
 
-    reader.readAsText(file);
+    const droppedFiles = Array.from(event.dataTransfer?.files ?? []);
+    if (droppedFiles.length > 0) {
+      void this.openUploads(droppedFiles, this.sources.length > 0);
+    }
   }
 
-  private processJson(parsed: unknown, fileName: string): void {
-    this.resetViewerState();
+  /** Loads the files picked in the archive browser together with the plain files uploaded alongside. */
+  async openArchiveEntries(entries: ArchiveEntry[]): Promise<void> {
+    const pending = this.pendingUploads;
+    if (!pending) {
+      return;
+    }
 
-    this.fileName = fileName;
-    const rootRecord = this.asRecord(parsed);
-    const events = this.extractEvents(parsed, rootRecord);
-    const meta = this.extractMetaRecord(rootRecord);
-
-    this.applicationName =
-      this.firstInline([
-        rootRecord?.['application'],
-        rootRecord?.['applicationName'],
-        meta?.['application'],
-        meta?.['environmentType']
-      ]) || this.inferApplicationFromEvents(events) || 'unknown';
-
-    this.prettyMetaBlocks = this.buildPrettyMetaBlocks(meta);
-    this.metaEntries = this.extractMetaEntries(meta);
-    this.eventViews = events.map((event, index) => this.toEventView(event, index));
-    this.totalEvents = this.eventViews.length;
+    const upload = this.startUpload();
+    const extracted = await extractArchiveEntries(entries);
+    if (upload === this.uploadNumber) {
+      this.isUnpacking = false;
+      this.loadUploads(
+        [...pending.files, ...extracted.files],
+        [...pending.failed, ...extracted.failed],
+        pending.append
+      );
+    }
+  }
 
-    this.levelOptions = this.uniqueOptions(this.eventViews.map((event) => event.level));
-    this.applicationOptions = this.uniqueOptions(
-      this.eventViews.map((event) => event.application)
-    );
-    this.contextOptions = this.uniqueOptions(this.eventViews.map((event) => event.context));
+  /** Closes the archive browser; the plain files uploaded with the archives are still loaded. */
+  cancelArchives(): void {
+    const pending = this.pendingUploads;
+    this.pendingUploads = null;
+    if (pending && pending.files.length + pending.failed.length > 0) {
+      this.loadUploads(pending.files, pending.failed, pending.append);
+    }
+  }
 
-    this.isLoaded = true;
-    this.applyFilters();
+  closeAllFiles(): void {
+    this.pendingUploads = null;
+    this.parseSubscription?.unsubscribe();
+    this.parseSubscription = null;
+    this.liveSubscription?.unsubscribe();
+    this.liveSubscription = null;
+    this.liveBuffer = null;
+    this.sources = [];
+    // Source keys are part of event uids, so restarting the numbering keeps bookmarks valid on reopen.
+    this.nextSourceNumber = 1;
+    this.resetViewerState();
   }
 
-  private applyFilters(): void {
-    const searchTerm = this.searchText.trim().toLowerCase();
-
-    this.filteredEvents = this.eventViews.filter((event) => {
-      const matchesSearch = !searchTerm || event.searchable.includes(searchTerm);
-      const matchesLevel =
-        this.selectedLevels.length === 0 || this.selectedLevels.includes(event.level);
-      const matchesApplication =
-        this.selectedApplications.length === 0 ||
-        this.selectedApplications.includes(event.application);
-      const matchesContext =
-        this.selectedContexts.length === 0 || this.selectedContexts.includes(event.context);
-
-      return matchesSearch && matchesLevel && matchesApplication && matchesContext;
+  saveSession(name: string): void {
+    void this.sessionStore.save({
+      name,
+      // Live feeds cannot be replayed, so only files are kept.
+      files: this.sources.flatMap((source) => (source.file ? [source.file] : [])),
+      state: this.currentViewerState(),
+      ...bookmarksToSession(this.bookmarks),
+      scrollIndex: this.eventList?.firstVisibleIndex ?? 0
     });
-
-    if (!this.filteredEvents.some((event) => event.uid === this.expandedEventUid)) {
-      this.expandedEventUid = null;
-    }
   }
 
-  private toEventView(eventValue: unknown, index: number): EventView {
-    const event = this.asRecord(eventValue) ?? {};
-    const data = this.asRecord(event['data']);
-    const metaData = this.asRecord(event['metaData']);
-
-    const id =
-      this.firstInline([event['id'], event['eventId'], event['uuid'], data?.['id']]) ||
-      `${index + 1}`;
-    const timestamp = this.normalizeTimestamp(
-      this.firstDefined([
-        event['timestamp'],
-        event['time'],
-        event['created'],
-        event['dateTime'],
-        data?.['timestamp'],
-        data?.['time']
-      ])
-    );
+  openSession(session: SavedSession): void {
+    this.closeAllFiles();
+    // Sessions saved before a filter existed lack its field.
+    this.applyViewerState({ ...EMPTY_VIEWER_STATE, ...session.state });
+    this.bookmarks = bookmarksFromSession(session);
+    this.pendingScrollIndex = session.scrollIndex;
+    this.loadFiles(session.files, false);
+  }
 
-    const level = this.inferLevel(event, data, metaData);
-    const application =
-      this.firstInline([
-        event['applicationName'],
-        event['application'],
-        event['channel'],
-        event['source'],
-        data?.['source'],
-        data?.['application'],
-        data?.['provider']
-      ]) || 'unknown';
-
-    const context =
-      this.firstInline([
-        event['context'],
-        event['topic'],
-        event['eventType'],
-        data?.['type'],
-        data?.['eventName'],
-        data?.['topic'],
-        data?.['event']
-      ]) || 'none';
-
-    const message = this.extractMessage(event, data);
-    const compactRaw = this.toJsonString(event, 0);
-    const rawJson = this.toJsonString(event, 2);
-    const searchableRaw = compactRaw.length > 1800 ? compactRaw.slice(0, 1800) : compactRaw;
-    const lineTitle = `${timestamp} | ${level} | ${application} | ${context} | ${message}`;
+  /**
+   * Adds a live feed to the timeline next to the open files. Its events go through the same filters as
+   * file events; once more than the buffer size have arrived, the oldest are dropped.
+   */
+  startLiveTail(settings: LiveTailSettings): void {
+    this.stopLiveTail();
 
-    return {
-      uid: `${index}-${id}`,
-      id,
-      timestamp,
-      level,
-      levelTone: this.getLevelTone(level),
-      application,
-      context,
-      message,
-      rawJson,
-      lineTitle,
-      searchable: `${id} ${lineTitle} ${searchableRaw}`.toLowerCase().trim()
-    };
+    const source = this.createSource(settings.url, null, 'live');
+    source.applicationName = 'live feed';
+    this.sources = [...this.sources, source];
+    this.isLoaded = true;
+    this.refreshMetadataSources();
+
+    const buffer = new EventRingBuffer(settings.bufferSize);
+    this.liveBuffer = buffer;
+    this.liveSubscription = this.liveTail
+      .connect(settings.url, {
+        sourceKey: source.key,
+        sourceName: source.name,
+        lineParsers: this.lineParserSettings.userParsers,
+        mappingProfiles: this.mappingProfiles.candidates()
+      })
+      .subscribe({
+        next: (events) => this.handleLiveEvents(source, buffer, events),
+        error: (error: unknown) => {
+          this.liveSubscription = null;
+          // Events received before the connection failed stay in the timeline.
+          source.status = 'error';
+          source.error = error instanceof Error ? error.message : 'The live feed failed.';
+          this.refreshMetadataSources();
+        },
+        complete: () => this.stopLiveTail()
+      });
   }
 
-  private getLevelTone(level: string): 'error' | 'warning' | 'info' | 'debug' | 'trace' | 'neutral' {
-    const upper = level.toUpperCase();
-    if (upper.includes('ERROR') || upper.includes('CRITICAL') || upper.includes('FATAL')) {
-      return 'error';
-    }
-    if (upper.includes('WARN')) {
-      return 'warning';
-    }
-    if (upper.includes('DEBUG')) {
-      return 'debug';
-    }
-    if (upper.includes('TRACE')) {
-      return 'trace';
-    }
-    if (upper.includes('INFO') || upper.includes('LOG')) {
-      return 'info';
-    }
+  /** Disconnects the live feed; its events stay in the timeline like those of a file. */
+  stopLiveTail(): void {
+    this.liveSubscription?.unsubscribe();
+    this.liveSubscription = null;
 
-    return 'neutral';
-  }
-
-  private inferLevel(
-    event: Record<string, unknown>,
-    data: Record<string, unknown> | null,
-    metaData: Record<string, unknown> | null
-  ): string {
-    const candidates: unknown[] = [
-      metaData?.['level'],
-      event['level'],
-      event['severity'],
-      data?.['level'],
-      data?.['severity'],
-      data?.['notificationType'],
-      event['channel']
-    ];
-
-    for (const candidate of candidates) {
-      const text = this.valueToInlineString(candidate);
-      if (!text) {
-        continue;
-      }
-
-      const normalized = this.normalizeLevel(text);
-      if (normalized) {
-        return normalized;
-      }
+    const source = this.sources.find((candidate) => candidate.status === 'live');
+    if (source) {
+      source.status = 'complete';
+      this.refreshMetadataSources();
     }
+  }
 
-    return 'UNKNOWN';
+  /** Redaction rules changed: everything derived from the previous rules is rebuilt. */
+  onRedactionChange(): void {
+    this.redactedViews = new WeakMap<EventView, EventView>();
+    this.refreshDisplayViews();
   }
 
-  private normalizeLevel(value: string): string {
-    const upper = value.toUpperCase();
+  setOriginalValues(showOriginal: boolean): void {
+    this.showOriginal = showOriginal;
+    this.refreshDisplayViews();
+  }
 
-    if (upper.includes('CRITICAL') || upper.includes('FATAL')) {
-      return 'CRITICAL';
+  /** Removing a bookmark also drops its note and tags. */
+  toggleBookmark(eventUid: string): void {
+    const bookmarks = new Map(this.bookmarks);
+    if (!bookmarks.delete(eventUid)) {
+      bookmarks.set(eventUid, EMPTY_ANNOTATION);
     }
-    if (upper.includes('ERROR') || upper === 'ERR') {
-      return 'ERROR';
-    }
-    if (upper.includes('WARN')) {
-      return 'WARNING';
-    }
-    if (upper.includes('DEBUG')) {
-      return 'DEBUG';
-    }
-    if (upper.includes('TRACE')) {
-      return 'TRACE';
-    }
-    if (upper.includes('INFO') || upper === 'LOG') {
-      return 'INFO';
+    this.bookmarks = bookmarks;
+    if (this.bookmarkedOnly) {
+      this.applyFilters();
     }
+  }
 
-    if (/^[A-Z0-9_-]{2,20}$/.test(upper)) {
-      return upper;
-    }
+  /** Writing a note or tags bookmarks the event. */
+  annotateEvent(change: { uid: string; annotation: EventAnnotation }): void {
+    this.bookmarks = new Map(this.bookmarks).set(change.uid, change.annotation);
+  }
 
-    return '';
-  }
-
-  private extractMessage(
-    event: Record<string, unknown>,
-    data: Record<string, unknown> | null
-  ): string {
-    const candidates: unknown[] = [
-      data?.['message'],
-      event['message'],
-      data?.['detail'],
-      data?.['reason'],
-      data?.['type'],
-      data?.['eventName'],
-      data?.['event'],
-      event['topic'],
-      event['type'],
-      data?.['code'],
-      event['code']
-    ];
-
-    for (const candidate of candidates) {
-      const text = this.valueToInlineString(candidate);
-      if (text) {
-        return text;
-      }
-    }
+  setBookmarkedOnly(bookmarkedOnly: boolean): void {
+    this.bookmarkedOnly = bookmarkedOnly;
+    this.applyFilters();
+  }
 
-    if (data && Object.keys(data).length > 0) {
-      return `Data keys: ${Object.keys(data).slice(0, 6).join(', ')}`;
+  sourcePercent(source: LogSource): number {
+    if (source.progress.totalBytes === 0) {
+      return source.status === 'complete' ? 100 : 0;
     }
 
-    return 'No short message available';
+    return Math.round((source.progress.bytesRead / source.progress.totalBytes) * 100);
   }
 
-  private extractEvents(parsed: unknown, rootRecord: Record<string, unknown> | null): unknown[] {
-    if (Array.isArray(parsed)) {
-      return parsed;
-    }
+  onFilterChange(): void {
+    this.applyFilters();
+  }
 
-    const dataRecord = this.asRecord(rootRecord?.['data']);
-    const payloadRecord = this.asRecord(rootRecord?.['payload']);
-
-    const directCandidates: unknown[] = [
-      rootRecord?.['events'],
-      rootRecord?.['logs'],
-      rootRecord?.['records'],
-      rootRecord?.['entries'],
-      rootRecord?.['items'],
-      dataRecord?.['events'],
-      dataRecord?.['logs'],
-      payloadRecord?.['events'],
-      payloadRecord?.['logs']
-    ];
-
-    for (const candidate of directCandidates) {
-      if (Array.isArray(candidate)) {
-        return candidate;
+  onSearchChange(): void {
+    try {
+      this.searchPredicate = compileEventQuery(this.searchText);
+      this.appliedQuery = this.searchText.trim();
+      this.queryError = '';
+    } catch (error) {
+      if (!(error instanceof QuerySyntaxError)) {
+        throw error;
       }
-    }
 
-    if (rootRecord) {
-      for (const value of Object.values(rootRecord)) {
-        if (Array.isArray(value) && this.looksLikeEventArray(value)) {
-          return value;
-        }
-      }
+      // Keep the last valid query applied while the user is still typing.
+      this.queryError = error.message;
+      return;
     }
 
-    return [];
+    this.applyFilters();
   }
 
-  private looksLikeEventArray(values: unknown[]): boolean {
-    const sampleSize = Math.min(values.length, 20);
-    let matches = 0;
-
-    for (let i = 0; i < sampleSize; i += 1) {
-      const entry = this.asRecord(values[i]);
-      if (!entry) {
-        continue;
-      }
-
-      if (
-        entry['timestamp'] !== undefined ||
-        entry['topic'] !== undefined ||
-        entry['message'] !== undefined ||
-        entry['event'] !== undefined ||
-        entry['data'] !== undefined
-      ) {
-        matches += 1;
-      }
-    }
-
-    return matches >= 1;
+  /** ANDs a term from the event detail pane onto the last valid query. */
+  addQueryTerm(term: string): void {
+    this.searchText = appendQueryTerm(this.searchPredicate ? this.appliedQuery : '', term);
+    this.onSearchChange();
   }
 
-  private extractMetaRecord(rootRecord: Record<string, unknown> | null): Record<string, unknown> | null {
-    return (
-      this.asRecord(rootRecord?.['meta']) ||
-      this.asRecord(rootRecord?.['metadata']) ||
-      this.asRecord(rootRecord?.['header']) ||
-      null
-    );
+  clearFilters(): void {
+    this.resetFilters();
+    this.applyFilters();
   }
 
-  private buildPrettyMetaBlocks(meta: Record<string, unknown> | null): PrettyMetadataBlock[] {
-    if (!meta) {
-      return [];
-    }
+  /** Narrows the viewer to one thread: its ids become the query and every other filter is cleared. */
+  openThread(thread: EventThread): void {
+    this.replaceQuery(threadQuery(thread));
+  }
 
-    const blocks: PrettyMetadataBlock[] = [];
-    const browser = this.asRecord(meta['browser']);
-    if (browser) {
-      blocks.push(this.buildBrowserBlock(browser));
-    }
+  /** Narrows the viewer to the events of one message template, like {@link openThread}. */
+  openCluster(cluster: MessageCluster): void {
+    this.replaceQuery(clusterQuery(cluster));
+  }
 
-    const agent = this.asRecord(meta['agent']);
-    if (agent) {
-      blocks.push(this.buildAgentBlock(agent));
+  /** Expands an event and scrolls to it, clearing the filters first when they hide it. */
+  revealEvent(eventUid: string): void {
+    if (!this.filteredEvents.some((event) => event.uid === eventUid)) {
+      this.resetFilters();
+      this.applyFilters();
     }
 
-    const settings = this.asRecord(meta['settings']);
-    if (settings) {
-      blocks.push(this.buildSettingsBlock(settings));
+    const index = this.filteredEvents.findIndex((event) => event.uid === eventUid);
+    if (index < 0) {
+      return;
     }
 
-    const templates = this.toRecordArray(meta['templates']);
-    if (templates.length > 0) {
-      blocks.push(this.buildTemplatesBlock(templates));
-    }
+    this.eventsView = 'list';
+    this.expandedEventUid = eventUid;
+    this.activeEventUid = eventUid;
+    this.syncUrl();
+    setTimeout(() => this.eventList?.scrollToIndex(index, 'start'));
+  }
 
-    const widgetBlock = this.buildWidgetsBlock(meta, templates);
-    if (widgetBlock) {
-      blocks.push(widgetBlock);
+  /**
+   * Shows the events behind a finding: the rule's query over the finding's time span, in the file it was
+   * found in. Findings on metadata only have no events, so the filters are left alone.
+   */
+  openFinding(finding: Finding): void {
+    if (finding.query === null && finding.range === null) {
+      return;
     }
 
-    return blocks;
+    this.resetFilters();
+    this.selectedSources = [finding.source];
+    this.timeRange = finding.range;
+    this.searchText = finding.query ?? '';
+    this.onSearchChange();
   }
 
-  private buildBrowserBlock(browser: Record<string, unknown>): PrettyMetadataBlock {
-    const os = this.asRecord(browser['os']);
-    const browserName = this.firstInline([browser['name'], browser['description']]) || 'Unknown';
-    const browserVersion = this.valueToInlineString(browser['version']) || 'n/a';
-
-    return {
-      key: 'browser',
-      title: 'Browser',
-      subtitle: `${browserName} ${browserVersion}`.trim(),
-      facts: [
-        { label: 'Name', value: this.valueToInlineString(browser['name']) || 'unknown' },
-        { label: 'Version', value: browserVersion },
-        { label: 'Layout Engine', value: this.valueToInlineString(browser['layout']) || 'n/a' },
-        {
-          label: 'OS',
-          value: this.firstInline([
-            os?.['family'],
-            os?.['name'],
-            browser['platform']
-          ]) || 'unknown'
-        },
-        { label: 'OS Version', value: this.valueToInlineString(os?.['version']) || 'n/a' },
-        { label: 'Architecture', value: this.valueToInlineString(os?.['architecture']) || 'n/a' }
-      ],
-      highlights: this.compactHighlights([
-        this.valueToInlineString(browser['description']),
-        this.valueToInlineString(browser['ua'])
-      ]),
-      rawValue: browser
-    };
+  onTimeRangeChange(range: TimeRange | null): void {
+    this.timeRange = range;
+    this.applyFilters();
   }
 
-  private buildAgentBlock(agent: Record<string, unknown>): PrettyMetadataBlock {
-    const reasonCodes = this.toRecordArray(agent['reasonCodes']);
-    const reasonNames = reasonCodes
-      .map((reason) => this.firstInline([reason['friendlyName'], reason['code']]))
-      .filter((value) => value);
-
-    const name =
-      this.firstInline([
-        agent['displayName'],
-        `${this.valueToInlineString(agent['firstName'])} ${this.valueToInlineString(agent['lastName'])}`.trim()
-      ]) || 'Unknown Agent';
-
-    return {
-      key: 'agent',
-      title: 'Agent',
-      subtitle: name,
-      facts: [
-        { label: 'Handle', value: this.valueToInlineString(agent['handle']) || 'n/a' },
-        { label: 'Role', value: this.valueToInlineString(agent['role']) || 'n/a' },
-        { label: 'State', value: this.valueToInlineString(agent['state']) || 'n/a' },
-        { label: 'Channel', value: this.valueToInlineString(agent['channel']) || 'n/a' },
-        { label: 'Station', value: this.valueToInlineString(agent['stationId']) || 'n/a' },
-        { label: 'Agent ID', value: this.valueToInlineString(agent['agentId']) || 'n/a' },
-        { label: 'Provider', value: this.valueToInlineString(agent['providerId']) || 'n/a' },
-        { label: 'Reason Codes', value: `${reasonCodes.length}` }
-      ],
-      highlights: this.compactHighlights(reasonNames.slice(0, 10)),
-      rawValue: agent
-    };
+  toggleFilterOption(filterType: FilterDimension, option: string, event: Event): void {
+    this.setFilterOption(filterType, option, (event.target as HTMLInputElement).checked);
   }
 
-  private buildSettingsBlock(settings: Record<string, unknown>): PrettyMetadataBlock {
-    const selectedKeys = [
-      'environmentType',
-      'websocketsEnabled',
-      'hotdesk',
-      'isWebRTC',
-      'displayCanvasOnAlerting',
-      'workspacesLogsDownloadEnabled',
-      'workspacesLogsDataPrivacyEnabled',
-      'forceRefreshRate',
-      'maxDeferTime',
-      'customerManagementFQDN',
-      'pomWidgetLocation'
-    ];
-
-    const facts = selectedKeys
-      .map((key) => ({
-        label: this.prettyLabel(key),
-        value: this.prettyValue(settings[key])
-      }))
-      .filter((fact) => fact.value !== 'n/a');
-
-    const deferIntervals = this.prettyValue(settings['deferTimeIntervals']);
-    const settingsEntries = Object.keys(settings).length;
+  setFilterOption(filterType: FilterDimension, option: string, checked: boolean): void {
+    if (filterType === 'level') {
+      this.selectedLevels = this.toggleSelection(this.selectedLevels, option, checked);
+    } else if (filterType === 'application') {
+      this.selectedApplications = this.toggleSelection(this.selectedApplications, option, checked);
+    } else if (filterType === 'context') {
+      this.selectedContexts = this.toggleSelection(this.selectedContexts, option, checked);
+    } else {
+      this.selectedSources = this.toggleSelection(this.selectedSources, option, checked);
+    }
 
-    return {
-      key: 'settings',
-      title: 'Settings',
-      subtitle: `${settingsEntries} settings entries`,
-      facts,
-      highlights: this.compactHighlights([`Defer intervals: ${deferIntervals}`]),
-      rawValue: settings
-    };
+    this.applyFilters();
   }
 
-  private buildTemplatesBlock(templates: Record<string, unknown>[]): PrettyMetadataBlock {
-    let coreCount = 0;
-    let compressedCount = 0;
-    let totalTabs = 0;
-    let totalWidgetRefs = 0;
-
-    const templateNames = templates
-      .map((template) => this.firstInline([template['name'], template['id']]))
-      .filter((value) => value);
-
-    for (const template of templates) {
-      if (template['core'] === true) {
-        coreCount += 1;
-      }
-      if (template['useCompressedWorkspaces'] === true) {
-        compressedCount += 1;
-      }
-      totalTabs += this.countTemplateTabs(template);
-      totalWidgetRefs += this.countTemplateWidgetRefs(template);
+  isFilterOptionSelected(filterType: FilterDimension, option: string): boolean {
+    if (filterType === 'level') {
+      return this.selectedLevels.includes(option);
+    }
+    if (filterType === 'application') {
+      return this.selectedApplications.includes(option);
+    }
+    if (filterType === 'context') {
+      return this.selectedContexts.includes(option);
     }
 
-    return {
-      key: 'templates',
-      title: 'Templates',
-      subtitle: `${templates.length} templates`,
-      facts: [
-        { label: 'Core Templates', value: `${coreCount}` },
-        { label: 'Compressed Layouts', value: `${compressedCount}` },
-        { label: 'Total Tabs', value: `${totalTabs}` },
-        { label: 'Widget References', value: `${totalWidgetRefs}` }
-      ],
-      highlights: this.compactHighlights(templateNames.slice(0, 10)),
-      rawValue: templates
-    };
+    return this.selectedSources.includes(option);
   }
 
-  private buildWidgetsBlock(
-    meta: Record<string, unknown>,
-    templates: Record<string, unknown>[]
-  ): PrettyMetadataBlock | null {
-    const localStorage = this.asRecord(meta['localStorage']);
-    const widgetsRaw = this.valueToInlineString(localStorage?.['_cc.widgets']);
-    const widgetCatalog = this.parseWidgetCatalog(widgetsRaw);
-
-    const templateWidgetNames = this.extractTemplateWidgetNames(templates);
-    const catalogWidgetNames = widgetCatalog
-      .map((widget) => this.firstInline([widget['name'], widget['metadataName']]))
-      .filter((value) => value);
-    const uniqueNames = Array.from(new Set([...catalogWidgetNames, ...templateWidgetNames]));
+  toggleEventJson(eventUid: string): void {
+    this.activeEventUid = eventUid;
+    this.expandedEventUid = this.expandedEventUid === eventUid ? null : eventUid;
+    this.syncUrl();
+  }
 
-    if (widgetCatalog.length === 0 && uniqueNames.length === 0) {
-      return null;
+  /**
+   * Keyboard shortcuts (see `keyboard-shortcuts.ts`). Keys typed into a field stay there, except Ctrl+K;
+   * Enter on a button or link keeps activating it.
+   */
+  @HostListener('document:keydown', ['$event'])
+  onKeydown(event: KeyboardEvent): void {
+    const action = keyboardAction(event);
+    if (!action || event.defaultPrevented) {
+      return;
     }
 
-    return {
-      key: 'widgets',
-      title: 'Widgets',
-      subtitle: `${uniqueNames.length} unique widget names`,
-      facts: [
-        { label: 'Widget Catalog', value: `${widgetCatalog.length}` },
-        { label: 'Template Widget Refs', value: `${templateWidgetNames.length}` },
-        { label: 'Unique Names', value: `${uniqueNames.length}` }
-      ],
-      highlights: this.compactHighlights(uniqueNames.slice(0, 12)),
-      rawValue: {
-        widgetCatalog,
-        templateWidgetNames
+    if (action === 'openPalette') {
+      event.preventDefault();
+      if (this.paletteCommands) {
+        this.closePalette();
+      } else {
+        this.openPalette();
       }
-    };
-  }
+      return;
+    }
 
-  private toRecordArray(value: unknown): Record<string, unknown>[] {
-    if (!Array.isArray(value)) {
-      return [];
+    if (this.paletteCommands || !this.isLoaded || handlesOwnKey(event.target, action)) {
+      return;
     }
+    event.preventDefault();
+    this.runShortcut(action);
+  }
 
-    const records: Record<string, unknown>[] = [];
-    for (const item of value) {
-      const record = this.asRecord(item);
-      if (record) {
-        records.push(record);
+  /** Runs a shortcut on the active event; moving makes another row of the filtered list active. */
+  runShortcut(action: ViewerShortcut): void {
+    const index = this.activeEventUid
+      ? this.filteredEvents.findIndex((event) => event.uid === this.activeEventUid)
+      : -1;
+
+    if (action === 'focusSearch') {
+      this.searchInput?.nativeElement.focus();
+      this.searchInput?.nativeElement.select();
+    } else if (action === 'toggleDetails' || action === 'toggleBookmark') {
+      if (index < 0) {
+        return;
+      }
+      if (action === 'toggleBookmark') {
+        this.toggleBookmark(this.filteredEvents[index].uid);
+        return;
       }
+      this.toggleEventJson(this.filteredEvents[index].uid);
+      this.showActiveEvent(index);
+    } else {
+      this.showActiveEvent(moveEventIndex(this.filteredEvents, index, action));
     }
+  }
 
-    return records;
+  openPalette(): void {
+    this.paletteCommands = buildPaletteCommands(this);
   }
 
-  private parseWidgetCatalog(rawWidgets: string): Array<Record<string, unknown>> {
-    if (!rawWidgets) {
-      return [];
-    }
+  openFilePicker(append: boolean): void {
+    (append ? this.addFileInput : this.fileInput)?.nativeElement.click();
+  }
 
-    try {
-      const parsed = JSON.parse(rawWidgets) as unknown;
-      if (!Array.isArray(parsed)) {
-        return [];
-      }
+  closePalette(): void {
+    this.paletteCommands = null;
+  }
 
-      const widgets: Array<Record<string, unknown>> = [];
-      for (const entry of parsed) {
-        const widget = this.asRecord(entry);
-        const metadata = this.asRecord(widget?.['metadata']);
-        const configuration = this.asRecord(widget?.['configuration']);
+  runPaletteCommand(command: PaletteCommand): void {
+    this.closePalette();
+    command.run();
+  }
 
-        if (!widget) {
-          continue;
-        }
+  cancelParse(): void {
+    if (!this.isParsing) {
+      return;
+    }
 
-        widgets.push({
-          name: this.firstInline([metadata?.['name'], configuration?.['name'], widget['name']]),
-          metadataName: this.valueToInlineString(metadata?.['name']),
-          description: this.valueToInlineString(metadata?.['description']),
-          library: this.valueToInlineString(metadata?.['libraryName']) || this.valueToInlineString(metadata?.['library']),
-          enabled: configuration?.['enabled'] === true
-        });
+    this.parseSubscription?.unsubscribe();
+    this.parseSubscription = null;
+    for (const source of this.sources) {
+      if (source.status === 'parsing' || source.status === 'queued') {
+        source.status = 'cancelled';
       }
-
-      return widgets;
-    } catch {
-      return [];
     }
+    this.restoreScrollPosition();
   }
 
-  private extractTemplateWidgetNames(templates: Record<string, unknown>[]): string[] {
-    const names: string[] = [];
-
-    for (const template of templates) {
-      const layout = this.asRecord(template['layout']);
-      if (!layout) {
-        continue;
-      }
-
-      for (const roleLayoutValue of Object.values(layout)) {
-        const roleLayout = this.asRecord(roleLayoutValue);
-        const tabs = this.asRecord(roleLayout?.['tabs']);
-        if (!tabs) {
-          continue;
-        }
+  /**
+   * Decompresses gzipped uploads and opens the archive browser for zip archives; without archives to
+   * browse, the files are loaded right away.
+   */
+  private async openUploads(files: File[], append: boolean): Promise<void> {
+    const upload = this.startUpload();
+    const uploads = await unpackUploads(files);
+    if (upload !== this.uploadNumber) {
+      return;
+    }
 
-        for (const tabValue of Object.values(tabs)) {
-          const tab = this.asRecord(tabValue);
-          const widgets = tab?.['widgets'];
-          if (!Array.isArray(widgets)) {
-            continue;
-          }
-
-          for (const widget of widgets) {
-            const text = this.valueToInlineString(widget);
-            if (text) {
-              names.push(text);
-            }
-          }
-        }
-      }
+    this.isUnpacking = false;
+    if (uploads.archives.length > 0) {
+      this.pendingUploads = { ...uploads, append };
+    } else {
+      this.loadUploads(uploads.files, uploads.failed, append);
     }
+  }
 
-    return names;
+  private startUpload(): number {
+    this.pendingUploads = null;
+    this.isUnpacking = true;
+    return ++this.uploadNumber;
   }
 
-  private countTemplateTabs(template: Record<string, unknown>): number {
-    const layout = this.asRecord(template['layout']);
-    if (!layout) {
-      return 0;
+  /** Uploads that could not be opened are listed with their error next to the loaded files. */
+  private loadUploads(files: File[], failed: UploadFailure[], append: boolean): void {
+    if (!append && this.sources.length > 0) {
+      this.closeAllFiles();
     }
 
-    let count = 0;
-    for (const roleLayoutValue of Object.values(layout)) {
-      const roleLayout = this.asRecord(roleLayoutValue);
-      const tabs = this.asRecord(roleLayout?.['tabs']);
-      if (tabs) {
-        count += Object.keys(tabs).length;
-      }
+    for (const failure of failed) {
+      const source = this.createSource(failure.name, null, 'error');
+      source.error = `Could not open the file: ${failure.error}`;
+      this.sources = [...this.sources, source];
+    }
+    if (files.length > 0) {
+      this.loadFiles(files, true);
     }
-
-    return count;
   }
 
-  private countTemplateWidgetRefs(template: Record<string, unknown>): number {
-    const layout = this.asRecord(template['layout']);
-    if (!layout) {
-      return 0;
+  /**
+   * Replacing files starts a new investigation; the first files opened keep the filters that came with a
+   * shared URL or a reopened session.
+   */
+  private loadFiles(files: File[], append: boolean): void {
+    if (!append && this.sources.length > 0) {
+      this.closeAllFiles();
     }
 
-    let count = 0;
-    for (const roleLayoutValue of Object.values(layout)) {
-      const roleLayout = this.asRecord(roleLayoutValue);
-      const tabs = this.asRecord(roleLayout?.['tabs']);
-      if (!tabs) {
-        continue;
-      }
-
-      for (const tabValue of Object.values(tabs)) {
-        const tab = this.asRecord(tabValue);
-        const widgets = tab?.['widgets'];
-        if (Array.isArray(widgets)) {
-          count += widgets.length;
-        }
-      }
+    for (const file of files) {
+      this.sources = [...this.sources, this.createSource(file.name, file, 'queued')];
     }
 
-    return count;
+    this.isLoaded = true;
+    if (!this.parseSubscription) {
+      this.parseNextSource();
+    }
   }
 
-  private compactHighlights(values: string[]): string[] {
-    const highlights: string[] = [];
+  /** A new source under a name no open source has yet. */
+  private createSource(name: string, file: File | null, status: LogSourceStatus): LogSource {
+    const takenNames = new Set(this.sources.map((source) => source.name));
+    let uniqueName = name;
+    for (let copy = 2; takenNames.has(uniqueName); copy += 1) {
+      uniqueName = `${name} (${copy})`;
+    }
 
-    for (const value of values) {
-      const trimmed = value.trim();
-      if (!trimmed) {
-        continue;
-      }
+    return {
+      key: `s${this.nextSourceNumber++}`,
+      name: uniqueName,
+      file,
+      status,
+      progress: { bytesRead: 0, totalBytes: file?.size ?? 0, eventsParsed: 0, linesSkipped: 0 },
+      error: '',
+      format: null,
+      profileName: '',
+      skippedLines: [],
+      applicationName: '',
+      prettyMetaBlocks: [],
+      metaEntries: []
+    };
+  }
 
-      const compact = trimmed.length > 140 ? `${trimmed.slice(0, 137)}...` : trimmed;
-      highlights.push(compact);
+  /** Files are parsed one at a time so a batch of large exports does not multiply peak memory. */
+  private parseNextSource(): void {
+    const source = this.sources.find((candidate) => candidate.status === 'queued');
+    if (!source?.file) {
+      this.parseSubscription = null;
+      this.restoreScrollPosition();
+      return;
     }
 
-    return highlights;
+    source.status = 'parsing';
+    this.parseSubscription = this.logParseService
+      .parseFile(source.file, {
+        sourceKey: source.key,
+        sourceName: source.name,
+        lineParsers: this.lineParserSettings.userParsers,
+        mappingProfiles: this.mappingProfiles.candidates()
+      })
+      .subscribe({
+        next: (message) => this.handleParseMessage(source, message),
+        error: (error: unknown) => {
+          this.handleParseError(source, error);
+          this.parseNextSource();
+        },
+        complete: () => {
+          source.status = 'complete';
+          this.parseNextSource();
+        }
+      });
   }
 
-  private prettyLabel(key: string): string {
-    return key
-      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
-      .replace(/[_-]+/g, ' ')
-      .replace(/\b\w/g, (character) => character.toUpperCase());
+  private handleParseMessage(source: LogSource, message: LogParseMessage): void {
+    if (message.type === 'progress') {
+      source.progress = {
+        bytesRead: message.bytesRead,
+        totalBytes: message.totalBytes,
+        eventsParsed: message.eventsParsed,
+        linesSkipped: message.linesSkipped
+      };
+    } else if (message.type === 'events') {
+      this.appendEvents(message.events);
+    } else if (message.type === 'skipped') {
+      source.skippedLines = source.skippedLines.concat(message.lines);
+    } else if (message.type === 'complete') {
+      source.format = message.format;
+      source.profileName = message.profileName;
+      source.applicationName = message.summary.applicationName;
+      source.prettyMetaBlocks = message.summary.prettyMetaBlocks;
+      source.metaEntries = message.summary.metaEntries;
+      this.refreshMetadataSources();
+    }
   }
 
-  private prettyValue(value: unknown): string {
-    const inlineValue = this.valueToInlineString(value);
-    if (inlineValue) {
-      return inlineValue;
-    }
+  private appendEvents(originalEvents: EventView[]): void {
+    const merged = mergeEventsByTime(this.eventViews, originalEvents);
+    this.eventViews = merged.events;
+    this.totalEvents = this.eventViews.length;
 
-    if (Array.isArray(value)) {
-      const items = value
-        .map((item) => this.valueToInlineString(item))
-        .filter((item) => item)
-        .slice(0, 5);
+    // Redacted copies merge into the same order as their originals.
+    const events = this.isRedacting ? originalEvents.map((event) => this.displayView(event)) : originalEvents;
+    this.displayViews = this.isRedacting
+      ? mergeEventsByTime(this.displayViews, events).events
+      : this.eventViews;
+
+    this.levelOptions = this.uniqueOptions([
+      ...this.levelOptions,
+      ...events.map((event) => event.level)
+    ]);
+    this.applicationOptions = this.uniqueOptions([
+      ...this.applicationOptions,
+      ...events.map((event) => event.application)
+    ]);
+    this.contextOptions = this.uniqueOptions([
+      ...this.contextOptions,
+      ...events.map((event) => event.context)
+    ]);
+    this.sourceOptions = this.uniqueOptions([
+      ...this.sourceOptions,
+      ...events.map((event) => event.source)
+    ]);
+
+    if (!merged.appended) {
+      this.applyFilters();
+      return;
+    }
 
-      if (items.length === 0) {
-        return `Array(${value.length})`;
-      }
+    const timelineBatch = events.filter(this.createFilter());
+    this.timelineEvents = this.timelineEvents.concat(timelineBatch);
+    this.filteredEvents = this.filteredEvents.concat(
+      timelineBatch.filter((event) => this.matchesTimeRange(event))
+    );
+  }
 
-      return `${items.join(', ')}${value.length > items.length ? ', ...' : ''}`;
-    }
+  private handleLiveEvents(source: LogSource, buffer: EventRingBuffer, events: EventView[]): void {
+    source.progress = { ...source.progress, eventsParsed: source.progress.eventsParsed + events.length };
+    this.appendEvents(events);
 
-    const asObject = this.asRecord(value);
-    if (asObject) {
-      return `Object(${Object.keys(asObject).length})`;
+    const evicted = buffer.push(events);
+    if (evicted.length > 0) {
+      this.dropEvents(new Set(evicted.map((event) => event.uid)));
     }
+  }
 
-    return 'n/a';
+  /** Removes events pushed out of the live buffer from every event list; the filter options are kept. */
+  private dropEvents(uids: Set<string>): void {
+    const keep = (event: EventView): boolean => !uids.has(event.uid);
+    this.eventViews = this.eventViews.filter(keep);
+    this.displayViews = this.isRedacting ? this.displayViews.filter(keep) : this.eventViews;
+    this.timelineEvents = this.timelineEvents.filter(keep);
+    this.filteredEvents = this.filteredEvents.filter(keep);
+    this.totalEvents = this.eventViews.length;
   }
 
-  private extractMetaEntries(metaValue: Record<string, unknown> | null): MetaEntry[] {
-    if (!metaValue) {
-      return [];
+  /** Makes a row of the filtered list the active event and scrolls it into view. */
+  private showActiveEvent(index: number): void {
+    if (index < 0) {
+      return;
     }
 
-    const prettyMetaKeys = new Set(['browser', 'agent', 'settings', 'templates', 'widgets']);
-    return Object.entries(metaValue)
-      .filter(([key]) => !prettyMetaKeys.has(key))
-      .sort(([leftKey], [rightKey]) => leftKey.localeCompare(rightKey))
-      .map(([key, value]) => ({
-        key,
-        value: this.summarizeMetaValue(value),
-        rawValue: value
-      }));
+    this.activeEventUid = this.filteredEvents[index].uid;
+    this.eventsView = 'list';
+    setTimeout(() => this.eventList?.scrollToIndex(index));
   }
 
-  private summarizeMetaValue(value: unknown): string {
-    const inlineValue = this.valueToInlineString(value);
+  private replaceQuery(query: string): void {
+    this.resetFilters();
+    this.searchText = query;
+    this.onSearchChange();
+  }
 
-    if (inlineValue) {
-      return inlineValue.length > 180 ? `${inlineValue.slice(0, 177)}...` : inlineValue;
-    }
+  private resetFilters(): void {
+    this.searchText = '';
+    this.queryError = '';
+    this.searchPredicate = null;
+    this.appliedQuery = '';
+    this.selectedLevels = [];
+    this.selectedApplications = [];
+    this.selectedContexts = [];
+    this.selectedSources = [];
+    this.timeRange = null;
+    this.bookmarkedOnly = false;
+  }
 
-    if (Array.isArray(value)) {
-      return `Array(${value.length})`;
+  private applyFilters(): void {
+    this.timelineEvents = this.displayViews.filter(this.createFilter());
+    this.filteredEvents = this.timeRange
+      ? this.timelineEvents.filter((event) => this.matchesTimeRange(event))
+      : this.timelineEvents;
+
+    // A selection from the URL or a session refers to events that may not have been parsed yet.
+    const canResolveSelection = this.eventViews.length > 0 && !this.isParsing;
+    if (canResolveSelection && !this.filteredEvents.some((event) => event.uid === this.expandedEventUid)) {
+      this.expandedEventUid = null;
     }
+    this.filterDescription = this.describeFilters();
+    this.syncUrl();
+  }
+
+  private get isRedacting(): boolean {
+    return !this.showOriginal && this.redaction.redactor.active;
+  }
 
-    const asObject = this.asRecord(value);
-    if (asObject) {
-      const keys = Object.keys(asObject);
-      const preview = keys.slice(0, 5).join(', ');
-      const suffix = keys.length > 5 ? ', ...' : '';
-      return `Object(${keys.length} keys): ${preview}${suffix}`;
+  private displayView(event: EventView): EventView {
+    let view = this.redactedViews.get(event);
+    if (!view) {
+      view = this.redaction.redactor.redactEvent(event);
+      this.redactedViews.set(event, view);
     }
 
-    return this.toJsonString(value, 0);
+    return view;
   }
 
-  private inferApplicationFromEvents(events: unknown[]): string {
-    const sampleSize = Math.min(events.length, 100);
-
-    for (let i = 0; i < sampleSize; i += 1) {
-      const event = this.asRecord(events[i]);
-      const data = this.asRecord(event?.['data']);
-      const application = this.firstInline([
-        event?.['applicationName'],
-        event?.['application'],
-        event?.['channel'],
-        event?.['source'],
-        data?.['source']
-      ]);
+  /** Rebuilds the displayed events, their filter options and the metadata after a redaction change. */
+  private refreshDisplayViews(): void {
+    this.displayViews = this.isRedacting
+      ? this.eventViews.map((event) => this.displayView(event))
+      : this.eventViews;
+    this.rebuildFilterOptions();
+    this.refreshMetadataSources();
+    this.applyFilters();
+  }
 
-      if (application) {
-        return application;
-      }
-    }
+  private refreshMetadataSources(): void {
+    this.metadataSources = this.isRedacting
+      ? this.sources.map((source) => ({ ...source, ...this.redaction.redactor.redactSummary(source) }))
+      : this.sources;
+  }
 
-    return '';
+  private rebuildFilterOptions(): void {
+    this.levelOptions = this.uniqueOptions(this.displayViews.map((event) => event.level));
+    this.applicationOptions = this.uniqueOptions(this.displayViews.map((event) => event.application));
+    this.contextOptions = this.uniqueOptions(this.displayViews.map((event) => event.context));
+    this.sourceOptions = this.uniqueOptions(this.displayViews.map((event) => event.source));
   }
 
-  private uniqueOptions(values: string[]): string[] {
-    return Array.from(new Set(values)).sort((left, right) => left.localeCompare(right));
+  private currentViewerState(): ViewerState {
+    return {
+      searchText: this.searchPredicate ? this.appliedQuery : '',
+      levels: this.selectedLevels,
+      applications: this.selectedApplications,
+      contexts: this.selectedContexts,
+      sources: this.selectedSources,
+      timeRange: this.timeRange,
+      expandedEventUid: this.expandedEventUid,
+      bookmarkedOnly: this.bookmarkedOnly
+    };
   }
 
-  private toggleSelection(values: string[], option: string, checked: boolean): string[] {
-    const hasOption = values.includes(option);
+  private applyViewerState(state: ViewerState): void {
+    this.searchText = state.searchText;
+    this.selectedLevels = state.levels;
+    this.selectedApplications = state.applications;
+    this.selectedContexts = state.contexts;
+    this.selectedSources = state.sources;
+    this.timeRange = state.timeRange;
+    this.expandedEventUid = state.expandedEventUid;
+    this.bookmarkedOnly = state.bookmarkedOnly;
 
-    if (checked && !hasOption) {
-      return [...values, option];
-    }
-    if (!checked && hasOption) {
-      return values.filter((value) => value !== option);
+    try {
+      this.searchPredicate = compileEventQuery(state.searchText);
+      this.appliedQuery = state.searchText.trim();
+      this.queryError = '';
+    } catch (error) {
+      if (!(error instanceof QuerySyntaxError)) {
+        throw error;
+      }
+      this.searchPredicate = null;
+      this.appliedQuery = '';
+      this.queryError = error.message;
     }
 
-    return values;
+    this.applyFilters();
   }
 
-  private firstInline(values: Array<unknown>): string {
-    for (const value of values) {
-      const text = this.valueToInlineString(value);
-      if (text) {
-        return text;
-      }
+  /** Handles the initial URL and back/forward navigation; the viewer's own URL updates are ignored. */
+  private onUrlChange(params: ViewerQueryParams): void {
+    const state = viewerStateFromQueryParams(params);
+    const key = JSON.stringify(viewerStateToQueryParams(state));
+    if (key === this.urlStateKey) {
+      return;
     }
 
-    return '';
+    this.urlStateKey = key;
+    this.applyViewerState(state);
   }
 
-  private firstDefined(values: Array<unknown>): unknown {
-    for (const value of values) {
-      if (value !== undefined && value !== null) {
-        return value;
-      }
+  /** Mirrors filters and selection into the query string, replacing the history entry while typing. */
+  private syncUrl(): void {
+    const queryParams = viewerStateToQueryParams(this.currentViewerState());
+    const key = JSON.stringify(queryParams);
+    if (key === this.urlStateKey) {
+      return;
     }
 
-    return undefined;
+    this.urlStateKey = key;
+    void this.router.navigate([], { queryParams, replaceUrl: true });
   }
 
-  private normalizeTimestamp(value: unknown): string {
-    const asText = this.valueToInlineString(value);
-    if (asText) {
-      return asText;
+  private restoreScrollPosition(): void {
+    const index = this.pendingScrollIndex;
+    this.pendingScrollIndex = null;
+    if (index !== null) {
+      // Wait for the event list to render the final rows before scrolling.
+      setTimeout(() => this.eventList?.scrollToIndex(index, 'start'));
     }
+  }
 
-    if (typeof value !== 'number' || !Number.isFinite(value)) {
-      return '-';
+  private describeFilters(): string[] {
+    const lines: string[] = [];
+    if (this.searchPredicate) {
+      lines.push(`Query: ${this.appliedQuery}`);
     }
-
-    const raw = Math.trunc(value);
-    const milliseconds = raw > 99999999999 ? raw : raw * 1000;
-    const asDate = new Date(milliseconds);
-
-    if (!Number.isNaN(asDate.valueOf())) {
-      return asDate.toISOString();
+    if (this.selectedLevels.length > 0) {
+      lines.push(`Levels: ${this.selectedLevels.join(', ')}`);
+    }
+    if (this.selectedApplications.length > 0) {
+      lines.push(`Applications: ${this.selectedApplications.join(', ')}`);
+    }
+    if (this.selectedContexts.length > 0) {
+      lines.push(`Contexts: ${this.selectedContexts.join(', ')}`);
+    }
+    if (this.selectedSources.length > 0) {
+      lines.push(`Files: ${this.selectedSources.join(', ')}`);
+    }
+    if (this.bookmarkedOnly) {
+      lines.push('Bookmarked events only');
+    }
+    if (this.timeRange) {
+      lines.push(
+        `Time range: ${new Date(this.timeRange.start).toISOString()} to ${new Date(this.timeRange.end).toISOString()}`
+      );
     }
 
-    return String(value);
+    return lines.length > 0 ? lines : ['No filters: all events'];
   }
 
-  private valueToInlineString(value: unknown): string {
-    if (typeof value === 'string') {
-      return value;
-    }
-    if (typeof value === 'number' || typeof value === 'boolean') {
-      return String(value);
+  private createFilter(): EventPredicate {
+    const matchesFilters = createEventFilter({
+      query: this.searchPredicate,
+      levels: this.selectedLevels,
+      applications: this.selectedApplications,
+      contexts: this.selectedContexts,
+      sources: this.selectedSources
+    });
+    if (!this.bookmarkedOnly) {
+      return matchesFilters;
     }
 
-    return '';
+    const bookmarks = this.bookmarks;
+    return (event) => bookmarks.has(event.uid) && matchesFilters(event);
   }
 
-  private asRecord(value: unknown): Record<string, unknown> | null {
-    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
-      return null;
-    }
+  private matchesTimeRange(event: EventView): boolean {
+    return (
+      !this.timeRange ||
+      (event.time !== null && event.time >= this.timeRange.start && event.time <= this.timeRange.end)
+    );
+  }
 
-    return value as Record<string, unknown>;
+  private uniqueOptions(values: string[]): string[] {
+    return Array.from(new Set(values)).sort((left, right) => left.localeCompare(right));
   }
 
-  private toJsonString(value: unknown, indentation: number): string {
-    try {
-      return JSON.stringify(value, null, indentation) ?? String(value);
-    } catch {
-      return String(value);
+  private toggleSelection(values: string[], option: string, checked: boolean): string[] {
+    const hasOption = values.includes(option);
+
+    if (checked && !hasOption) {
+      return [...values, option];
     }
+    if (!checked && hasOption) {
+      return values.filter((value) => value !== option);
+    }
+
+    return values;
   }
 
-  private handleParseError(error: unknown): void {
-    this.resetViewerState();
-    this.parseError =
+  /** A file that fails to parse is dropped from the merged timeline; the other files stay loaded. */
+  private handleParseError(source: LogSource, error: unknown): void {
+    source.status = 'error';
+    source.error =
       error instanceof Error
         ? `Invalid JSON file: ${error.message}`
         : 'Invalid JSON file: unknown error';
+
+    const fromOtherSources = (event: EventView): boolean => !isFromSource(event, source.key);
+    this.eventViews = this.eventViews.filter(fromOtherSources);
+    this.displayViews = this.isRedacting ? this.displayViews.filter(fromOtherSources) : this.eventViews;
+    this.totalEvents = this.eventViews.length;
+    this.rebuildFilterOptions();
+    this.refreshMetadataSources();
+    this.isLoaded = this.sources.some((candidate) => candidate.status !== 'error');
+    this.applyFilters();
   }
 
   private resetViewerState(): void {
-    this.fileName = '';
-    this.applicationName = '-';
     this.totalEvents = 0;
-    this.prettyMetaBlocks = [];
-    this.metaEntries = [];
-    this.searchText = '';
-    this.selectedLevels = [];
-    this.selectedApplications = [];
-    this.selectedContexts = [];
+    this.resetFilters();
     this.levelOptions = [];
     this.applicationOptions = [];
     this.contextOptions = [];
+    this.sourceOptions = [];
     this.eventViews = [];
+    this.displayViews = [];
+    this.metadataSources = [];
+    this.redactedViews = new WeakMap<EventView, EventView>();
     this.filteredEvents = [];
+    this.timelineEvents = [];
     this.expandedEventUid = null;
-    this.expandedMetaKey = null;
+    this.activeEventUid = null;
+    this.bookmarks = new Map();
+    this.pendingScrollIndex = null;
     this.isLoaded = false;
+    this.filterDescription = this.describeFilters();
+    this.syncUrl();
   }
 }
@@ -1,3 +1,10 @@
 import { Routes } from '@angular/router';
 
-export const routes: Routes = [];
+/**
+ * The viewer is a single page; routing exists so filters and the selected event live in the query string
+ * (see `viewer-url-state.ts`). Unknown paths fall back to the viewer.
+ */
+export const routes: Routes = [
+  { path: '', pathMatch: 'full', children: [] },
+  { path: '**', redirectTo: '' }
+];
@@ -0,0 +1,45 @@
+import { TestBed } from '@angular/core/testing';
+
+import { ArchiveEntry, LogArchive } from '../log-archive';
+import { ArchiveBrowserComponent } from './archive-browser.component';
+
+function archive(paths: string[], unsupported = ''): LogArchive {
+  const result: LogArchive = { name: 'bundle.zip', file: new Blob(), entries: [] };
+  result.entries = paths.map((path) => ({
+    archive: result,
+    path,
+    size: 120,
+    compressedSize: 80,
+    isLog: /\.(json|log)$/.test(path),
+    unsupported: path.startsWith('locked') ? unsupported : '',
+    method: 8,
+    localHeaderOffset: 0
+  }));
+  return result;
+}
+
+describe('ArchiveBrowserComponent', () => {
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ArchiveBrowserComponent]
+    }).compileComponents();
+  });
+
+  it('should preselect the log files that can be extracted', () => {
+    const fixture = TestBed.createComponent(ArchiveBrowserComponent);
+    fixture.componentRef.setInput('archives', [
+      archive(['logs/agent.json', 'screenshot.png', 'locked.log'], 'encrypted')
+    ]);
+    fixture.detectChanges();
+
+    let opened: ArchiveEntry[] = [];
+    fixture.componentInstance.open.subscribe((entries: ArchiveEntry[]) => (opened = entries));
+    fixture.componentInstance.openSelected();
+
+    const element = fixture.nativeElement as HTMLElement;
+    expect(opened.map((entry) => entry.path)).toEqual(['logs/agent.json']);
+    expect(element.querySelectorAll('.entry-list li').length).toBe(3);
+    expect(element.textContent).toContain('cannot be opened: encrypted');
+    expect(element.textContent).toContain('not a log file');
+  });
+});
@@ -0,0 +1,53 @@
+import { DecimalPipe } from '@angular/common';
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
+
+import { ArchiveEntry, LogArchive } from '../log-archive';
+
+/**
+ * Lists the files inside uploaded zip archives so the ones to load can be picked. Log files are selected
+ * up front; screenshots and other files are skipped unless selected by hand. Extracting is left to the
+ * parent.
+ */
+@Component({
+  selector: 'app-archive-browser',
+  imports: [DecimalPipe],
+  templateUrl: './archive-browser.component.html',
+  styleUrl: './archive-browser.component.css'
+})
+export class ArchiveBrowserComponent implements OnChanges {
+  @Input({ required: true }) archives: LogArchive[] = [];
+  @Output() open = new EventEmitter<ArchiveEntry[]>();
+  @Output() cancel = new EventEmitter<void>();
+
+  selected = new Set<ArchiveEntry>();
+
+  ngOnChanges(): void {
+    this.selectLogFiles();
+  }
+
+  toggle(entry: ArchiveEntry, event: Event): void {
+    const selected = new Set(this.selected);
+    if ((event.target as HTMLInputElement).checked) {
+      selected.add(entry);
+    } else {
+      selected.delete(entry);
+    }
+    this.selected = selected;
+  }
+
+  selectLogFiles(): void {
+    this.selected = new Set(this.openableEntries().filter((entry) => entry.isLog));
+  }
+
+  selectNone(): void {
+    this.selected = new Set();
+  }
+
+  openSelected(): void {
+    this.open.emit(this.openableEntries().filter((entry) => this.selected.has(entry)));
+  }
+
+  private openableEntries(): ArchiveEntry[] {
+    return this.archives.flatMap((archive) => archive.entries).filter((entry) => !entry.unsupported);
+  }
+}
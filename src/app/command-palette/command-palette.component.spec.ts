@@ -0,0 +1,50 @@
+import { TestBed } from '@angular/core/testing';
+
+import { PaletteCommand } from '../log-viewer.model';
+import { CommandPaletteComponent } from './command-palette.component';
+
+describe('CommandPaletteComponent', () => {
+  const commands: PaletteCommand[] = ['Select ERROR', 'Select INFO', 'Clear filters'].map((label) => ({
+    id: label,
+    group: label.startsWith('Select') ? 'Level filter' : 'Filters',
+    label,
+    run: () => {}
+  }));
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [CommandPaletteComponent]
+    }).compileComponents();
+  });
+
+  it('should narrow the commands as the query is typed and run the highlighted one on Enter', () => {
+    const fixture = TestBed.createComponent(CommandPaletteComponent);
+    fixture.componentRef.setInput('commands', commands);
+    fixture.detectChanges();
+
+    const executed: string[] = [];
+    fixture.componentInstance.execute.subscribe((command: PaletteCommand) => executed.push(command.id));
+    const input = (fixture.nativeElement as HTMLElement).querySelector('input') as HTMLInputElement;
+    input.value = 'level';
+    input.dispatchEvent(new Event('input'));
+    input.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowDown' }));
+    input.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter' }));
+    fixture.detectChanges();
+
+    expect((fixture.nativeElement as HTMLElement).querySelectorAll('li').length).toBe(2);
+    expect(executed).toEqual(['Select INFO']);
+  });
+
+  it('should close on Escape', () => {
+    const fixture = TestBed.createComponent(CommandPaletteComponent);
+    fixture.componentRef.setInput('commands', commands);
+    fixture.detectChanges();
+
+    let dismissed = false;
+    fixture.componentInstance.dismiss.subscribe(() => (dismissed = true));
+    const input = (fixture.nativeElement as HTMLElement).querySelector('input') as HTMLInputElement;
+    input.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }));
+
+    expect(dismissed).toBeTrue();
+  });
+});
@@ -0,0 +1,64 @@
+import { AfterViewInit, Component, ElementRef, EventEmitter, Input, OnChanges, Output, ViewChild } from '@angular/core';
+
+import { matchCommands } from '../keyboard-shortcuts';
+import { PaletteCommand } from '../log-viewer.model';
+
+/**
+ * Searchable list of viewer actions, opened with Ctrl+K. Arrow keys move through the matches, Enter runs
+ * the highlighted one and Escape or a click outside closes the palette. Running a command is left to the
+ * parent, which also closes the palette.
+ */
+@Component({
+  selector: 'app-command-palette',
+  templateUrl: './command-palette.component.html',
+  styleUrl: './command-palette.component.css'
+})
+export class CommandPaletteComponent implements OnChanges, AfterViewInit {
+  @Input({ required: true }) commands: PaletteCommand[] = [];
+  @Output() execute = new EventEmitter<PaletteCommand>();
+  @Output() dismiss = new EventEmitter<void>();
+
+  @ViewChild('queryInput', { static: true }) private queryInput!: ElementRef<HTMLInputElement>;
+  @ViewChild('resultList', { static: true }) private resultList!: ElementRef<HTMLElement>;
+
+  query = '';
+  matches: PaletteCommand[] = [];
+  activeIndex = 0;
+
+  ngOnChanges(): void {
+    this.onQueryChange(this.query);
+  }
+
+  ngAfterViewInit(): void {
+    this.queryInput.nativeElement.focus();
+  }
+
+  onQueryChange(query: string): void {
+    this.query = query;
+    this.matches = matchCommands(this.commands, query);
+    this.activeIndex = 0;
+  }
+
+  onKeydown(event: KeyboardEvent): void {
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      this.activeIndex = Math.min(this.matches.length - 1, Math.max(0, this.activeIndex + step));
+      this.scrollActiveIntoView();
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      const command = this.matches[this.activeIndex];
+      if (command) {
+        this.execute.emit(command);
+      }
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      this.dismiss.emit();
+    }
+  }
+
+  private scrollActiveIntoView(): void {
+    const item = this.resultList.nativeElement.children.item(this.activeIndex);
+    item?.scrollIntoView({ block: 'nearest' });
+  }
+}
@@ -0,0 +1,35 @@
+import { Injectable } from '@angular/core';
+
+import { DEFAULT_CORRELATION_SETTINGS } from './event-threads';
+import { readStoredJson, removeStored, writeStoredJson } from './local-storage';
+import { CorrelationSettings } from './log-viewer.model';
+
+const STORAGE_KEY = 'ws-log-viewer.correlation';
+
+/** The JSON paths used to build threads, kept in local storage so they survive reloads. */
+@Injectable({ providedIn: 'root' })
+export class CorrelationSettingsService {
+  settings: CorrelationSettings = this.load();
+
+  save(settings: CorrelationSettings): void {
+    this.settings = settings;
+    writeStoredJson(STORAGE_KEY, settings);
+  }
+
+  reset(): void {
+    this.settings = DEFAULT_CORRELATION_SETTINGS;
+    removeStored(STORAGE_KEY);
+  }
+
+  private load(): CorrelationSettings {
+    const stored = readStoredJson(STORAGE_KEY) as Partial<CorrelationSettings> | null;
+    const paths = (value: unknown, fallback: string[]): string[] =>
+      Array.isArray(value) ? value.filter((path): path is string => typeof path === 'string') : fallback;
+
+    return {
+      keyPaths: paths(stored?.keyPaths, DEFAULT_CORRELATION_SETTINGS.keyPaths),
+      participantPaths: paths(stored?.participantPaths, DEFAULT_CORRELATION_SETTINGS.participantPaths),
+      statePaths: paths(stored?.statePaths, DEFAULT_CORRELATION_SETTINGS.statePaths)
+    };
+  }
+}
@@ -0,0 +1,90 @@
+import { Injectable } from '@angular/core';
+
+import { BUILT_IN_RULE_PACK, exportRulePack, importRulePack } from './detection-rules';
+import { readStoredJson, writeStoredJson } from './local-storage';
+import { DetectionRule, RulePack } from './log-viewer.model';
+
+const PACKS_STORAGE_KEY = 'ws-log-viewer.rule-packs';
+const DISABLED_STORAGE_KEY = 'ws-log-viewer.disabled-rules';
+
+/**
+ * Detection rule packs imported by the user, and which rules are switched off, kept in local storage.
+ * The built-in pack is always available and never stored.
+ */
+@Injectable({ providedIn: 'root' })
+export class DetectionRulesService {
+  userPacks: RulePack[] = this.loadPacks();
+  /** `packId/ruleId` of every disabled rule. */
+  disabledRules = new Set<string>(this.loadDisabled());
+
+  get packs(): RulePack[] {
+    return [BUILT_IN_RULE_PACK, ...this.userPacks];
+  }
+
+  enabledRules(): DetectionRule[] {
+    return this.packs.flatMap((pack) => pack.rules.filter((rule) => this.isEnabled(pack, rule)));
+  }
+
+  isEnabled(pack: RulePack, rule: DetectionRule): boolean {
+    return !this.disabledRules.has(ruleKey(pack, rule));
+  }
+
+  setEnabled(pack: RulePack, rule: DetectionRule, enabled: boolean): void {
+    const disabled = new Set(this.disabledRules);
+    if (enabled) {
+      disabled.delete(ruleKey(pack, rule));
+    } else {
+      disabled.add(ruleKey(pack, rule));
+    }
+    this.disabledRules = disabled;
+    writeStoredJson(DISABLED_STORAGE_KEY, Array.from(disabled));
+  }
+
+  /** Adds the pack in `text`, replacing a stored pack with the same id. Returns the pack read. */
+  importPack(text: string, fallbackName: string): RulePack {
+    const pack = importRulePack(text, fallbackName);
+    if (pack.id === BUILT_IN_RULE_PACK.id) {
+      throw new Error('The built-in rule pack cannot be replaced; give the pack another id.');
+    }
+
+    this.userPacks = [...this.userPacks.filter((candidate) => candidate.id !== pack.id), pack];
+    this.savePacks();
+    return pack;
+  }
+
+  exportPack(pack: RulePack): string {
+    return exportRulePack(pack);
+  }
+
+  removePack(packId: string): void {
+    this.userPacks = this.userPacks.filter((pack) => pack.id !== packId);
+    this.savePacks();
+  }
+
+  /** Each stored pack is validated on its own, so one that no longer passes does not drop the others. */
+  private loadPacks(): RulePack[] {
+    const packs = readStoredJson(PACKS_STORAGE_KEY);
+    return Array.isArray(packs) ? packs.flatMap((pack) => this.restorePack(pack)) : [];
+  }
+
+  private restorePack(pack: unknown): RulePack[] {
+    try {
+      return [importRulePack(JSON.stringify(pack))];
+    } catch {
+      return [];
+    }
+  }
+
+  private savePacks(): void {
+    writeStoredJson(PACKS_STORAGE_KEY, this.userPacks);
+  }
+
+  private loadDisabled(): string[] {
+    const stored = readStoredJson(DISABLED_STORAGE_KEY);
+    return Array.isArray(stored) ? stored.filter((key): key is string => typeof key === 'string') : [];
+  }
+}
+
+function ruleKey(pack: RulePack, rule: DetectionRule): string {
+  return `${pack.id}/${rule.id}`;
+}
@@ -0,0 +1,125 @@
+import { BUILT_IN_RULE_PACK, evaluateRules, exportRulePack, importRulePack, RuleTarget } from './detection-rules';
+import { DetectionRule, EventView, LogDocumentSummary } from './log-viewer.model';
+
+function eventAt(id: string, second: number, level: string, message: string): EventView {
+  const time = Date.UTC(2026, 4, 1, 10, 0, second);
+  return {
+    uid: `s1:${id}`,
+    id,
+    source: 'axp.json',
+    timestamp: new Date(time).toISOString(),
+    time,
+    level,
+    levelTone: 'info',
+    application: 'AgentDesktop',
+    context: 'socket',
+    message,
+    lineTitle: '',
+    rawValue: { message }
+  };
+}
+
+function summaryWith(settings: Record<string, unknown>): LogDocumentSummary {
+  return {
+    applicationName: 'AgentDesktop',
+    prettyMetaBlocks: [{ key: 'settings', title: 'Settings', subtitle: '', facts: [], highlights: [], rawValue: settings }],
+    metaEntries: []
+  };
+}
+
+const at = (second: number): number => Date.UTC(2026, 4, 1, 10, 0, second);
+
+describe('evaluateRules', () => {
+  it('should report bursts of matching events within the window', () => {
+    const rule: DetectionRule = {
+      id: 'storm',
+      name: 'Reconnect storm',
+      description: '',
+      severity: 'critical',
+      events: { query: 'message:reconnect', minCount: 3, windowSeconds: 10 }
+    };
+    const target: RuleTarget = {
+      name: 'axp.json',
+      summary: summaryWith({}),
+      events: [0, 4, 8, 12, 40, 45, 100, 102, 104].map((second, index) =>
+        eventAt(`e${index}`, second, 'WARN', 'WebSocket reconnect')
+      )
+    };
+
+    const findings = evaluateRules([rule], [target]);
+
+    expect(findings.map((finding) => [finding.range, finding.matchCount])).toEqual([
+      [{ start: at(0), end: at(12) }, 4],
+      [{ start: at(100), end: at(104) }, 3]
+    ]);
+    expect(findings[0].query).toBe('message:reconnect');
+  });
+
+  it('should report gaps between matching events', () => {
+    const rule: DetectionRule = {
+      id: 'heartbeat',
+      name: 'Heartbeat gap',
+      description: '',
+      severity: 'warning',
+      gap: { query: 'message:heartbeat', maxGapSeconds: 30 }
+    };
+    const target: RuleTarget = {
+      name: 'axp.json',
+      summary: summaryWith({}),
+      events: [eventAt('a', 0, 'INFO', 'heartbeat'), eventAt('b', 20, 'INFO', 'heartbeat'), eventAt('c', 90, 'INFO', 'heartbeat')]
+    };
+
+    expect(evaluateRules([rule], [target]).map((finding) => finding.range)).toEqual([{ start: at(20), end: at(90) }]);
+  });
+
+  it('should apply meta conditions, numerically when both sides are numbers', () => {
+    const lowRate = BUILT_IN_RULE_PACK.rules.find((rule) => rule.id === 'force-refresh-rate-low') as DetectionRule;
+    const targets: RuleTarget[] = [
+      { name: 'low.json', summary: summaryWith({ forceRefreshRate: 15 }), events: [] },
+      { name: 'high.json', summary: summaryWith({ forceRefreshRate: 300 }), events: [] },
+      { name: 'unset.json', summary: summaryWith({}), events: [] }
+    ];
+
+    const findings = evaluateRules([lowRate], targets);
+
+    expect(findings.map((finding) => [finding.source, finding.detail, finding.query])).toEqual([
+      ['low.json', 'settings.forceRefreshRate < 60', null]
+    ]);
+  });
+
+  it('should only look for event symptoms when the meta conditions hold', () => {
+    const webRtc = BUILT_IN_RULE_PACK.rules.find((rule) => rule.id === 'webrtc-disabled-while-expected') as DetectionRule;
+    const events = [eventAt('a', 0, 'WARN', 'WebRTC disabled by policy')];
+
+    expect(evaluateRules([webRtc], [{ name: 'on.json', summary: summaryWith({ isWebRTC: true }), events }]).length).toBe(1);
+    expect(evaluateRules([webRtc], [{ name: 'off.json', summary: summaryWith({ isWebRTC: false }), events }]).length).toBe(0);
+  });
+});
+
+describe('rule packs', () => {
+  it('should round-trip through export and import', () => {
+    const pack = importRulePack(exportRulePack(BUILT_IN_RULE_PACK));
+
+    expect(pack.id).toBe('built-in');
+    expect(pack.rules).toEqual(BUILT_IN_RULE_PACK.rules);
+  });
+
+  it('should accept a bare array of rules', () => {
+    const pack = importRulePack(
+      JSON.stringify([{ id: 'x', name: 'X', severity: 'info', meta: [{ path: 'settings.hotdesk', operator: '=', value: true }] }]),
+      'Team rules'
+    );
+
+    expect(pack.id).toBe('pack-team-rules');
+    expect(pack.rules[0].meta).toEqual([{ path: 'settings.hotdesk', operator: '=', value: 'true' }]);
+  });
+
+  it('should reject invalid rules with a readable message', () => {
+    expect(() => importRulePack('{')).toThrowError('The file is not valid JSON.');
+    expect(() => importRulePack('[{"id":"x","name":"X","severity":"fatal"}]')).toThrowError(/severity/);
+    expect(() => importRulePack('[{"id":"x","name":"X","severity":"info","events":{"query":"(oops"}}]')).toThrowError(
+      /Rule 1 \(X\): .*position/
+    );
+    expect(() => importRulePack('[{"id":"x","name":"X","severity":"info"}]')).toThrowError(/needs meta conditions/);
+  });
+});
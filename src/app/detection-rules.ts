@@ -0,0 +1,411 @@
+import { formatDuration } from './duration-format';
+import { compileEventQuery } from './event-query';
+import { flattenMetadata } from './log-compare';
+import {
+  DetectionRule,
+  EventView,
+  Finding,
+  FindingSeverity,
+  LogDocumentSummary,
+  MetaCondition,
+  MetaConditionOperator,
+  RulePack
+} from './log-viewer.model';
+
+/** One file as the rules see it. */
+export interface RuleTarget {
+  name: string;
+  summary: LogDocumentSummary;
+  events: EventView[];
+}
+
+const EXPORT_KIND = 'ws-log-viewer.rule-pack';
+const SEVERITIES: FindingSeverity[] = ['critical', 'warning', 'info'];
+const META_OPERATORS: MetaConditionOperator[] = ['=', '!=', '<', '<=', '>', '>=', 'exists', 'missing'];
+/** Per rule and file; a storm of symptoms is still one problem. */
+const MAX_FINDINGS_PER_RULE = 20;
+const NUMBER_VALUE = /^-?\d+(\.\d+)?$/;
+
+/** The team's known Workspaces symptoms; always available and never stored. */
+export const BUILT_IN_RULE_PACK: RulePack = {
+  id: 'built-in',
+  name: 'Workspaces starter rules (built-in)',
+  builtIn: true,
+  rules: [
+    {
+      id: 'websocket-reconnect-storm',
+      name: 'WebSocket reconnect storm',
+      description: 'The WebSocket reconnected again and again within a minute; the network or proxy is dropping it.',
+      severity: 'critical',
+      events: { query: 'message:/web ?socket/i AND message:/reconnect/i', minCount: 5, windowSeconds: 60 }
+    },
+    {
+      id: 'force-refresh-rate-low',
+      name: 'forceRefreshRate too low',
+      description: 'settings.forceRefreshRate is below 60, so the client refreshes more often than it should.',
+      severity: 'warning',
+      meta: [{ path: 'settings.forceRefreshRate', operator: '<', value: '60' }]
+    },
+    {
+      id: 'webrtc-disabled-while-expected',
+      name: 'WebRTC disabled while isWebRTC is set',
+      description: 'The settings expect WebRTC, but the client reports WebRTC as disabled or unavailable.',
+      severity: 'critical',
+      meta: [{ path: 'settings.isWebRTC', operator: '=', value: 'true' }],
+      events: { query: 'message:/webrtc/i AND message:/disabled|unavailable|not supported|failed/i' }
+    },
+    {
+      id: 'token-refresh-failures',
+      name: 'Repeated token refresh failures',
+      description: 'Token refresh failed several times within ten minutes; the session may expire.',
+      severity: 'critical',
+      events: {
+        query: 'message:/token/i AND message:/refresh/i AND message:/fail|error|denied|expired/i',
+        minCount: 3,
+        windowSeconds: 600
+      }
+    },
+    {
+      id: 'heartbeat-gap',
+      name: 'Gap in heartbeat events',
+      description: 'No heartbeat was logged for over two minutes; the client was frozen, asleep or offline.',
+      severity: 'warning',
+      gap: { query: 'message:/heartbeat|keep-?alive/i', maxGapSeconds: 120 }
+    },
+    {
+      id: 'error-burst',
+      name: 'Error burst',
+      description: 'Fifty or more errors within one minute.',
+      severity: 'warning',
+      events: { query: 'level=ERROR OR level=CRITICAL OR level=FATAL', minCount: 50, windowSeconds: 60 }
+    }
+  ]
+};
+
+export function exportRulePack(pack: RulePack): string {
+  return JSON.stringify(
+    {
+      kind: EXPORT_KIND,
+      version: 1,
+      id: pack.id,
+      name: pack.name,
+      rules: pack.rules
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Reads a pack written by {@link exportRulePack}, or a bare array of rules (named after `fallbackName`).
+ * Every rule is validated, queries included; throws with a readable message on the first problem.
+ */
+export function importRulePack(text: string, fallbackName = 'Imported rules'): RulePack {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  const record = Array.isArray(parsed)
+    ? { rules: parsed }
+    : (parsed as Partial<Record<keyof RulePack, unknown>> | null);
+  if (!Array.isArray(record?.rules)) {
+    throw new Error('The file does not contain detection rules.');
+  }
+
+  const name = typeof record.name === 'string' && record.name.trim() ? record.name.trim() : fallbackName;
+  return {
+    id: typeof record.id === 'string' && record.id.trim() ? record.id.trim() : `pack-${slug(name)}`,
+    name,
+    rules: record.rules.map((rule, index) => toRule(rule, index))
+  };
+}
+
+/** Findings of `rules` over every file, most severe first, then by file and time. */
+export function evaluateRules(rules: DetectionRule[], targets: RuleTarget[]): Finding[] {
+  const findings: Finding[] = [];
+  for (const target of targets) {
+    const metadata = flattenMetadata(target.summary);
+    for (const rule of rules) {
+      if ((rule.meta ?? []).every((condition) => metaConditionHolds(condition, metadata))) {
+        findings.push(...evaluateRule(rule, target));
+      }
+    }
+  }
+
+  return findings.sort(
+    (left, right) =>
+      SEVERITIES.indexOf(left.severity) - SEVERITIES.indexOf(right.severity) ||
+      left.source.localeCompare(right.source) ||
+      (left.range?.start ?? 0) - (right.range?.start ?? 0)
+  );
+}
+
+function evaluateRule(rule: DetectionRule, target: RuleTarget): Finding[] {
+  const base = {
+    ruleId: rule.id,
+    ruleName: rule.name,
+    severity: rule.severity,
+    description: rule.description,
+    source: target.name
+  };
+
+  if (rule.events) {
+    const query = rule.events.query;
+    const matches = matchingEvents(target.events, query);
+    const minCount = rule.events.minCount ?? 1;
+    const windowSeconds = rule.events.windowSeconds;
+
+    if (windowSeconds === undefined) {
+      if (matches.length < minCount) {
+        return [];
+      }
+
+      return [
+        {
+          ...base,
+          detail: `${matches.length} matching events`,
+          matchCount: matches.length,
+          query,
+          range: null
+        }
+      ];
+    }
+
+    const limit = `limit ${minCount} in ${formatDuration(windowSeconds * 1000)}`;
+    return findBursts(matches, minCount, windowSeconds * 1000).map((burst) => ({
+      ...base,
+      detail: `${burst.count} matching events within ${formatDuration(burst.end - burst.start)} (${limit})`,
+      matchCount: burst.count,
+      query,
+      range: { start: burst.start, end: burst.end }
+    }));
+  }
+
+  if (rule.gap) {
+    const query = rule.gap.query;
+    const maxGap = rule.gap.maxGapSeconds * 1000;
+    const times = matchingEvents(target.events, query)
+      .map((event) => event.time)
+      .filter((time): time is number => time !== null)
+      .sort((left, right) => left - right);
+
+    const findings: Finding[] = [];
+    for (let index = 1; index < times.length && findings.length < MAX_FINDINGS_PER_RULE; index += 1) {
+      const gap = times[index] - times[index - 1];
+      if (gap > maxGap) {
+        findings.push({
+          ...base,
+          detail: `No matching event for ${formatDuration(gap)} (limit ${formatDuration(maxGap)})`,
+          matchCount: 2,
+          query,
+          range: { start: times[index - 1], end: times[index] }
+        });
+      }
+    }
+    return findings;
+  }
+
+  return [
+    {
+      ...base,
+      detail: (rule.meta ?? []).map((condition) => describeCondition(condition)).join(' and '),
+      matchCount: 0,
+      query: null,
+      range: null
+    }
+  ];
+}
+
+function matchingEvents(events: EventView[], query: string): EventView[] {
+  const predicate = compileEventQuery(query);
+  return predicate ? events.filter(predicate) : [];
+}
+
+/** Maximal stretches in which every `windowMs` holds at least `minCount` timed matches. */
+function findBursts(
+  events: EventView[],
+  minCount: number,
+  windowMs: number
+): Array<{ start: number; end: number; count: number }> {
+  const times = events
+    .map((event) => event.time)
+    .filter((time): time is number => time !== null)
+    .sort((left, right) => left - right);
+
+  const bursts: Array<{ start: number; end: number; count: number; firstIndex: number }> = [];
+  let windowStart = 0;
+  for (let index = 0; index < times.length; index += 1) {
+    while (times[index] - times[windowStart] > windowMs) {
+      windowStart += 1;
+    }
+    if (index - windowStart + 1 < minCount) {
+      continue;
+    }
+
+    const current = bursts[bursts.length - 1];
+    if (current && times[windowStart] <= current.end) {
+      current.end = times[index];
+      current.count = index - current.firstIndex + 1;
+    } else if (bursts.length < MAX_FINDINGS_PER_RULE) {
+      bursts.push({
+        start: times[windowStart],
+        end: times[index],
+        count: index - windowStart + 1,
+        firstIndex: windowStart
+      });
+    } else {
+      break;
+    }
+  }
+
+  return bursts;
+}
+
+function metaConditionHolds(condition: MetaCondition, metadata: Map<string, string>): boolean {
+  const actual = metadata.get(condition.path);
+  if (condition.operator === 'exists' || condition.operator === 'missing') {
+    return (actual !== undefined) === (condition.operator === 'exists');
+  }
+  if (actual === undefined) {
+    return false;
+  }
+
+  const expected = condition.value ?? '';
+  if (NUMBER_VALUE.test(actual.trim()) && NUMBER_VALUE.test(expected.trim())) {
+    return compare(Number(actual), Number(expected), condition.operator);
+  }
+
+  return compare(actual.toLowerCase(), expected.toLowerCase(), condition.operator);
+}
+
+function compare<T extends number | string>(actual: T, expected: T, operator: MetaConditionOperator): boolean {
+  switch (operator) {
+    case '=':
+      return actual === expected;
+    case '!=':
+      return actual !== expected;
+    case '<':
+      return actual < expected;
+    case '<=':
+      return actual <= expected;
+    case '>':
+      return actual > expected;
+    default:
+      return actual >= expected;
+  }
+}
+
+function describeCondition(condition: MetaCondition): string {
+  return condition.operator === 'exists' || condition.operator === 'missing'
+    ? `${condition.path} ${condition.operator}`
+    : `${condition.path} ${condition.operator} ${condition.value ?? ''}`;
+}
+
+function toRule(entry: unknown, index: number): DetectionRule {
+  const record = entry as Partial<Record<keyof DetectionRule, unknown>> | null;
+  const label = `Rule ${index + 1}`;
+  if (
+    typeof record?.id !== 'string' ||
+    !record.id.trim() ||
+    typeof record.name !== 'string' ||
+    !record.name.trim()
+  ) {
+    throw new Error(`${label} needs an id and a name.`);
+  }
+  if (!SEVERITIES.includes(record.severity as FindingSeverity)) {
+    throw new Error(`${label} (${record.name}) needs a severity of ${SEVERITIES.join(', ')}.`);
+  }
+
+  const rule: DetectionRule = {
+    id: record.id.trim(),
+    name: record.name.trim(),
+    description: typeof record.description === 'string' ? record.description : '',
+    severity: record.severity as FindingSeverity
+  };
+  const where = `${label} (${rule.name})`;
+
+  if (record.meta !== undefined) {
+    if (!Array.isArray(record.meta)) {
+      throw new Error(`${where}: meta must be a list of conditions.`);
+    }
+    rule.meta = record.meta.map((condition) => toMetaCondition(condition, where));
+  }
+
+  if (record.events !== undefined && record.gap !== undefined) {
+    throw new Error(`${where}: use either events or gap, not both.`);
+  }
+  if (record.events !== undefined) {
+    const events = record.events as Record<string, unknown> | null;
+    rule.events = { query: toQuery(events?.['query'], where) };
+    const minCount = events?.['minCount'];
+    const windowSeconds = events?.['windowSeconds'];
+    if (minCount !== undefined) {
+      rule.events.minCount = toPositiveNumber(minCount, `${where}: minCount`);
+    }
+    if (windowSeconds !== undefined) {
+      rule.events.windowSeconds = toPositiveNumber(windowSeconds, `${where}: windowSeconds`);
+    }
+  }
+  if (record.gap !== undefined) {
+    const gap = record.gap as Record<string, unknown> | null;
+    rule.gap = {
+      query: toQuery(gap?.['query'], where),
+      maxGapSeconds: toPositiveNumber(gap?.['maxGapSeconds'], `${where}: maxGapSeconds`)
+    };
+  }
+
+  if (!rule.events && !rule.gap && !rule.meta?.length) {
+    throw new Error(`${where} needs meta conditions, events or gap.`);
+  }
+
+  return rule;
+}
+
+function toMetaCondition(entry: unknown, where: string): MetaCondition {
+  const record = entry as Partial<Record<keyof MetaCondition, unknown>> | null;
+  if (typeof record?.path !== 'string' || !record.path.trim()) {
+    throw new Error(`${where}: every meta condition needs a path.`);
+  }
+  if (!META_OPERATORS.includes(record.operator as MetaConditionOperator)) {
+    throw new Error(`${where}: the operator of ${record.path} must be one of ${META_OPERATORS.join(' ')}.`);
+  }
+
+  const operator = record.operator as MetaConditionOperator;
+  if (operator === 'exists' || operator === 'missing') {
+    return { path: record.path.trim(), operator };
+  }
+  if (typeof record.value !== 'string' && typeof record.value !== 'number' && typeof record.value !== 'boolean') {
+    throw new Error(`${where}: the condition on ${record.path} needs a value.`);
+  }
+
+  return { path: record.path.trim(), operator, value: String(record.value) };
+}
+
+function toQuery(value: unknown, where: string): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`${where} needs a query.`);
+  }
+
+  try {
+    compileEventQuery(value);
+  } catch (error) {
+    throw new Error(`${where}: ${error instanceof Error ? error.message : 'invalid query'}.`);
+  }
+
+  return value.trim();
+}
+
+function toPositiveNumber(value: unknown, label: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    throw new Error(`${label} must be a positive number.`);
+  }
+
+  return value;
+}
+
+function slug(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'rules';
+}
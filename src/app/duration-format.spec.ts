@@ -0,0 +1,17 @@
+import { formatDuration } from './duration-format';
+
+describe('formatDuration', () => {
+  it('should pick the unit by size', () => {
+    expect(formatDuration(4200)).toBe('4.2 s');
+    expect(formatDuration(42_000)).toBe('42 s');
+    expect(formatDuration(725_000)).toBe('12 min 5 s');
+    expect(formatDuration(12_000_000)).toBe('3 h 20 min');
+  });
+
+  it('should carry rounding over unit boundaries', () => {
+    expect(formatDuration(9960)).toBe('10 s');
+    expect(formatDuration(59_960)).toBe('1 min 0 s');
+    expect(formatDuration(119_600)).toBe('2 min 0 s');
+    expect(formatDuration(3_599_600)).toBe('1 h 0 min');
+  });
+});
@@ -0,0 +1,20 @@
+/** A short human duration: `4.2 s`, `12 min 5 s`, `3 h 20 min`. */
+export function formatDuration(ms: number): string {
+  // Round once up front, so a value just below a unit boundary never shows as `60 s` or `60 min`.
+  const tenths = Math.round(ms / 100);
+  if (tenths < 100) {
+    return `${(tenths / 10).toFixed(1)} s`;
+  }
+
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) {
+    return `${seconds} s`;
+  }
+
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) {
+    return `${minutes} min ${seconds % 60} s`;
+  }
+
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
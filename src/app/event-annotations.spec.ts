@@ -0,0 +1,43 @@
+import {
+  EMPTY_ANNOTATION,
+  annotationSummary,
+  bookmarksFromSession,
+  bookmarksToSession,
+  isAnnotated,
+  parseTags
+} from './event-annotations';
+
+describe('event annotations', () => {
+  it('should parse comma or space separated tags without duplicates', () => {
+    expect(parseTags(' #root-cause, login  #login,,timeout ')).toEqual(['root-cause', 'login', 'timeout']);
+    expect(parseTags('  ')).toEqual([]);
+  });
+
+  it('should summarize tags and note on one line', () => {
+    expect(annotationSummary({ note: 'Token expired\nhere', tags: ['auth', 'l3'] })).toBe(
+      '#auth #l3 Token expired here'
+    );
+    expect(annotationSummary(EMPTY_ANNOTATION)).toBe('');
+    expect(isAnnotated(EMPTY_ANNOTATION)).toBeFalse();
+    expect(isAnnotated({ note: '', tags: ['auth'] })).toBeTrue();
+  });
+
+  it('should round-trip bookmarks through a saved session', () => {
+    const bookmarks = new Map([
+      ['s1:1-a', EMPTY_ANNOTATION],
+      ['s1:7-b', { note: 'First failure', tags: ['root-cause'] }]
+    ]);
+
+    const session = bookmarksToSession(bookmarks);
+
+    expect(session).toEqual({
+      bookmarks: ['s1:1-a', 's1:7-b'],
+      annotations: { 's1:7-b': { note: 'First failure', tags: ['root-cause'] } }
+    });
+    expect(bookmarksFromSession(session)).toEqual(bookmarks);
+  });
+
+  it('should reopen sessions saved before annotations as plain bookmarks', () => {
+    expect(bookmarksFromSession({ bookmarks: ['s1:1-a'] })).toEqual(new Map([['s1:1-a', EMPTY_ANNOTATION]]));
+  });
+});
@@ -0,0 +1,44 @@
+import { EventAnnotation, SavedSession } from './log-viewer.model';
+
+/** Bookmarked events by uid, with what was written on them. */
+export type EventBookmarks = ReadonlyMap<string, EventAnnotation>;
+
+export const EMPTY_ANNOTATION: EventAnnotation = { note: '', tags: [] };
+
+/** Tags typed as a comma or whitespace separated list; a leading `#` is dropped and duplicates are merged. */
+export function parseTags(text: string): string[] {
+  const tags = text
+    .split(/[\s,]+/)
+    .map((tag) => tag.replace(/^#+/, ''))
+    .filter((tag) => tag !== '');
+
+  return Array.from(new Set(tags));
+}
+
+export function isAnnotated(annotation: EventAnnotation | null | undefined): boolean {
+  return !!annotation && (annotation.note.trim() !== '' || annotation.tags.length > 0);
+}
+
+/** One line for tables and tooltips: `#tag #tag note`. */
+export function annotationSummary(annotation: EventAnnotation): string {
+  return [...annotation.tags.map((tag) => `#${tag}`), annotation.note.trim().replace(/\s+/g, ' ')]
+    .filter((part) => part !== '')
+    .join(' ');
+}
+
+/** The session fields for a set of bookmarks; only annotated bookmarks are written to `annotations`. */
+export function bookmarksToSession(bookmarks: EventBookmarks): Pick<SavedSession, 'bookmarks' | 'annotations'> {
+  const annotations: Record<string, EventAnnotation> = {};
+  for (const [uid, annotation] of bookmarks) {
+    if (isAnnotated(annotation)) {
+      annotations[uid] = annotation;
+    }
+  }
+
+  return { bookmarks: Array.from(bookmarks.keys()), annotations };
+}
+
+/** Reverses {@link bookmarksToSession}; sessions saved before annotations reopen as plain bookmarks. */
+export function bookmarksFromSession(session: Pick<SavedSession, 'bookmarks' | 'annotations'>): EventBookmarks {
+  return new Map(session.bookmarks.map((uid) => [uid, session.annotations?.[uid] ?? EMPTY_ANNOTATION]));
+}
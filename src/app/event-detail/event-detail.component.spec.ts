@@ -0,0 +1,81 @@
+import { TestBed } from '@angular/core/testing';
+
+import { EventAnnotation, EventView } from '../log-viewer.model';
+import { EventDetailComponent } from './event-detail.component';
+
+const event: EventView = {
+  uid: 's1:0-e1',
+  id: 'e1',
+  source: 'axp.json',
+  timestamp: '2026-05-01T10:00:00Z',
+  time: Date.parse('2026-05-01T10:00:00Z'),
+  level: 'ERROR',
+  levelTone: 'error',
+  application: 'AgentDesktop',
+  context: 'call.state',
+  message: 'Call failed',
+  lineTitle: '',
+  rawValue: { id: 'e1', data: { reason: 'NETWORK TIMEOUT', attempts: 3 } }
+};
+
+describe('EventDetailComponent', () => {
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [EventDetailComponent]
+    }).compileComponents();
+  });
+
+  it('should expand and collapse JSON tree nodes', () => {
+    const fixture = TestBed.createComponent(EventDetailComponent);
+    fixture.componentRef.setInput('event', event);
+    fixture.detectChanges();
+
+    const element = fixture.nativeElement as HTMLElement;
+    expect(element.querySelectorAll('.tree-row').length).toBe(2);
+
+    element.querySelector<HTMLButtonElement>('.twisty')?.click();
+    fixture.detectChanges();
+
+    expect(element.querySelectorAll('.tree-row').length).toBe(4);
+    expect(element.querySelector('.json-tree')?.textContent).toContain('"NETWORK TIMEOUT"');
+  });
+
+  it('should report filter and exclude terms for leaf values', () => {
+    const fixture = TestBed.createComponent(EventDetailComponent);
+    fixture.componentRef.setInput('event', event);
+    fixture.detectChanges();
+
+    const terms: string[] = [];
+    fixture.componentInstance.addQueryTerm.subscribe((term: string) => terms.push(term));
+    const component = fixture.componentInstance;
+    component.toggle(component.rows[1]);
+    component.filterByValue(component.rows[2], false);
+    component.filterByValue(component.rows[3], true);
+    component.filterByFact(component.facts[0], true);
+
+    expect(terms).toEqual(['data.reason="NETWORK TIMEOUT"', 'data.attempts!=3', 'level!=ERROR']);
+  });
+
+  it('should edit the note and tags of the event', () => {
+    const fixture = TestBed.createComponent(EventDetailComponent);
+    fixture.componentRef.setInput('event', event);
+    fixture.componentRef.setInput('annotation', { note: 'Network drop', tags: ['network'] });
+    fixture.detectChanges();
+
+    const saved: EventAnnotation[] = [];
+    fixture.componentInstance.annotate.subscribe((annotation: EventAnnotation) => saved.push(annotation));
+    const component = fixture.componentInstance;
+    component.editNote();
+    expect(component.tagsDraft).toBe('network');
+
+    component.noteDraft = '  Network drop before the failure ';
+    component.tagsDraft = 'network, #root-cause';
+    component.saveNote();
+    component.clearNote();
+
+    expect(saved).toEqual([
+      { note: 'Network drop before the failure', tags: ['network', 'root-cause'] },
+      { note: '', tags: [] }
+    ]);
+  });
+});
@@ -0,0 +1,140 @@
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
+
+import { copyText } from '../clipboard';
+import { EMPTY_ANNOTATION, isAnnotated, parseTags } from '../event-annotations';
+import { buildEqualsTerm } from '../event-query';
+import { getRawJsonPreview, toJsonString } from '../json-preview';
+import { JsonTreeRow, flattenJsonTree } from '../json-tree';
+import { EventAnnotation, EventView } from '../log-viewer.model';
+
+interface EventFact {
+  label: string;
+  field: string;
+  value: string;
+}
+
+/**
+ * Detail pane of an expanded event: its columns, a collapsible and highlighted tree of the raw JSON (or the
+ * plain JSON text) and per-value actions. Filter actions are reported as query terms through
+ * `addQueryTerm`; the viewer ANDs them onto the current query. The note view edits the event's investigation
+ * note and tags, reported through `annotate`.
+ */
+@Component({
+  selector: 'app-event-detail',
+  templateUrl: './event-detail.component.html',
+  styleUrl: './event-detail.component.css'
+})
+export class EventDetailComponent implements OnChanges {
+  @Input({ required: true }) event!: EventView;
+  /** The event's bookmark, or `null` when it is not bookmarked. */
+  @Input() annotation: EventAnnotation | null = null;
+  @Output() addQueryTerm = new EventEmitter<string>();
+  @Output() annotate = new EventEmitter<EventAnnotation>();
+
+  view: 'tree' | 'raw' | 'note' = 'tree';
+  noteDraft = '';
+  tagsDraft = '';
+  rows: JsonTreeRow[] = [];
+  facts: EventFact[] = [];
+  status = '';
+
+  private expanded = new Set<string>();
+  private eventUid = '';
+
+  ngOnChanges(): void {
+    // The same event can come back as another object (redacted or original); keep its expanded nodes.
+    if (this.event.uid !== this.eventUid) {
+      this.eventUid = this.event.uid;
+      this.expanded = new Set<string>();
+      this.view = 'tree';
+      this.status = '';
+    }
+
+    this.facts = [
+      { label: 'Level', field: 'level', value: this.event.level },
+      { label: 'Source', field: 'application', value: this.event.application },
+      { label: 'Context', field: 'context', value: this.event.context },
+      { label: 'File', field: 'file', value: this.event.source }
+    ].filter((fact) => fact.value !== '');
+    this.refreshRows();
+  }
+
+  get rawJson(): string {
+    return getRawJsonPreview(this.event);
+  }
+
+  get hasNote(): boolean {
+    return isAnnotated(this.annotation);
+  }
+
+  toggle(row: JsonTreeRow): void {
+    if (!this.expanded.delete(row.id)) {
+      this.expanded.add(row.id);
+    }
+    this.refreshRows();
+  }
+
+  collapseAll(): void {
+    this.expanded.clear();
+    this.refreshRows();
+  }
+
+  canFilter(row: JsonTreeRow): boolean {
+    return row.queryPath !== null && (row.kind === 'string' || row.kind === 'number' || row.kind === 'boolean');
+  }
+
+  filterByValue(row: JsonTreeRow, exclude: boolean): void {
+    if (row.queryPath !== null && this.canFilter(row)) {
+      this.addQueryTerm.emit(buildEqualsTerm(row.queryPath, row.value as string | number | boolean, exclude));
+    }
+  }
+
+  filterByFact(fact: EventFact, exclude: boolean): void {
+    this.addQueryTerm.emit(buildEqualsTerm(fact.field, fact.value, exclude));
+  }
+
+  copyValue(row: JsonTreeRow): void {
+    void this.copy(typeof row.value === 'string' ? row.value : toJsonString(row.value, 2), 'Value');
+  }
+
+  copyPath(row: JsonTreeRow): void {
+    void this.copy(row.path, 'Path');
+  }
+
+  editNote(): void {
+    this.noteDraft = this.annotation?.note ?? '';
+    this.tagsDraft = this.annotation?.tags.join(', ') ?? '';
+    this.view = 'note';
+  }
+
+  onNoteInput(event: Event): void {
+    this.noteDraft = (event.target as HTMLTextAreaElement).value;
+  }
+
+  onTagsInput(event: Event): void {
+    this.tagsDraft = (event.target as HTMLInputElement).value;
+  }
+
+  /** Saving bookmarks the event if it was not bookmarked yet. */
+  saveNote(): void {
+    this.annotate.emit({ note: this.noteDraft.trim(), tags: parseTags(this.tagsDraft) });
+    this.view = 'tree';
+  }
+
+  clearNote(): void {
+    this.annotate.emit(EMPTY_ANNOTATION);
+    this.view = 'tree';
+  }
+
+  copyJson(): void {
+    void this.copy(toJsonString(this.event.rawValue, 2), 'JSON');
+  }
+
+  private refreshRows(): void {
+    this.rows = flattenJsonTree(this.event.rawValue, this.expanded);
+  }
+
+  private async copy(text: string, what: string): Promise<void> {
+    this.status = (await copyText(text)) ? `${what} copied` : 'The browser blocked clipboard access';
+  }
+}
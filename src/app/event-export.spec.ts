@@ -0,0 +1,90 @@
+import { toCsv, toHtmlReport, toJson, toNdjson } from './event-export';
+import { EventView } from './log-viewer.model';
+
+function eventView(overrides: Partial<EventView>): EventView {
+  return {
+    uid: '0-1',
+    id: '1',
+    source: 'axp.json',
+    timestamp: '2026-05-01T10:00:00.000Z',
+    time: Date.parse('2026-05-01T10:00:00.000Z'),
+    level: 'INFO',
+    levelTone: 'info',
+    application: 'AgentDesktop',
+    context: 'agent.state',
+    message: 'Agent ready',
+    lineTitle: '',
+    rawValue: { id: '1' },
+    ...overrides
+  };
+}
+
+describe('event export', () => {
+  it('should write CSV with quoting and formula-safe cells', () => {
+    const csv = toCsv([eventView({ message: 'said "hi", then left' }), eventView({ message: '=SUM(A1)' })]);
+
+    expect(csv.split('\r\n')).toEqual([
+      'timestamp,level,application,context,message,id',
+      '2026-05-01T10:00:00.000Z,INFO,AgentDesktop,agent.state,"said ""hi"", then left",1',
+      "2026-05-01T10:00:00.000Z,INFO,AgentDesktop,agent.state,'=SUM(A1),1",
+      ''
+    ]);
+  });
+
+  it('should export the raw events as JSON and NDJSON', () => {
+    const events = [eventView({ rawValue: { a: 1 } }), eventView({ rawValue: { b: [2] } })];
+
+    expect(JSON.parse(toJson(events))).toEqual([{ a: 1 }, { b: [2] }]);
+    expect(toNdjson(events)).toBe('{"a":1}\n{"b":[2]}\n');
+  });
+
+  it('should build an escaped standalone HTML report', () => {
+    const html = toHtmlReport({
+      title: 'Report',
+      generatedAt: new Date('2026-05-02T00:00:00Z'),
+      filterDescription: ['Query: level:ERROR'],
+      sources: [
+        {
+          name: 'axp.json',
+          applicationName: 'AXP',
+          prettyMetaBlocks: [
+            { key: 'browser', title: 'Browser', subtitle: 'Chrome 120', facts: [], highlights: [], rawValue: {} }
+          ]
+        }
+      ],
+      events: [eventView({ message: '<script>alert(1)</script>' })]
+    });
+
+    expect(html).toContain('<li>Query: level:ERROR</li>');
+    expect(html).toContain('Chrome 120');
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).not.toContain('<script>');
+  });
+
+  it('should carry bookmarks, tags and notes into every format', () => {
+    const events = [eventView({ uid: 's1:1-a', rawValue: { a: 1 } }), eventView({ uid: 's1:2-b', rawValue: { b: 2 } })];
+    const bookmarks = new Map([['s1:2-b', { note: 'Token, expired', tags: ['auth', 'l3'] }]]);
+
+    expect(toCsv(events, bookmarks).split('\r\n').slice(0, 3)).toEqual([
+      'timestamp,level,application,context,message,id,bookmarked,tags,note',
+      '2026-05-01T10:00:00.000Z,INFO,AgentDesktop,agent.state,Agent ready,1,,,',
+      '2026-05-01T10:00:00.000Z,INFO,AgentDesktop,agent.state,Agent ready,1,yes,auth l3,"Token, expired"'
+    ]);
+    expect(JSON.parse(toJson(events, bookmarks))).toEqual([
+      { a: 1 },
+      { b: 2, '@bookmark': { note: 'Token, expired', tags: ['auth', 'l3'] } }
+    ]);
+    expect(toNdjson(events, bookmarks).split('\n')[1]).toContain('"@bookmark"');
+
+    const html = toHtmlReport({
+      title: 'Report',
+      generatedAt: new Date('2026-05-02T00:00:00Z'),
+      filterDescription: [],
+      sources: [],
+      events,
+      bookmarks
+    });
+    expect(html).toContain('<h2>Bookmarks</h2>');
+    expect(html).toContain('#auth #l3 Token, expired');
+  });
+});
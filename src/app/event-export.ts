@@ -0,0 +1,173 @@
+import { EMPTY_ANNOTATION, EventBookmarks, annotationSummary } from './event-annotations';
+import { EventView, PrettyMetadataBlock } from './log-viewer.model';
+
+export type ExportFormat = 'csv' | 'json' | 'ndjson' | 'html';
+
+export interface ReportSource {
+  name: string;
+  applicationName: string;
+  prettyMetaBlocks: PrettyMetadataBlock[];
+}
+
+export interface HtmlReportInput {
+  title: string;
+  generatedAt: Date;
+  /** One line per active filter, or a single "no filters" line. */
+  filterDescription: string[];
+  sources: ReportSource[];
+  events: EventView[];
+  bookmarks?: EventBookmarks;
+}
+
+const CSV_COLUMNS: Array<keyof EventView> = ['timestamp', 'level', 'application', 'context', 'message', 'id'];
+
+/** Bookmark, tags and note columns are added when any of the events is bookmarked. */
+export function toCsv(events: EventView[], bookmarks: EventBookmarks = new Map()): string {
+  const withBookmarks = events.some((event) => bookmarks.has(event.uid));
+  const header = withBookmarks ? [...CSV_COLUMNS, 'bookmarked', 'tags', 'note'] : CSV_COLUMNS;
+  const lines = [header.join(',')];
+  for (const event of events) {
+    const cells = CSV_COLUMNS.map((column) => String(event[column]));
+    if (withBookmarks) {
+      const annotation = bookmarks.get(event.uid);
+      cells.push(annotation ? 'yes' : '', annotation?.tags.join(' ') ?? '', annotation?.note ?? '');
+    }
+    lines.push(cells.map((cell) => csvCell(cell)).join(','));
+  }
+
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+/**
+ * The original raw event objects, as read from the files. Bookmarked events that are JSON objects carry
+ * their note and tags under an added `@bookmark` key.
+ */
+export function toJson(events: EventView[], bookmarks: EventBookmarks = new Map()): string {
+  return JSON.stringify(
+    events.map((event) => exportedValue(event, bookmarks)),
+    null,
+    2
+  );
+}
+
+export function toNdjson(events: EventView[], bookmarks: EventBookmarks = new Map()): string {
+  return events.map((event) => `${JSON.stringify(exportedValue(event, bookmarks))}\n`).join('');
+}
+
+/**
+ * A standalone HTML page (inline styles, no scripts) with the metadata summary of every file, the active
+ * filters, the bookmarked events with their notes and the event table, suitable for attaching to a support
+ * ticket.
+ */
+export function toHtmlReport(input: HtmlReportInput): string {
+  const bookmarks: EventBookmarks = input.bookmarks ?? new Map();
+  const sources = input.sources.map((source) => renderSource(source)).join('');
+  const filters = input.filterDescription.map((line) => `<li>${escapeHtml(line)}</li>`).join('');
+  const rows = input.events
+    .map((event) => {
+      const annotation = bookmarks.get(event.uid);
+      const note = annotation ? `<div class="note">★ ${escapeHtml(annotationSummary(annotation))}</div>` : '';
+      return (
+        `<tr class="tone-${event.levelTone}"><td>${escapeHtml(event.timestamp)}</td><td>${escapeHtml(event.level)}</td>` +
+        `<td>${escapeHtml(event.application)}</td><td>${escapeHtml(event.context)}</td>` +
+        `<td>${escapeHtml(event.message)}${note}</td><td>${escapeHtml(event.id)}</td></tr>`
+      );
+    })
+    .join('\n');
+  const bookmarked = input.events.filter((event) => bookmarks.has(event.uid));
+  const bookmarkList = bookmarked.length
+    ? `<h2>Bookmarks</h2>\n<ol>${bookmarked.map((event) => renderBookmark(event, bookmarks)).join('')}</ol>\n`
+    : '';
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(input.title)}</title>
+<style>
+body { font-family: 'Segoe UI', sans-serif; margin: 1.5rem; color: #1b2733; }
+h1 { margin: 0 0 0.25rem; font-size: 1.4rem; }
+h2 { margin: 1.5rem 0 0.5rem; font-size: 1.1rem; }
+h3 { margin: 0.75rem 0 0.25rem; font-size: 0.95rem; }
+.generated { color: #5a6b7b; margin: 0; }
+.meta-card { border: 1px solid #cfd9e2; border-radius: 8px; padding: 0.5rem 0.75rem; margin: 0.5rem 0; }
+.meta-card dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.15rem 0.75rem; margin: 0.4rem 0; }
+.meta-card dt { font-weight: 600; }
+.meta-card dd { margin: 0; }
+table { border-collapse: collapse; width: 100%; font-size: 0.82rem; }
+th, td { border-bottom: 1px solid #dde5ec; padding: 0.25rem 0.4rem; text-align: left; vertical-align: top; }
+th { background: #eef3f7; position: sticky; top: 0; }
+td:nth-child(5) { white-space: pre-wrap; word-break: break-word; }
+.note { margin-top: 0.2rem; color: #6a4f00; font-style: italic; }
+.tone-error td:nth-child(2) { color: #b3261e; font-weight: 700; }
+.tone-warning td:nth-child(2) { color: #8a6100; font-weight: 700; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(input.title)}</h1>
+<p class="generated">Generated ${escapeHtml(input.generatedAt.toISOString())} · ${input.events.length} events</p>
+<h2>Filters</h2>
+<ul>${filters}</ul>
+<h2>Files</h2>
+${sources}
+${bookmarkList}<h2>Events</h2>
+<table>
+<thead><tr><th>Timestamp</th><th>Level</th><th>Application</th><th>Context</th><th>Message</th><th>ID</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+</body>
+</html>
+`;
+}
+
+function renderSource(source: ReportSource): string {
+  const blocks = source.prettyMetaBlocks
+    .map((block) => {
+      const facts = block.facts
+        .map((fact) => `<dt>${escapeHtml(fact.label)}</dt><dd>${escapeHtml(fact.value)}</dd>`)
+        .join('');
+      const highlights = block.highlights.length
+        ? `<p>${block.highlights.map((highlight) => escapeHtml(highlight)).join(' · ')}</p>`
+        : '';
+
+      return `<div class="meta-card"><strong>${escapeHtml(block.title)}</strong> ${escapeHtml(block.subtitle)}<dl>${facts}</dl>${highlights}</div>`;
+    })
+    .join('');
+
+  return `<h3>${escapeHtml(source.name)} · ${escapeHtml(source.applicationName)}</h3>${blocks}`;
+}
+
+function renderBookmark(event: EventView, bookmarks: EventBookmarks): string {
+  const summary = annotationSummary(bookmarks.get(event.uid) ?? EMPTY_ANNOTATION);
+  return (
+    `<li><strong>${escapeHtml(event.timestamp)}</strong> ${escapeHtml(event.level)} · ${escapeHtml(event.message)}` +
+    `${summary ? `<div class="note">${escapeHtml(summary)}</div>` : ''}</li>`
+  );
+}
+
+function exportedValue(event: EventView, bookmarks: EventBookmarks): unknown {
+  const annotation = bookmarks.get(event.uid);
+  const raw = event.rawValue;
+  if (!annotation || typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return raw;
+  }
+
+  return { ...raw, '@bookmark': { note: annotation.note, tags: annotation.tags } };
+}
+
+/** Quotes cells that need it and defuses values a spreadsheet would run as a formula. */
+function csvCell(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
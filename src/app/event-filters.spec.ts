@@ -0,0 +1,44 @@
+import { EventFilterCriteria, createEventFilter } from './event-filters';
+import { compileEventQuery } from './event-query';
+import { EventView } from './log-viewer.model';
+
+function eventView(overrides: Partial<EventView>): EventView {
+  return {
+    uid: '0-1',
+    id: '1',
+    source: 'axp.json',
+    timestamp: '2026-05-01T10:00:00.000Z',
+    time: Date.parse('2026-05-01T10:00:00.000Z'),
+    level: 'INFO',
+    levelTone: 'info',
+    application: 'AgentDesktop',
+    context: 'agent.state',
+    message: 'Agent ready',
+    lineTitle: '',
+    rawValue: {},
+    ...overrides
+  };
+}
+
+describe('createEventFilter', () => {
+  const events = [
+    eventView({ id: 'a' }),
+    eventView({ id: 'b', level: 'ERROR', message: 'Call failed', context: 'call.state' }),
+    eventView({ id: 'c', level: 'ERROR', application: 'WSFE', source: 'wsfe.json' })
+  ];
+  const none: EventFilterCriteria = { query: null, levels: [], applications: [], contexts: [], sources: [] };
+
+  it('should keep every event without criteria', () => {
+    expect(events.filter(createEventFilter(none)).length).toBe(3);
+  });
+
+  it('should require the query and one of the selected values of every restricted field', () => {
+    const ids = (criteria: Partial<EventFilterCriteria>): string[] =>
+      events.filter(createEventFilter({ ...none, ...criteria })).map((event) => event.id);
+
+    expect(ids({ levels: ['ERROR'] })).toEqual(['b', 'c']);
+    expect(ids({ levels: ['ERROR'], applications: ['AgentDesktop'] })).toEqual(['b']);
+    expect(ids({ contexts: ['agent.state'], sources: ['wsfe.json'] })).toEqual(['c']);
+    expect(ids({ query: compileEventQuery('failed OR app:wsfe') })).toEqual(['b', 'c']);
+  });
+});
@@ -0,0 +1,28 @@
+import { EventPredicate } from './event-query';
+import { EventView } from './log-viewer.model';
+
+/** The filters that look at one event at a time. An empty list does not restrict its field. */
+export interface EventFilterCriteria {
+  /** Compiled search query, see `compileEventQuery`. */
+  query: EventPredicate | null;
+  levels: string[];
+  applications: string[];
+  contexts: string[];
+  /** Source file names. */
+  sources: string[];
+}
+
+/**
+ * Combines the criteria into one predicate: the query must match and each field must be one of the
+ * selected values. Shared by the viewer's filter panel and the command-line tool.
+ */
+export function createEventFilter(criteria: EventFilterCriteria): EventPredicate {
+  const { query, levels, applications, contexts, sources } = criteria;
+
+  return (event) =>
+    (!query || query(event)) &&
+    (levels.length === 0 || levels.includes(event.level)) &&
+    (applications.length === 0 || applications.includes(event.application)) &&
+    (contexts.length === 0 || contexts.includes(event.context)) &&
+    (sources.length === 0 || sources.includes(event.source));
+}
@@ -0,0 +1,99 @@
+import { TestBed } from '@angular/core/testing';
+
+import { EMPTY_ANNOTATION } from '../event-annotations';
+import { EventView } from '../log-viewer.model';
+import { EventListComponent } from './event-list.component';
+
+function buildEvents(count: number): EventView[] {
+  return Array.from({ length: count }, (_, index) => ({
+    uid: `${index}-e${index}`,
+    id: `e${index}`,
+    source: '',
+    timestamp: '2026-05-01T10:00:00Z',
+    time: Date.parse('2026-05-01T10:00:00Z'),
+    level: 'INFO',
+    levelTone: 'info',
+    application: 'app',
+    context: 'ctx',
+    message: `message ${index}`,
+    lineTitle: `line ${index}`,
+    rawValue: { id: `e${index}` }
+  }));
+}
+
+describe('EventListComponent', () => {
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [EventListComponent]
+    }).compileComponents();
+  });
+
+  it('should render only a window of a large event list', () => {
+    const fixture = TestBed.createComponent(EventListComponent);
+    fixture.componentRef.setInput('events', buildEvents(20000));
+    fixture.detectChanges();
+
+    const rows = (fixture.nativeElement as HTMLElement).querySelectorAll('.events-window .event-line');
+    expect(rows.length).toBeGreaterThan(0);
+    expect(rows.length).toBeLessThan(100);
+    expect(fixture.componentInstance.totalHeight).toBe(20000 * fixture.componentInstance.rowHeight);
+  });
+
+  it('should render the detail pane of the expanded event only', () => {
+    const events = buildEvents(50);
+    const fixture = TestBed.createComponent(EventListComponent);
+    fixture.componentRef.setInput('events', events);
+    fixture.componentRef.setInput('expandedEventUid', events[2].uid);
+    fixture.detectChanges();
+
+    const panes = (fixture.nativeElement as HTMLElement).querySelectorAll('.event-json app-event-detail');
+    expect(panes.length).toBe(1);
+    expect(panes[0].querySelector('.json-tree')?.textContent).toContain('"e2"');
+    expect(events[3].rawJsonCache).toBeUndefined();
+  });
+
+  it('should mark bookmarked events and report bookmark toggles', () => {
+    const events = buildEvents(5);
+    const fixture = TestBed.createComponent(EventListComponent);
+    fixture.componentRef.setInput('events', events);
+    fixture.componentRef.setInput('bookmarks', new Map([[events[1].uid, EMPTY_ANNOTATION]]));
+    fixture.detectChanges();
+
+    const toggled: string[] = [];
+    fixture.componentInstance.toggleBookmark.subscribe((uid: string) => toggled.push(uid));
+    const buttons = (fixture.nativeElement as HTMLElement).querySelectorAll<HTMLButtonElement>('.bookmark-btn');
+    buttons[0].click();
+
+    expect(buttons[1].classList).toContain('is-bookmarked');
+    expect(buttons[0].classList).not.toContain('is-bookmarked');
+    expect(toggled).toEqual([events[0].uid]);
+  });
+
+  it('should show the tags and note of annotated bookmarks inline', () => {
+    const events = buildEvents(5);
+    const fixture = TestBed.createComponent(EventListComponent);
+    fixture.componentRef.setInput('events', events);
+    fixture.componentRef.setInput('bookmarks', new Map([[events[3].uid, { note: 'Token expired', tags: ['auth'] }]]));
+    fixture.detectChanges();
+
+    const rows = (fixture.nativeElement as HTMLElement).querySelectorAll('.events-window .event-line');
+    expect(rows[3].querySelector('.event-tag')?.textContent).toBe('#auth');
+    expect(rows[3].querySelector('.event-note')?.textContent).toContain('Token expired');
+    expect(rows[2].querySelector('.event-note')).toBeNull();
+  });
+
+  it('should highlight the keyboard cursor row without expanding it', () => {
+    const events = buildEvents(5);
+    const fixture = TestBed.createComponent(EventListComponent);
+    fixture.componentRef.setInput('events', events);
+    fixture.componentRef.setInput('activeEventUid', events[2].uid);
+    fixture.detectChanges();
+
+    const element = fixture.nativeElement as HTMLElement;
+    const active = element.querySelectorAll('.events-window .event-line.is-active');
+    expect(active.length).toBe(1);
+    expect(active[0].getAttribute('aria-current')).toBe('true');
+    expect(active[0].textContent).toContain('message 2');
+    expect(element.querySelector('.event-json')).toBeNull();
+  });
+});
@@ -0,0 +1,154 @@
+import {
+  AfterViewInit,
+  Component,
+  ElementRef,
+  EventEmitter,
+  HostListener,
+  Input,
+  OnChanges,
+  Output,
+  ViewChild
+} from '@angular/core';
+
+import { EventBookmarks } from '../event-annotations';
+import { EventDetailComponent } from '../event-detail/event-detail.component';
+import { EventAnnotation, EventView } from '../log-viewer.model';
+
+// Keep in sync with `.event-line` / `.event-json` heights in the stylesheet.
+const ROW_HEIGHT = 34;
+const EXPANDED_HEIGHT = 340;
+const OVERSCAN_ROWS = 12;
+const DEFAULT_VIEWPORT_HEIGHT = 640;
+
+/**
+ * Windowed event table: only the rows intersecting the scroll viewport (plus an overscan margin) are
+ * rendered. Rows have a fixed height and at most one row is expanded to a fixed-height detail pane, which
+ * keeps every row offset computable without measuring the DOM.
+ */
+@Component({
+  selector: 'app-event-list',
+  imports: [EventDetailComponent],
+  templateUrl: './event-list.component.html',
+  styleUrl: './event-list.component.css'
+})
+export class EventListComponent implements OnChanges, AfterViewInit {
+  @Input({ required: true }) events: EventView[] = [];
+  @Input() expandedEventUid: string | null = null;
+  /** The keyboard cursor row; highlighted, independent of the expanded row. */
+  @Input() activeEventUid: string | null = null;
+  /** Adds a leading column with the file each event came from. */
+  @Input() showSource = false;
+  /** Live tail: keeps the newest row in view as events arrive, paused while scrolled away from the end. */
+  @Input() follow = false;
+  /** Bookmarked events; their tags and notes are shown inline after the message. */
+  @Input() bookmarks: EventBookmarks = new Map();
+  @Output() toggleJson = new EventEmitter<string>();
+  @Output() toggleBookmark = new EventEmitter<string>();
+  /** A note and tags saved in an event's detail pane. */
+  @Output() annotate = new EventEmitter<{ uid: string; annotation: EventAnnotation }>();
+  /** A query term from the detail pane's filter actions. */
+  @Output() addQueryTerm = new EventEmitter<string>();
+
+  @ViewChild('viewport', { static: true }) private viewport!: ElementRef<HTMLElement>;
+
+  readonly rowHeight = ROW_HEIGHT;
+  visibleEvents: EventView[] = [];
+  windowOffset = 0;
+  totalHeight = 0;
+  /** Whether the viewport shows the end of the list. */
+  atEnd = true;
+
+  private scrollTop = 0;
+  private viewportHeight = DEFAULT_VIEWPORT_HEIGHT;
+  private expandedIndex = -1;
+
+  ngOnChanges(): void {
+    this.expandedIndex = this.expandedEventUid
+      ? this.events.findIndex((event) => event.uid === this.expandedEventUid)
+      : -1;
+    this.updateWindow();
+    if (this.follow && this.atEnd) {
+      // Scroll once the rows of this change are rendered.
+      setTimeout(() => this.scrollToEnd());
+    }
+  }
+
+  ngAfterViewInit(): void {
+    setTimeout(() => this.measureViewport());
+  }
+
+  @HostListener('window:resize')
+  onResize(): void {
+    this.measureViewport();
+  }
+
+  onScroll(): void {
+    const element = this.viewport.nativeElement;
+    this.scrollTop = element.scrollTop;
+    this.atEnd = element.scrollTop + element.clientHeight >= element.scrollHeight - ROW_HEIGHT;
+    this.updateWindow();
+  }
+
+  scrollToEnd(): void {
+    const element = this.viewport.nativeElement;
+    element.scrollTop = element.scrollHeight;
+    this.onScroll();
+  }
+
+  /** Index of the first row at the top of the viewport, used to restore the scroll position later. */
+  get firstVisibleIndex(): number {
+    return Math.min(this.indexAt(this.scrollTop), Math.max(0, this.events.length - 1));
+  }
+
+  isEventExpanded(eventUid: string): boolean {
+    return this.expandedEventUid === eventUid;
+  }
+
+  /** Brings a row into view; `start` puts it at the top of the viewport instead of scrolling minimally. */
+  scrollToIndex(index: number, align: 'nearest' | 'start' = 'nearest'): void {
+    const element = this.viewport.nativeElement;
+    const top = this.offsetOf(index);
+    const bottom = top + ROW_HEIGHT;
+    const visibleTop = element.scrollTop;
+    const visibleBottom = visibleTop + element.clientHeight - ROW_HEIGHT;
+
+    if (align === 'start' || top < visibleTop) {
+      element.scrollTop = top;
+    } else if (bottom > visibleBottom) {
+      element.scrollTop = bottom - element.clientHeight + ROW_HEIGHT;
+    }
+    this.onScroll();
+  }
+
+  private measureViewport(): void {
+    this.viewportHeight = this.viewport.nativeElement.clientHeight || DEFAULT_VIEWPORT_HEIGHT;
+    this.updateWindow();
+  }
+
+  private updateWindow(): void {
+    const count = this.events.length;
+    this.totalHeight = count * ROW_HEIGHT + (this.expandedIndex >= 0 ? EXPANDED_HEIGHT : 0);
+
+    const start = Math.max(0, this.indexAt(this.scrollTop) - OVERSCAN_ROWS);
+    const end = Math.min(count, this.indexAt(this.scrollTop + this.viewportHeight) + OVERSCAN_ROWS + 1);
+
+    this.visibleEvents = this.events.slice(start, end);
+    this.windowOffset = this.offsetOf(start);
+  }
+
+  private offsetOf(index: number): number {
+    const extra = this.expandedIndex >= 0 && index > this.expandedIndex ? EXPANDED_HEIGHT : 0;
+    return index * ROW_HEIGHT + extra;
+  }
+
+  private indexAt(offset: number): number {
+    if (this.expandedIndex < 0 || offset < (this.expandedIndex + 1) * ROW_HEIGHT) {
+      return Math.floor(offset / ROW_HEIGHT);
+    }
+    if (offset < (this.expandedIndex + 1) * ROW_HEIGHT + EXPANDED_HEIGHT) {
+      return this.expandedIndex;
+    }
+
+    return Math.floor((offset - EXPANDED_HEIGHT) / ROW_HEIGHT);
+  }
+}
@@ -0,0 +1,48 @@
+import { mergeEventsByTime } from './event-merge';
+import { EventView } from './log-viewer.model';
+
+function eventAt(id: string, time: number | null): EventView {
+  return {
+    uid: id,
+    id,
+    source: '',
+    timestamp: time === null ? '-' : new Date(time).toISOString(),
+    time,
+    level: 'INFO',
+    levelTone: 'info',
+    application: '',
+    context: '',
+    message: '',
+    lineTitle: '',
+    rawValue: {}
+  };
+}
+
+function ids(events: EventView[]): string[] {
+  return events.map((event) => event.id);
+}
+
+describe('mergeEventsByTime', () => {
+  it('should append a batch that continues the timeline', () => {
+    const first = mergeEventsByTime([], [eventAt('b', 20), eventAt('a', 10)]);
+    const second = mergeEventsByTime(first.events, [eventAt('c', 30), eventAt('d', null)]);
+
+    expect(ids(second.events)).toEqual(['a', 'b', 'c', 'd']);
+    expect(first.appended).toBeTrue();
+    expect(second.appended).toBeTrue();
+  });
+
+  it('should interleave a batch from another file by time', () => {
+    const sorted = [eventAt('a', 10), eventAt('c', 30), eventAt('x', null)];
+    const result = mergeEventsByTime(sorted, [eventAt('d', 40), eventAt('b', 20), eventAt('y', null)]);
+
+    expect(ids(result.events)).toEqual(['a', 'b', 'c', 'd', 'x', 'y']);
+    expect(result.appended).toBeFalse();
+  });
+
+  it('should keep arrival order for equal times', () => {
+    const result = mergeEventsByTime([eventAt('a', 10)], [eventAt('b', 10), eventAt('c', 5)]);
+
+    expect(ids(result.events)).toEqual(['c', 'a', 'b']);
+  });
+});
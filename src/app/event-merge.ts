@@ -0,0 +1,50 @@
+import { EventView } from './log-viewer.model';
+
+/** Events without a parseable time sort after timed ones and keep their arrival order. */
+function sortKey(event: EventView): number {
+  return event.time ?? Number.POSITIVE_INFINITY;
+}
+
+/**
+ * Merges a batch into an already time-ordered event list. The common case of a batch that continues the
+ * list is a plain append (`appended: true`), which lets callers extend derived lists instead of rebuilding.
+ */
+export function mergeEventsByTime(
+  sorted: EventView[],
+  batch: EventView[]
+): { events: EventView[]; appended: boolean } {
+  const ordered = batch
+    .map((event, index) => ({ event, index }))
+    .sort((left, right) => sortKey(left.event) - sortKey(right.event) || left.index - right.index)
+    .map((entry) => entry.event);
+
+  if (ordered.length === 0) {
+    return { events: sorted, appended: true };
+  }
+  if (sorted.length === 0 || sortKey(ordered[0]) >= sortKey(sorted[sorted.length - 1])) {
+    return { events: sorted.concat(ordered), appended: true };
+  }
+
+  const merged: EventView[] = new Array(sorted.length + ordered.length);
+  let left = 0;
+  let right = 0;
+  let target = 0;
+
+  while (left < sorted.length && right < ordered.length) {
+    merged[target++] =
+      sortKey(ordered[right]) < sortKey(sorted[left]) ? ordered[right++] : sorted[left++];
+  }
+  while (left < sorted.length) {
+    merged[target++] = sorted[left++];
+  }
+  while (right < ordered.length) {
+    merged[target++] = ordered[right++];
+  }
+
+  return { events: merged, appended: false };
+}
+
+/** Whether an event was read from the source with this key; event uids start with their source's key. */
+export function isFromSource(event: EventView, sourceKey: string): boolean {
+  return event.uid.startsWith(`${sourceKey}:`);
+}
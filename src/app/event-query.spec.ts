@@ -0,0 +1,134 @@
+import {
+  QuerySyntaxError,
+  appendQueryTerm,
+  buildEqualsTerm,
+  compileEventQuery,
+  toQueryFieldPath
+} from './event-query';
+import { EventView } from './log-viewer.model';
+
+function eventView(overrides: Partial<EventView>, rawValue: unknown): EventView {
+  return {
+    uid: '0-1',
+    id: '1',
+    source: 'axp.json',
+    timestamp: '2026-05-01T10:00:00.000Z',
+    time: Date.parse('2026-05-01T10:00:00.000Z'),
+    level: 'INFO',
+    levelTone: 'info',
+    application: 'AgentDesktop',
+    context: 'agent.state',
+    message: 'Agent ready',
+    lineTitle: '',
+    rawValue,
+    ...overrides
+  };
+}
+
+const events: EventView[] = [
+  eventView({ id: 'a', level: 'ERROR', message: 'Request timeout 30 s' }, {
+    data: { reason: 'NETWORK', duration: 1500, deep: { list: [{ code: 'E42' }] } }
+  }),
+  eventView(
+    {
+      id: 'b',
+      context: 'call.state',
+      timestamp: '2026-05-01T10:05:00.000Z',
+      time: Date.parse('2026-05-01T10:05:00.000Z')
+    },
+    {
+      data: { reason: 'USER', duration: 200 }
+    }
+  ),
+  eventView({ id: 'c', level: 'WARNING', message: 'Socket reconnect' }, { topic: 'ws' })
+];
+
+function matchIds(query: string): string[] {
+  const predicate = compileEventQuery(query);
+  return events.filter((event) => !predicate || predicate(event)).map((event) => event.id);
+}
+
+describe('compileEventQuery', () => {
+  it('should return null for an empty query', () => {
+    expect(compileEventQuery('   ')).toBeNull();
+  });
+
+  it('should match bare terms anywhere, including deep raw JSON', () => {
+    expect(matchIds('e42')).toEqual(['a']);
+    expect(matchIds('"socket reconnect"')).toEqual(['c']);
+    expect(matchIds('reconnect socket')).toEqual(['c']);
+  });
+
+  it('should support field terms, boolean operators and grouping', () => {
+    expect(matchIds('level:ERROR AND context:"agent.state" NOT message:/timeout \\d+/')).toEqual([]);
+    expect(matchIds('level:ERROR OR level:WARNING')).toEqual(['a', 'c']);
+    expect(matchIds('(level:error OR context:call) -data.reason=NETWORK')).toEqual(['b']);
+    expect(matchIds('data.deep.list.code=E42')).toEqual(['a']);
+    expect(matchIds('data.reason:*')).toEqual(['a', 'b']);
+    expect(matchIds('level!=INFO')).toEqual(['a', 'c']);
+    expect(matchIds('file:axp')).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should compare numbers and instants', () => {
+    expect(matchIds('data.duration>500')).toEqual(['a']);
+    expect(matchIds('data.duration<=200')).toEqual(['b']);
+    expect(matchIds('timestamp>=2026-05-01T10:01:00Z')).toEqual(['b']);
+  });
+
+  it('should report syntax errors with a position', () => {
+    expect(() => compileEventQuery('level:ERROR AND (context:x')).toThrowError(QuerySyntaxError, /Expected "\)"/);
+    expect(() => compileEventQuery('/[/')).toThrowError(QuerySyntaxError, /Unterminated|Invalid/);
+    expect(() => compileEventQuery('data.duration>abc')).toThrowError(QuerySyntaxError, /number or date/);
+    expect(() => compileEventQuery('level: AND')).toThrowError(QuerySyntaxError, /Expected a search term/);
+    expect(() => compileEventQuery('message:/[/')).toThrowError(QuerySyntaxError, /Invalid regular expression/);
+    expect(() => compileEventQuery('message:/timeout \\d+')).toThrowError(
+      QuerySyntaxError,
+      /Unterminated regular expression/
+    );
+  });
+
+  it('should search a field token without a valid value as text', () => {
+    const logged = eventView({ message: 'GET http://wsfe.local/api failed, reason: timeout' }, {});
+    const matches = (query: string): boolean => compileEventQuery(query)?.(logged) ?? true;
+
+    expect(matches('http://wsfe.local/api')).toBeTrue();
+    expect(matches('http://x')).toBeFalse();
+    expect(matches('reason: timeout')).toBeTrue();
+    expect(matches('"failed," reason: timeout')).toBeTrue();
+    expect(matches('message:/http:/')).toBeTrue();
+  });
+
+  it('should not resolve inherited properties as raw fields', () => {
+    expect(matchIds('constructor:*')).toEqual([]);
+    expect(matchIds('data.toString:*')).toEqual([]);
+  });
+});
+
+describe('query term helpers', () => {
+  it('should address raw JSON locations in query syntax', () => {
+    expect(toQueryFieldPath(['data', 'deep', 'list', 0, 'code'])).toBe('data.deep.list[0].code');
+    expect(toQueryFieldPath(['level'])).toBe('raw.level');
+    expect(toQueryFieldPath(['data', 'key with spaces'])).toBeNull();
+    expect(toQueryFieldPath(['-flag'])).toBe('raw.-flag');
+    expect(toQueryFieldPath(['data', '-flag'])).toBe('data.-flag');
+  });
+
+  it('should build equality terms that round-trip through the parser', () => {
+    expect(buildEqualsTerm('data.reason', 'NETWORK')).toBe('data.reason=NETWORK');
+    expect(buildEqualsTerm('message', 'Socket "re" connect', true)).toBe('message!="Socket \\"re\\" connect"');
+    expect(matchIds(buildEqualsTerm('message', 'Socket reconnect'))).toEqual(['c']);
+    expect(matchIds(buildEqualsTerm('data.deep.list[0].code', 'E42'))).toEqual(['a']);
+    expect(matchIds(buildEqualsTerm('data.duration', 200, true))).toEqual(['a', 'c']);
+
+    const flagged = eventView({}, { '-flag': 'on' });
+    const term = buildEqualsTerm(toQueryFieldPath(['-flag']) as string, 'on');
+    expect(compileEventQuery(term)?.(flagged)).toBeTrue();
+    expect(compileEventQuery(term)?.(events[0])).toBeFalse();
+  });
+
+  it('should AND new terms onto the current query', () => {
+    expect(appendQueryTerm('', 'level=ERROR')).toBe('level=ERROR');
+    expect(appendQueryTerm('timeout ', 'level=ERROR')).toBe('timeout level=ERROR');
+    expect(appendQueryTerm('a OR b', 'level=ERROR')).toBe('(a OR b) level=ERROR');
+  });
+});
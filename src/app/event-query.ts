@@ -0,0 +1,523 @@
+import { EventView } from './log-viewer.model';
+
+export type QueryOperator = ':' | '=' | '!=' | '>' | '>=' | '<' | '<=';
+
+export type QueryNode =
+  | { kind: 'and' | 'or'; children: QueryNode[] }
+  | { kind: 'not'; child: QueryNode }
+  | QueryTerm;
+
+export interface QueryTerm {
+  kind: 'term';
+  field: string | null;
+  operator: QueryOperator;
+  value: string;
+  regex: RegExp | null;
+}
+
+export type EventPredicate = (event: EventView) => boolean;
+
+export class QuerySyntaxError extends Error {
+  constructor(
+    message: string,
+    readonly position: number
+  ) {
+    super(`${message} at position ${position + 1}`);
+    this.name = 'QuerySyntaxError';
+  }
+}
+
+type Token =
+  | { type: '(' | ')' | 'AND' | 'OR' | 'NOT'; position: number }
+  | { type: 'term'; position: number; term: QueryTerm };
+
+const VIEW_FIELDS: Record<string, (event: EventView) => unknown> = {
+  id: (event) => event.id,
+  timestamp: (event) => event.timestamp,
+  level: (event) => event.level,
+  application: (event) => event.application,
+  app: (event) => event.application,
+  context: (event) => event.context,
+  message: (event) => event.message,
+  file: (event) => event.source
+};
+
+const OPERATORS: QueryOperator[] = ['>=', '<=', '!=', ':', '=', '>', '<'];
+const FIELD_CHAR = /[\w$@.\-[\]]/;
+const NUMBER_VALUE = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Compiles a search query into an event predicate. Supported syntax:
+ *
+ * - bare words, `"quoted phrases"` and `/regex/flags` match anywhere in the event, including its raw JSON;
+ * - `field:value` (contains), `field=value`, `field!=value`, `field:/regex/` and `field:*` (exists);
+ *   `field=/regex/` must match the whole value;
+ * - `field>value`, `>=`, `<`, `<=` compare numbers, or instants when the value is a date;
+ * - `AND`, `OR`, `NOT` (or a leading `-`), implicit AND between terms, and `( )` grouping.
+ *
+ * Fields are the viewer columns (`level`, `application`/`app`, `context`, `message`, `id`, `timestamp`, `file`) or
+ * any dot path into the raw event such as `data.reason` (`raw.` forces the raw lookup). Returns `null` for
+ * an empty query and throws {@link QuerySyntaxError} for malformed input.
+ */
+export function compileEventQuery(query: string): EventPredicate | null {
+  const node = parseEventQuery(query);
+  return node ? (event) => evaluateNode(node, event) : null;
+}
+
+/**
+ * The query field addressing a raw JSON location (`data.items[0].id`), or `null` when a key cannot be written
+ * in the query syntax. Top-level keys named like a viewer column get the `raw.` prefix, and so do keys
+ * starting with `-`, which would otherwise read as NOT.
+ */
+export function toQueryFieldPath(segments: Array<string | number>): string | null {
+  let path = '';
+  for (const segment of segments) {
+    if (typeof segment === 'number') {
+      path += `[${segment}]`;
+    } else if (/^[\w$@-]+$/.test(segment)) {
+      path += path ? `.${segment}` : segment;
+    } else {
+      return null;
+    }
+  }
+
+  const first = segments[0];
+  const isViewField = typeof first === 'string' && Object.hasOwn(VIEW_FIELDS, first.toLowerCase());
+  return !path ? null : isViewField || path.startsWith('-') ? `raw.${path}` : path;
+}
+
+/** A `field=value` term, or `field!=value` to exclude; the value is quoted when the syntax requires it. */
+export function buildEqualsTerm(field: string, value: string | number | boolean, exclude = false): string {
+  const text = String(value);
+  const needsQuotes = text === '' || /[\s()"]/.test(text) || text.startsWith('/');
+  const quoted = needsQuotes ? `"${text.replace(/[\\"]/g, '\\$&')}"` : text;
+
+  return `${field}${exclude ? '!=' : '='}${quoted}`;
+}
+
+/** ANDs a term onto a query, wrapping the query in parentheses when it has a top-level `OR`. */
+export function appendQueryTerm(query: string, term: string): string {
+  const trimmed = query.trim();
+  if (!trimmed) {
+    return term;
+  }
+
+  return parseEventQuery(trimmed)?.kind === 'or' ? `(${trimmed}) ${term}` : `${trimmed} ${term}`;
+}
+
+export function parseEventQuery(query: string): QueryNode | null {
+  const tokens = tokenize(query);
+  if (tokens.length === 0) {
+    return null;
+  }
+
+  const parser = new QueryParser(tokens, query.length);
+  return parser.parse();
+}
+
+class QueryParser {
+  private index = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly length: number
+  ) {}
+
+  parse(): QueryNode {
+    const node = this.parseOr();
+    const next = this.tokens[this.index];
+    if (next) {
+      throw new QuerySyntaxError(`Unexpected "${next.type}"`, next.position);
+    }
+
+    return node;
+  }
+
+  private parseOr(): QueryNode {
+    const children = [this.parseAnd()];
+    while (this.peek('OR')) {
+      this.index += 1;
+      children.push(this.parseAnd());
+    }
+
+    return children.length === 1 ? children[0] : { kind: 'or', children };
+  }
+
+  private parseAnd(): QueryNode {
+    const children = [this.parseNot()];
+    for (;;) {
+      if (this.peek('AND')) {
+        this.index += 1;
+        children.push(this.parseNot());
+      } else if (this.peek('term') || this.peek('NOT') || this.peek('(')) {
+        children.push(this.parseNot());
+      } else {
+        break;
+      }
+    }
+
+    return children.length === 1 ? children[0] : { kind: 'and', children };
+  }
+
+  private parseNot(): QueryNode {
+    if (this.peek('NOT')) {
+      this.index += 1;
+      return { kind: 'not', child: this.parseNot() };
+    }
+
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): QueryNode {
+    const token = this.tokens[this.index];
+    if (!token) {
+      throw new QuerySyntaxError('Expected a search term', this.length);
+    }
+
+    this.index += 1;
+    if (token.type === 'term') {
+      return token.term;
+    }
+    if (token.type === '(') {
+      const node = this.parseOr();
+      const closing = this.tokens[this.index];
+      if (closing?.type !== ')') {
+        throw new QuerySyntaxError('Expected ")"', closing?.position ?? this.length);
+      }
+      this.index += 1;
+      return node;
+    }
+
+    throw new QuerySyntaxError(`Unexpected "${token.type}"`, token.position);
+  }
+
+  private peek(type: Token['type']): boolean {
+    return this.tokens[this.index]?.type === type;
+  }
+}
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < query.length) {
+    const char = query[position];
+
+    if (/\s/.test(char)) {
+      position += 1;
+      continue;
+    }
+    if (char === '(' || char === ')') {
+      tokens.push({ type: char, position });
+      position += 1;
+      continue;
+    }
+    if (char === '-' && position + 1 < query.length && !/[\s)]/.test(query[position + 1])) {
+      tokens.push({ type: 'NOT', position });
+      position += 1;
+      continue;
+    }
+
+    const start = position;
+    let fieldEnd = position;
+    while (fieldEnd < query.length && FIELD_CHAR.test(query[fieldEnd])) {
+      fieldEnd += 1;
+    }
+
+    const operator = fieldEnd > position ? OPERATORS.find((op) => query.startsWith(op, fieldEnd)) : undefined;
+    const fieldValue = operator ? readFieldValue(query, operator, fieldEnd + operator.length) : null;
+    if (operator && fieldValue) {
+      const field = query.slice(position, fieldEnd);
+      tokens.push({ type: 'term', position: start, term: buildTerm(field, operator, fieldValue, start) });
+      position = fieldValue.end;
+      continue;
+    }
+
+    const value = readValue(query, position);
+    if (!value.quoted && !value.regex && (value.text === 'AND' || value.text === 'OR' || value.text === 'NOT')) {
+      tokens.push({ type: value.text, position: start });
+    } else {
+      tokens.push({ type: 'term', position: start, term: buildTerm(null, ':', value, start) });
+    }
+    position = value.end;
+  }
+
+  return tokens;
+}
+
+interface RawValue {
+  text: string;
+  quoted: boolean;
+  regex: RegExp | null;
+  end: number;
+}
+
+/**
+ * The value of a `field:value` term, or `null` when there is none or the token is scheme-like (`word://`);
+ * the whole token is then searched as text, so prose (`reason: timeout`) and URLs (`http://host`) still work.
+ */
+function readFieldValue(query: string, operator: string, start: number): RawValue | null {
+  if (operator === ':' && query.startsWith('//', start)) {
+    return null;
+  }
+
+  const value = readValue(query, start);
+  return value.text || value.quoted ? value : null;
+}
+
+function readValue(query: string, start: number): RawValue {
+  const first = query[start];
+
+  if (first === '"') {
+    let text = '';
+    let position = start + 1;
+    while (position < query.length && query[position] !== '"') {
+      if (query[position] === '\\' && position + 1 < query.length) {
+        position += 1;
+      }
+      text += query[position];
+      position += 1;
+    }
+    if (position >= query.length) {
+      throw new QuerySyntaxError('Unterminated quoted value', start);
+    }
+
+    return { text, quoted: true, regex: null, end: position + 1 };
+  }
+
+  if (first === '/') {
+    let position = start + 1;
+    while (position < query.length && query[position] !== '/') {
+      position += query[position] === '\\' ? 2 : 1;
+    }
+    if (position >= query.length) {
+      throw new QuerySyntaxError('Unterminated regular expression', start);
+    }
+
+    const source = query.slice(start + 1, position);
+    let end = position + 1;
+    while (end < query.length && /[a-z]/i.test(query[end])) {
+      end += 1;
+    }
+
+    try {
+      return { text: source, quoted: false, regex: new RegExp(source, query.slice(position + 1, end)), end };
+    } catch (error) {
+      const detail = error instanceof Error ? error.message : 'invalid pattern';
+      throw new QuerySyntaxError(`Invalid regular expression (${detail})`, start);
+    }
+  }
+
+  let end = start;
+  while (end < query.length && !/[\s()]/.test(query[end])) {
+    end += 1;
+  }
+
+  return { text: query.slice(start, end), quoted: false, regex: null, end };
+}
+
+function buildTerm(field: string | null, operator: QueryOperator, value: RawValue, position: number): QueryTerm {
+  const isComparison = operator === '>' || operator === '>=' || operator === '<' || operator === '<=';
+
+  if (value.regex && operator !== ':' && operator !== '=' && operator !== '!=') {
+    throw new QuerySyntaxError(`"${operator}" cannot be used with a regular expression`, position);
+  }
+  if (isComparison && toComparable(value.text) === null) {
+    throw new QuerySyntaxError(`"${operator}" needs a number or date value`, position);
+  }
+
+  return { kind: 'term', field, operator, value: value.text, regex: value.regex };
+}
+
+function evaluateNode(node: QueryNode, event: EventView): boolean {
+  switch (node.kind) {
+    case 'and':
+      return node.children.every((child) => evaluateNode(child, event));
+    case 'or':
+      return node.children.some((child) => evaluateNode(child, event));
+    case 'not':
+      return !evaluateNode(node.child, event);
+    default:
+      return evaluateTerm(node, event);
+  }
+}
+
+function evaluateTerm(term: QueryTerm, event: EventView): boolean {
+  if (term.field === null) {
+    const needle = term.value.toLowerCase();
+    const matches = (text: string): boolean =>
+      term.regex ? testRegex(term.regex, text) : text.toLowerCase().includes(needle);
+
+    return (
+      matches(event.id) ||
+      matches(event.timestamp) ||
+      matches(event.level) ||
+      matches(event.application) ||
+      matches(event.context) ||
+      matches(event.message) ||
+      someLeaf(event.rawValue, matches, true)
+    );
+  }
+
+  const isComparison = term.operator !== ':' && term.operator !== '=' && term.operator !== '!=';
+  const values =
+    isComparison && term.field.toLowerCase() === 'timestamp'
+      ? [event.time]
+      : resolveField(term.field, event);
+
+  switch (term.operator) {
+    case ':':
+      if (!term.regex && term.value === '*') {
+        return values.some((value) => value !== undefined && value !== null);
+      }
+      return values.some((value) =>
+        someLeaf(
+          value,
+          (text) => (term.regex ? testRegex(term.regex, text) : text.toLowerCase().includes(term.value.toLowerCase())),
+          false
+        )
+      );
+    case '=':
+      return values.some((value) => leafEquals(value, term));
+    case '!=':
+      return !values.some((value) => leafEquals(value, term));
+    default:
+      return values.some((value) => compareValue(value, term));
+  }
+}
+
+function leafEquals(value: unknown, term: QueryTerm): boolean {
+  const text = leafToString(value);
+  if (text === null) {
+    return false;
+  }
+
+  if (term.regex) {
+    term.regex.lastIndex = 0;
+    return term.regex.exec(text)?.[0] === text;
+  }
+
+  return text.toLowerCase() === term.value.toLowerCase();
+}
+
+function compareValue(value: unknown, term: QueryTerm): boolean {
+  const expected = toComparable(term.value) as { kind: 'number' | 'time'; value: number };
+  const actual =
+    expected.kind === 'time'
+      ? toTime(value)
+      : typeof value === 'number'
+        ? value
+        : typeof value === 'string' && NUMBER_VALUE.test(value.trim())
+          ? Number(value)
+          : null;
+
+  if (actual === null) {
+    return false;
+  }
+
+  switch (term.operator) {
+    case '>':
+      return actual > expected.value;
+    case '>=':
+      return actual >= expected.value;
+    case '<':
+      return actual < expected.value;
+    default:
+      return actual <= expected.value;
+  }
+}
+
+function toComparable(text: string): { kind: 'number' | 'time'; value: number } | null {
+  if (NUMBER_VALUE.test(text)) {
+    return { kind: 'number', value: Number(text) };
+  }
+
+  const time = Date.parse(text);
+  return Number.isNaN(time) ? null : { kind: 'time', value: time };
+}
+
+function toTime(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value > 99999999999 ? value : value * 1000;
+  }
+  if (typeof value === 'string') {
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? null : time;
+  }
+
+  return null;
+}
+
+function resolveField(field: string, event: EventView): unknown[] {
+  const key = field.toLowerCase();
+  if (Object.hasOwn(VIEW_FIELDS, key)) {
+    return [VIEW_FIELDS[key](event)];
+  }
+
+  const path = field.startsWith('raw.') ? field.slice(4) : field;
+  const segments = path
+    .replace(/\[(\d+)\]/g, '.$1')
+    .split('.')
+    .filter((segment) => segment);
+
+  return resolvePath(event.rawValue, segments);
+}
+
+function resolvePath(value: unknown, segments: string[]): unknown[] {
+  if (segments.length === 0) {
+    return [value];
+  }
+
+  if (Array.isArray(value)) {
+    const [head, ...rest] = segments;
+    if (/^\d+$/.test(head)) {
+      return resolvePath(value[Number(head)], rest);
+    }
+    return value.flatMap((item) => resolvePath(item, segments));
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    const [head, ...rest] = segments;
+    const record = value as Record<string, unknown>;
+    return Object.hasOwn(record, head) ? resolvePath(record[head], rest) : [];
+  }
+
+  return [];
+}
+
+function someLeaf(value: unknown, matches: (text: string) => boolean, includeKeys: boolean): boolean {
+  const text = leafToString(value);
+  if (text !== null) {
+    return matches(text);
+  }
+
+  if (Array.isArray(value)) {
+    return value.some((item) => someLeaf(item, matches, includeKeys));
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    for (const [key, child] of Object.entries(value)) {
+      if ((includeKeys && matches(key)) || someLeaf(child, matches, includeKeys)) {
+        return true;
+      }
+    }
+  }
+
+  return false;
+}
+
+function leafToString(value: unknown): string | null {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+
+  return null;
+}
+
+function testRegex(regex: RegExp, text: string): boolean {
+  regex.lastIndex = 0;
+  return regex.test(text);
+}
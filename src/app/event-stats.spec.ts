@@ -0,0 +1,85 @@
+import { buildEventStatistics } from './event-stats';
+import { EventView } from './log-viewer.model';
+
+function eventAt(id: string, second: number | null, level: string, context: string, message: string): EventView {
+  const time = second === null ? null : Date.UTC(2026, 4, 1, 10, 0, second);
+  return {
+    uid: id,
+    id,
+    source: 'axp.json',
+    timestamp: time === null ? '-' : new Date(time).toISOString(),
+    time,
+    level,
+    levelTone: 'info',
+    application: 'AgentDesktop',
+    context,
+    message,
+    lineTitle: '',
+    rawValue: {}
+  };
+}
+
+const events = [
+  eventAt('a', 0, 'INFO', 'http', 'Request sent'),
+  eventAt('b', 10, 'ERROR', 'http', 'Request failed\n  at fetch'),
+  eventAt('c', 20, 'INFO', 'http', 'Request sent'),
+  eventAt('d', 200, 'INFO', 'ui', 'Clicked'),
+  eventAt('e', 210, 'ERROR', 'ui', 'Request failed'),
+  eventAt('f', null, 'INFO', 'ui', 'Request sent')
+];
+
+const catalogs = {
+  levels: ['DEBUG', 'ERROR', 'INFO'],
+  applications: ['AgentDesktop'],
+  contexts: ['http', 'ui']
+};
+
+describe('buildEventStatistics', () => {
+  it('should count every catalog option, including unused ones', () => {
+    const stats = buildEventStatistics(events, catalogs);
+
+    expect(stats.total).toBe(6);
+    expect(stats.timedCount).toBe(5);
+    expect(stats.levels.map((row) => [row.value, row.count])).toEqual([
+      ['INFO', 4],
+      ['ERROR', 2],
+      ['DEBUG', 0]
+    ]);
+    expect(stats.contexts[0].share).toBe(0.5);
+  });
+
+  it('should report per-minute rates and the busiest minutes', () => {
+    const stats = buildEventStatistics(events, catalogs);
+
+    expect(stats.averagePerMinute).toBe(5 / 3.5);
+    expect(stats.peakPerMinute).toBe(3);
+    expect(stats.busiestMinutes.map((period) => [period.start, period.count])).toEqual([
+      [Date.UTC(2026, 4, 1, 10, 0), 3],
+      [Date.UTC(2026, 4, 1, 10, 3), 2]
+    ]);
+  });
+
+  it('should find the longest gaps between consecutive events', () => {
+    const [longest, next] = buildEventStatistics(events, catalogs, 2).longestGaps;
+
+    expect([longest.from.id, longest.to.id, longest.duration]).toEqual(['c', 'd', 180000]);
+    expect(next.duration).toBe(10000);
+  });
+
+  it('should rank messages by their first line', () => {
+    const stats = buildEventStatistics(events, catalogs, 2);
+
+    expect(stats.topMessages.map((row) => [row.value, row.count])).toEqual([
+      ['Request sent', 3],
+      ['Request failed', 2]
+    ]);
+  });
+
+  it('should handle an empty slice', () => {
+    const stats = buildEventStatistics([], catalogs);
+
+    expect(stats.start).toBeNull();
+    expect(stats.averagePerMinute).toBe(0);
+    expect(stats.longestGaps).toEqual([]);
+  });
+});
@@ -0,0 +1,134 @@
+import { EventView } from './log-viewer.model';
+
+export interface CountRow {
+  value: string;
+  count: number;
+  /** Fraction of all events, 0..1. */
+  share: number;
+}
+
+export interface RatePeriod {
+  start: number;
+  end: number;
+  count: number;
+}
+
+export interface EventGap {
+  /** The last event before the gap and the first one after it. */
+  from: EventView;
+  to: EventView;
+  duration: number;
+}
+
+export interface EventStatistics {
+  total: number;
+  /** Events with a parseable timestamp; rates, periods and gaps only consider these. */
+  timedCount: number;
+  start: number | null;
+  end: number | null;
+  levels: CountRow[];
+  applications: CountRow[];
+  contexts: CountRow[];
+  averagePerMinute: number;
+  peakPerMinute: number;
+  busiestMinutes: RatePeriod[];
+  longestGaps: EventGap[];
+  topMessages: CountRow[];
+}
+
+/** The option catalogs of the filter panel; every option gets a row, even when no event has it. */
+export interface StatisticsCatalogs {
+  levels: string[];
+  applications: string[];
+  contexts: string[];
+}
+
+const MINUTE_MS = 60000;
+
+/**
+ * Aggregates a slice of events: counts per catalog option, events-per-minute rates, the busiest minutes,
+ * the longest silences between consecutive events and the most frequent messages (by first line).
+ */
+export function buildEventStatistics(
+  events: EventView[],
+  catalogs: StatisticsCatalogs,
+  topCount = 10
+): EventStatistics {
+  const timed = events
+    .filter((event) => event.time !== null)
+    .sort((left, right) => (left.time as number) - (right.time as number));
+  const start = timed.length > 0 ? (timed[0].time as number) : null;
+  const end = timed.length > 0 ? (timed[timed.length - 1].time as number) : null;
+
+  const minutes = new Map<number, number>();
+  for (const event of timed) {
+    const minute = Math.floor((event.time as number) / MINUTE_MS);
+    minutes.set(minute, (minutes.get(minute) ?? 0) + 1);
+  }
+
+  const busiestMinutes = Array.from(minutes.entries())
+    .sort((left, right) => right[1] - left[1] || left[0] - right[0])
+    .slice(0, topCount)
+    .map(([minute, count]) => ({ start: minute * MINUTE_MS, end: (minute + 1) * MINUTE_MS, count }));
+
+  const gaps: EventGap[] = [];
+  for (let index = 1; index < timed.length; index += 1) {
+    const duration = (timed[index].time as number) - (timed[index - 1].time as number);
+    if (duration > 0) {
+      gaps.push({ from: timed[index - 1], to: timed[index], duration });
+    }
+  }
+
+  const spanMinutes = start === null || end === null ? 0 : Math.max((end - start) / MINUTE_MS, 1);
+
+  return {
+    total: events.length,
+    timedCount: timed.length,
+    start,
+    end,
+    levels: countByCatalog(events, catalogs.levels, (event) => event.level),
+    applications: countByCatalog(events, catalogs.applications, (event) => event.application),
+    contexts: countByCatalog(events, catalogs.contexts, (event) => event.context),
+    averagePerMinute: spanMinutes > 0 ? timed.length / spanMinutes : 0,
+    peakPerMinute: busiestMinutes[0]?.count ?? 0,
+    busiestMinutes,
+    longestGaps: gaps.sort((left, right) => right.duration - left.duration).slice(0, topCount),
+    topMessages: topValues(
+      events.map((event) => event.message.split(/\r?\n/, 1)[0].trim()),
+      events.length,
+      topCount
+    )
+  };
+}
+
+function countByCatalog(
+  events: EventView[],
+  catalog: string[],
+  valueOf: (event: EventView) => string
+): CountRow[] {
+  const counts = new Map<string, number>(catalog.map((value) => [value, 0]));
+  for (const event of events) {
+    const value = valueOf(event);
+    if (counts.has(value)) {
+      counts.set(value, (counts.get(value) as number) + 1);
+    }
+  }
+
+  return Array.from(counts.entries())
+    .map(([value, count]) => ({ value, count, share: events.length > 0 ? count / events.length : 0 }))
+    .sort((left, right) => right.count - left.count);
+}
+
+function topValues(values: string[], total: number, topCount: number): CountRow[] {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    if (value) {
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+  }
+
+  return Array.from(counts.entries())
+    .sort((left, right) => right[1] - left[1])
+    .slice(0, topCount)
+    .map(([value, count]) => ({ value, count, share: total > 0 ? count / total : 0 }));
+}
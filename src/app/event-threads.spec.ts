@@ -0,0 +1,69 @@
+import { buildEventThreads, threadQuery } from './event-threads';
+import { compileEventQuery } from './event-query';
+import { CorrelationSettings, EventView } from './log-viewer.model';
+
+const settings: CorrelationSettings = {
+  keyPaths: ['data.interactionId', 'data.callId'],
+  participantPaths: ['data.agentId', 'data.participants'],
+  statePaths: ['data.state']
+};
+
+function eventAt(id: string, minute: number | null, data: Record<string, unknown>): EventView {
+  const time = minute === null ? null : Date.UTC(2026, 4, 1, 10, minute);
+  return {
+    uid: id,
+    id,
+    source: 'axp.json',
+    timestamp: time === null ? '-' : new Date(time).toISOString(),
+    time,
+    level: 'INFO',
+    levelTone: 'info',
+    application: 'AgentDesktop',
+    context: 'interaction',
+    message: '',
+    lineTitle: '',
+    rawValue: { data }
+  };
+}
+
+const events = [
+  eventAt('a', 0, { interactionId: 'I-1', agentId: 'agent7', state: 'ALERTING' }),
+  eventAt('b', 1, { callId: 'C-9' }),
+  eventAt('c', 2, { interactionId: 'I-2', state: 'ACTIVE' }),
+  eventAt('d', 3, { interactionId: 'I-1', callId: 'C-9', participants: ['+15550001', 'agent7'] }),
+  eventAt('e', 4, { note: 'no ids' }),
+  eventAt('f', 9, { callId: 'C-9', state: 'ENDED' })
+];
+
+describe('buildEventThreads', () => {
+  it('should merge ids seen on the same event into one thread', () => {
+    const threads = buildEventThreads(events, settings);
+
+    expect(threads.map((thread) => thread.events.map((event) => event.id))).toEqual([
+      ['a', 'b', 'd', 'f'],
+      ['c']
+    ]);
+    expect(threads[0].keys).toEqual([
+      { path: 'data.interactionId', value: 'I-1' },
+      { path: 'data.callId', value: 'C-9' }
+    ]);
+  });
+
+  it('should report time span, participants and the last known state', () => {
+    const [thread] = buildEventThreads(events, settings);
+
+    expect(thread.start).toBe(Date.UTC(2026, 4, 1, 10, 0));
+    expect(thread.end).toBe(Date.UTC(2026, 4, 1, 10, 9));
+    expect(thread.participants).toEqual(['agent7', '+15550001']);
+    expect(thread.finalState).toBe('ENDED');
+  });
+
+  it('should build a query that selects exactly the thread events', () => {
+    const [thread] = buildEventThreads(events, settings);
+    const query = threadQuery(thread);
+    const predicate = compileEventQuery(query);
+
+    expect(query).toBe('(data.interactionId=I-1 OR data.callId=C-9)');
+    expect(events.filter((event) => predicate?.(event)).map((event) => event.id)).toEqual(['a', 'b', 'd', 'f']);
+  });
+});
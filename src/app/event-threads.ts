@@ -0,0 +1,180 @@
+import { buildEqualsTerm, toQueryFieldPath } from './event-query';
+import { CorrelationKey, CorrelationSettings, EventThread, EventView } from './log-viewer.model';
+import { getPathValue } from './mapping-profiles';
+
+/** The Workspaces / AXP ids that tie the events of one customer interaction together. */
+export const DEFAULT_CORRELATION_SETTINGS: CorrelationSettings = {
+  keyPaths: [
+    'data.interactionId',
+    'data.interaction.id',
+    'interactionId',
+    'data.workRequestId',
+    'workRequestId',
+    'data.callId',
+    'data.call.id',
+    'callId',
+    'data.dialogId',
+    'dialogId'
+  ],
+  participantPaths: [
+    'data.agentId',
+    'data.agent.id',
+    'data.userId',
+    'data.handle',
+    'data.participants',
+    'data.originatingAddress',
+    'data.destinationAddress',
+    'data.from',
+    'data.to'
+  ],
+  statePaths: ['data.state', 'data.status', 'data.interactionState', 'data.callState', 'state', 'status']
+};
+
+const MAX_PARTICIPANTS = 12;
+
+/**
+ * Groups events into threads. Every id found under a key path links its event to every other event with
+ * the same id at the same path, and ids found together on one event are merged, so a call id logged next
+ * to an interaction id joins the call's events to the interaction. Events without any id are left out.
+ * Threads are returned by start time; their events keep the order of `events`.
+ */
+export function buildEventThreads(events: EventView[], settings: CorrelationSettings): EventThread[] {
+  const parents = new Map<string, string>();
+  const find = (key: string): string => {
+    let root = key;
+    while (parents.get(root) !== root) {
+      root = parents.get(root) as string;
+    }
+    // Path compression keeps long chains of linked ids cheap.
+    for (let current = key; current !== root; ) {
+      const next = parents.get(current) as string;
+      parents.set(current, root);
+      current = next;
+    }
+    return root;
+  };
+
+  const eventKeys: string[][] = [];
+  for (const event of events) {
+    const keys: string[] = [];
+    for (const path of settings.keyPaths) {
+      for (const value of valuesAt(event.rawValue, path)) {
+        const key = `${path}\u0000${value}`;
+        if (!parents.has(key)) {
+          parents.set(key, key);
+        }
+        keys.push(key);
+      }
+    }
+
+    for (const key of keys.slice(1)) {
+      const left = find(keys[0]);
+      const right = find(key);
+      if (left !== right) {
+        parents.set(right, left);
+      }
+    }
+    eventKeys.push(keys);
+  }
+
+  const groups = new Map<string, { keys: Set<string>; events: EventView[] }>();
+  events.forEach((event, index) => {
+    const keys = eventKeys[index];
+    if (keys.length === 0) {
+      return;
+    }
+
+    const root = find(keys[0]);
+    let group = groups.get(root);
+    if (!group) {
+      group = { keys: new Set<string>(), events: [] };
+      groups.set(root, group);
+    }
+    for (const key of keys) {
+      group.keys.add(key);
+    }
+    group.events.push(event);
+  });
+
+  return Array.from(groups.entries())
+    .map(([root, group]) => toThread(root, group.keys, group.events, settings))
+    .sort((left, right) => (left.start ?? Number.POSITIVE_INFINITY) - (right.start ?? Number.POSITIVE_INFINITY));
+}
+
+/** A query matching exactly the events of a thread: any of its ids at the path it was found under. */
+export function threadQuery(thread: EventThread): string {
+  const terms = thread.keys
+    .map((key) => {
+      const field = toQueryFieldPath(key.path.split('.'));
+      return field ? buildEqualsTerm(field, key.value) : null;
+    })
+    .filter((term): term is string => term !== null);
+
+  return terms.length > 1 ? `(${terms.join(' OR ')})` : (terms[0] ?? '');
+}
+
+function toThread(
+  root: string,
+  keySet: Set<string>,
+  events: EventView[],
+  settings: CorrelationSettings
+): EventThread {
+  const keys: CorrelationKey[] = Array.from(keySet)
+    .map((key) => {
+      const [path, value] = key.split('\u0000');
+      return { path, value };
+    })
+    .sort((left, right) => settings.keyPaths.indexOf(left.path) - settings.keyPaths.indexOf(right.path));
+
+  let start: number | null = null;
+  let end: number | null = null;
+  for (const { time } of events) {
+    if (time !== null) {
+      start = start === null ? time : Math.min(start, time);
+      end = end === null ? time : Math.max(end, time);
+    }
+  }
+
+  const participants = new Set<string>();
+  for (const event of events) {
+    for (const path of settings.participantPaths) {
+      for (const value of valuesAt(event.rawValue, path)) {
+        if (participants.size < MAX_PARTICIPANTS) {
+          participants.add(value);
+        }
+      }
+    }
+  }
+
+  let finalState = '';
+  for (let index = events.length - 1; index >= 0 && !finalState; index -= 1) {
+    for (const path of settings.statePaths) {
+      const [state] = valuesAt(events[index].rawValue, path);
+      if (state) {
+        finalState = state;
+        break;
+      }
+    }
+  }
+
+  return {
+    id: root,
+    keys,
+    events,
+    start,
+    end,
+    participants: Array.from(participants),
+    finalState
+  };
+}
+
+/** String forms of a primitive, or of each primitive in an array, under `path`. */
+function valuesAt(raw: unknown, path: string): string[] {
+  const value = getPathValue(raw, path);
+  const items = Array.isArray(value) ? value : [value];
+
+  return items
+    .filter((item) => typeof item === 'string' || typeof item === 'number')
+    .map((item) => String(item).trim())
+    .filter((item) => item !== '');
+}
@@ -0,0 +1,74 @@
+import { Component, Input, inject } from '@angular/core';
+
+import { downloadText } from '../download';
+import { EventBookmarks } from '../event-annotations';
+import { ExportFormat, toCsv, toHtmlReport, toJson, toNdjson } from '../event-export';
+import { EventAnnotation, EventView, LogSource } from '../log-viewer.model';
+import { RedactionSettingsService } from '../redaction-settings.service';
+
+const FORMAT_FILES: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  csv: { extension: 'csv', mimeType: 'text/csv' },
+  json: { extension: 'json', mimeType: 'application/json' },
+  ndjson: { extension: 'ndjson', mimeType: 'application/x-ndjson' },
+  html: { extension: 'html', mimeType: 'text/html' }
+};
+
+/**
+ * Downloads the given (already filtered) events in one of the export formats, with the notes and tags of the
+ * bookmarked ones. Exports are always redacted, notes included, even while the viewer shows original values.
+ */
+@Component({
+  selector: 'app-export-menu',
+  templateUrl: './export-menu.component.html',
+  styleUrl: './export-menu.component.css'
+})
+export class ExportMenuComponent {
+  private readonly redaction = inject(RedactionSettingsService);
+
+  @Input({ required: true }) events: EventView[] = [];
+  @Input({ required: true }) sources: LogSource[] = [];
+  @Input() filterDescription: string[] = [];
+  @Input() title = '';
+  @Input() bookmarks: EventBookmarks = new Map();
+
+  exportAs(format: ExportFormat, menu: HTMLDetailsElement): void {
+    menu.open = false;
+    const { extension, mimeType } = FORMAT_FILES[format];
+    downloadText(this.buildContent(format), `${this.baseFileName()}-filtered.${extension}`, mimeType);
+  }
+
+  private buildContent(format: ExportFormat): string {
+    const redactor = this.redaction.redactor;
+    const events = this.events.map((event) => redactor.redactEvent(event));
+    const bookmarks: EventBookmarks = new Map(
+      Array.from(this.bookmarks, ([uid, annotation]): [string, EventAnnotation] => [
+        uid,
+        { note: redactor.redactText(annotation.note), tags: annotation.tags.map((tag) => redactor.redactText(tag)) }
+      ])
+    );
+
+    switch (format) {
+      case 'csv':
+        return toCsv(events, bookmarks);
+      case 'json':
+        return toJson(events, bookmarks);
+      case 'ndjson':
+        return toNdjson(events, bookmarks);
+      case 'html':
+        return toHtmlReport({
+          title: this.title,
+          generatedAt: new Date(),
+          filterDescription: this.filterDescription.map((line) => redactor.redactText(line)),
+          sources: this.sources
+            .filter((source) => source.status !== 'error')
+            .map((source) => ({ name: source.name, ...redactor.redactSummary(source) })),
+          events,
+          bookmarks
+        });
+    }
+  }
+
+  private baseFileName(): string {
+    return this.sources.length === 1 ? this.sources[0].name.replace(/\.[^.]+$/, '') : 'merged-logs';
+  }
+}
@@ -0,0 +1,94 @@
+import { DecimalPipe } from '@angular/common';
+import { Component, EventEmitter, Input, OnChanges, Output, inject } from '@angular/core';
+
+import { evaluateRules } from '../detection-rules';
+import { DetectionRulesService } from '../detection-rules.service';
+import { downloadText } from '../download';
+import { isFromSource } from '../event-merge';
+import { DetectionRule, EventView, Finding, LogSource, RulePack } from '../log-viewer.model';
+
+/**
+ * Runs the enabled detection rules over every loaded file and lists what they found, most severe first.
+ * Rules are only evaluated while the panel is open. Rule packs are imported, exported and switched on and
+ * off here; showing a finding's events is left to the parent.
+ */
+@Component({
+  selector: 'app-findings-panel',
+  imports: [DecimalPipe],
+  templateUrl: './findings-panel.component.html',
+  styleUrl: './findings-panel.component.css'
+})
+export class FindingsPanelComponent implements OnChanges {
+  readonly rules = inject(DetectionRulesService);
+
+  @Input({ required: true }) sources: LogSource[] = [];
+  @Input({ required: true }) events: EventView[] = [];
+  @Output() openFinding = new EventEmitter<Finding>();
+
+  isOpen = false;
+  findings: Finding[] = [];
+  message = '';
+  messageIsError = false;
+
+  ngOnChanges(): void {
+    if (this.isOpen) {
+      this.evaluate();
+    }
+  }
+
+  onToggle(event: Event): void {
+    this.isOpen = (event.target as HTMLDetailsElement).open;
+    if (this.isOpen) {
+      this.evaluate();
+    }
+  }
+
+  toggleRule(pack: RulePack, rule: DetectionRule, event: Event): void {
+    this.rules.setEnabled(pack, rule, (event.target as HTMLInputElement).checked);
+    this.evaluate();
+  }
+
+  exportPack(pack: RulePack): void {
+    downloadText(this.rules.exportPack(pack), `${pack.id}.rules.json`, 'application/json');
+  }
+
+  removePack(pack: RulePack): void {
+    this.rules.removePack(pack.id);
+    this.evaluate();
+  }
+
+  async onImportSelected(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) {
+      return;
+    }
+
+    try {
+      const pack = this.rules.importPack(await file.text(), file.name.replace(/\.json$/i, ''));
+      const count = pack.rules.length;
+      this.showMessage(`Imported ${count} rule${count === 1 ? '' : 's'} as "${pack.name}".`, false);
+      this.evaluate();
+    } catch (error) {
+      this.showMessage(error instanceof Error ? error.message : 'Import failed.', true);
+    }
+  }
+
+  private evaluate(): void {
+    const targets = this.sources
+      .filter((source) => source.status === 'complete')
+      .map((source) => ({
+        name: source.name,
+        summary: source,
+        events: this.events.filter((event) => isFromSource(event, source.key))
+      }));
+
+    this.findings = evaluateRules(this.rules.enabledRules(), targets);
+  }
+
+  private showMessage(message: string, isError: boolean): void {
+    this.message = message;
+    this.messageIsError = isError;
+  }
+}
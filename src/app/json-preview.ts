@@ -0,0 +1,29 @@
+import { JsonPreviewTarget } from './log-viewer.model';
+
+const MAX_PREVIEW_CHARS = 120000;
+
+/**
+ * Pretty-prints a preview target on first use and caches the result on the target, so large payloads
+ * are only stringified when someone actually expands them.
+ */
+export function getRawJsonPreview(target: JsonPreviewTarget): string {
+  if (target.rawJsonCache) {
+    return target.rawJsonCache;
+  }
+
+  const rawJson = toJsonString(target.rawValue, 2);
+  target.rawJsonCache =
+    rawJson.length > MAX_PREVIEW_CHARS
+      ? `${rawJson.slice(0, MAX_PREVIEW_CHARS)}\n... [truncated at ${MAX_PREVIEW_CHARS} characters]`
+      : rawJson;
+
+  return target.rawJsonCache;
+}
+
+export function toJsonString(value: unknown, indentation: number): string {
+  try {
+    return JSON.stringify(value, null, indentation) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
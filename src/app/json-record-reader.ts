@@ -0,0 +1,155 @@
+/** Callbacks driving a {@link JsonRecordReader}. Line numbers are 1-based and point at the record's first line. */
+export interface JsonRecordHandlers {
+  record(value: Record<string, unknown>, line: number): void;
+  skip(line: number, error: string, text: string): void;
+}
+
+const SKIPPED_TEXT_LENGTH = 200;
+
+/**
+ * Incremental reader for logs made of many JSON values: newline-delimited JSON (one record per line) or
+ * concatenated JSON objects that may span lines. A record that fails to parse is reported through `skip`
+ * and reading resumes with the next record, so one bad line never rejects the whole file.
+ *
+ * With `lineDelimited` set, a line break always ends the current record, which keeps a truncated line from
+ * swallowing the lines after it. Arrays are unpacked into one record per object element.
+ */
+export class JsonRecordReader {
+  private buffer = '';
+  private pos = 0;
+  private line: number;
+  private recordStart = -1;
+  private recordLine = 0;
+  private isContainer = false;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private sawContent = false;
+
+  /** `firstLine` numbers the lines of text that does not start at the top of the file. */
+  constructor(
+    private readonly handlers: JsonRecordHandlers,
+    private readonly lineDelimited: boolean,
+    firstLine = 1
+  ) {
+    this.line = firstLine;
+  }
+
+  get hasContent(): boolean {
+    return this.sawContent;
+  }
+
+  write(chunk: string): void {
+    this.buffer += chunk;
+    this.scan();
+    this.compact();
+  }
+
+  end(): void {
+    if (this.recordStart >= 0) {
+      this.finishRecord(this.buffer.length);
+    }
+  }
+
+  private scan(): void {
+    const buffer = this.buffer;
+
+    while (this.pos < buffer.length) {
+      const char = buffer[this.pos];
+
+      if (this.recordStart < 0) {
+        this.pos += 1;
+        if (char === '\n') {
+          this.line += 1;
+        } else if (char !== ' ' && char !== '\r' && char !== '\t' && char !== '\uFEFF') {
+          this.beginRecord(char);
+        }
+        continue;
+      }
+
+      if (char === '\n') {
+        // Anything that is not an object or array (and any line in line-delimited mode) ends here.
+        if (!this.isContainer || this.lineDelimited) {
+          this.finishRecord(this.pos);
+          continue;
+        }
+        this.line += 1;
+      }
+
+      this.pos += 1;
+      if (!this.isContainer) {
+        continue;
+      }
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+        }
+      } else if (char === '"') {
+        this.inString = true;
+      } else if (char === '{' || char === '[') {
+        this.depth += 1;
+      } else if ((char === '}' || char === ']') && --this.depth === 0) {
+        this.finishRecord(this.pos);
+      }
+    }
+  }
+
+  private beginRecord(char: string): void {
+    this.sawContent = true;
+    this.recordStart = this.pos - 1;
+    this.recordLine = this.line;
+    this.isContainer = char === '{' || char === '[';
+    this.depth = this.isContainer ? 1 : 0;
+    this.inString = false;
+    this.escaped = false;
+  }
+
+  private finishRecord(end: number): void {
+    const text = this.buffer.slice(this.recordStart, end).trim();
+    const line = this.recordLine;
+    this.recordStart = -1;
+
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch (error) {
+      this.skip(line, error instanceof Error ? error.message : 'unknown error', text);
+      return;
+    }
+
+    const records = Array.isArray(value) ? value : [value];
+    for (const record of records) {
+      if (record && typeof record === 'object' && !Array.isArray(record)) {
+        this.handlers.record(record as Record<string, unknown>, line);
+      } else {
+        this.skip(line, 'Expected a JSON object', JSON.stringify(record));
+      }
+    }
+  }
+
+  private skip(line: number, error: string, text: string): void {
+    this.handlers.skip(
+      line,
+      error,
+      text.length > SKIPPED_TEXT_LENGTH ? `${text.slice(0, SKIPPED_TEXT_LENGTH)}…` : text
+    );
+  }
+
+  private compact(): void {
+    const keep = this.recordStart >= 0 ? this.recordStart : this.pos;
+    if (keep === 0) {
+      return;
+    }
+
+    this.buffer = this.buffer.slice(keep);
+    this.pos -= keep;
+    if (this.recordStart >= 0) {
+      this.recordStart -= keep;
+    }
+  }
+}
@@ -0,0 +1,334 @@
+export type JsonPath = Array<string | number>;
+
+export type JsonValueKind = 'object' | 'array' | 'primitive';
+
+/**
+ * Callbacks driving a {@link JsonStreamScanner}. `select` is asked once per object/array before it is read:
+ * `descend` walks into an object/array and offers each child individually, `capture` materializes the
+ * whole value with `JSON.parse` and hands it to `value`. Primitives are always captured.
+ */
+export interface JsonStreamHandlers {
+  select(path: JsonPath, kind: JsonValueKind): 'capture' | 'descend';
+  value(path: JsonPath, value: unknown): void;
+  close?(path: JsonPath, kind: 'object' | 'array'): void;
+}
+
+type FrameState = 'keyOrEnd' | 'key' | 'inKey' | 'colon' | 'value' | 'valueOrEnd' | 'commaOrEnd';
+
+interface Frame {
+  kind: 'object' | 'array';
+  path: JsonPath;
+  state: FrameState;
+  key: string;
+  keyStart: number;
+  keyEscaped: boolean;
+  index: number;
+}
+
+interface Capture {
+  path: JsonPath;
+  start: number;
+  kind: 'container' | 'string' | 'literal';
+  depth: number;
+  inString: boolean;
+  escaped: boolean;
+}
+
+/**
+ * Incremental JSON reader for documents too large to hold as a single string. Text is fed in chunks;
+ * only the value currently being captured stays buffered, everything already handed out is dropped.
+ */
+export class JsonStreamScanner {
+  private buffer = '';
+  private bufferOffset = 0;
+  private pos = 0;
+  private readonly stack: Frame[] = [];
+  private capture: Capture | null = null;
+  private rootDone = false;
+  private sawContent = false;
+
+  constructor(private readonly handlers: JsonStreamHandlers) {}
+
+  get hasContent(): boolean {
+    return this.sawContent;
+  }
+
+  /** Whether the top-level value has been read to its end. */
+  get isComplete(): boolean {
+    return this.rootDone;
+  }
+
+  write(chunk: string): void {
+    this.buffer += chunk;
+    this.scan();
+    this.compact();
+  }
+
+  end(): void {
+    if (this.capture?.kind === 'literal') {
+      this.finishCapture(this.buffer.length);
+    }
+
+    if (this.capture || this.stack.length > 0 || (this.sawContent && !this.rootDone)) {
+      throw new Error('Unexpected end of JSON input');
+    }
+  }
+
+  private scan(): void {
+    const buffer = this.buffer;
+
+    while (this.pos < buffer.length) {
+      if (this.capture) {
+        this.scanCapture();
+        continue;
+      }
+
+      const char = buffer[this.pos];
+      const frame = this.stack[this.stack.length - 1];
+
+      if (frame?.state === 'inKey') {
+        this.scanKey(frame);
+        continue;
+      }
+
+      if (char === ' ' || char === '\n' || char === '\r' || char === '\t' || char === '\uFEFF') {
+        this.pos += 1;
+        continue;
+      }
+
+      if (!frame) {
+        if (this.rootDone) {
+          this.fail(char);
+        }
+        this.sawContent = true;
+        this.beginValue([], char);
+        continue;
+      }
+
+      this.scanStructural(frame, char);
+    }
+  }
+
+  private scanStructural(frame: Frame, char: string): void {
+    switch (frame.state) {
+      case 'keyOrEnd':
+      case 'key':
+        if (char === '}' && frame.state === 'keyOrEnd') {
+          this.closeFrame();
+        } else if (char === '"') {
+          frame.state = 'inKey';
+          frame.keyStart = this.pos;
+          frame.keyEscaped = false;
+          this.pos += 1;
+        } else {
+          this.fail(char);
+        }
+        return;
+      case 'colon':
+        if (char !== ':') {
+          this.fail(char);
+        }
+        frame.state = 'value';
+        this.pos += 1;
+        return;
+      case 'valueOrEnd':
+        if (char === ']') {
+          this.closeFrame();
+          return;
+        }
+        this.beginValue([...frame.path, frame.index], char);
+        return;
+      case 'value':
+        this.beginValue(
+          frame.kind === 'array' ? [...frame.path, frame.index] : [...frame.path, frame.key],
+          char
+        );
+        return;
+      case 'commaOrEnd':
+        if (char === ',') {
+          if (frame.kind === 'array') {
+            frame.index += 1;
+            frame.state = 'value';
+          } else {
+            frame.state = 'key';
+          }
+          this.pos += 1;
+        } else if ((char === '}' && frame.kind === 'object') || (char === ']' && frame.kind === 'array')) {
+          this.closeFrame();
+        } else {
+          this.fail(char);
+        }
+        return;
+      default:
+        this.fail(char);
+    }
+  }
+
+  private scanKey(frame: Frame): void {
+    const buffer = this.buffer;
+
+    while (this.pos < buffer.length) {
+      const char = buffer[this.pos];
+      this.pos += 1;
+
+      if (frame.keyEscaped) {
+        frame.keyEscaped = false;
+      } else if (char === '\\') {
+        frame.keyEscaped = true;
+      } else if (char === '"') {
+        frame.key = JSON.parse(buffer.slice(frame.keyStart, this.pos)) as string;
+        frame.state = 'colon';
+        return;
+      }
+    }
+  }
+
+  private beginValue(path: JsonPath, char: string): void {
+    const kind: JsonValueKind = char === '{' ? 'object' : char === '[' ? 'array' : 'primitive';
+    const parent = this.stack[this.stack.length - 1];
+    if (parent) {
+      parent.state = 'commaOrEnd';
+    }
+
+    if (kind !== 'primitive' && this.handlers.select(path, kind) === 'descend') {
+      this.stack.push({
+        kind,
+        path,
+        state: kind === 'object' ? 'keyOrEnd' : 'valueOrEnd',
+        key: '',
+        keyStart: -1,
+        keyEscaped: false,
+        index: 0
+      });
+      this.pos += 1;
+      return;
+    }
+
+    if (!'{["-0123456789tfn'.includes(char)) {
+      this.fail(char);
+    }
+
+    this.capture = {
+      path,
+      start: this.pos,
+      kind: kind !== 'primitive' ? 'container' : char === '"' ? 'string' : 'literal',
+      depth: 0,
+      inString: false,
+      escaped: false
+    };
+
+    if (this.capture.kind === 'string') {
+      this.capture.inString = true;
+      this.pos += 1;
+    }
+  }
+
+  private scanCapture(): void {
+    const capture = this.capture as Capture;
+    const buffer = this.buffer;
+    const length = buffer.length;
+
+    if (capture.kind === 'literal') {
+      while (this.pos < length) {
+        const char = buffer[this.pos];
+        if (char === ',' || char === '}' || char === ']' || char === ' ' || char === '\n' || char === '\r' || char === '\t') {
+          this.finishCapture(this.pos);
+          return;
+        }
+        this.pos += 1;
+      }
+      return;
+    }
+
+    while (this.pos < length) {
+      const char = buffer[this.pos];
+      this.pos += 1;
+
+      if (capture.inString) {
+        if (capture.escaped) {
+          capture.escaped = false;
+        } else if (char === '\\') {
+          capture.escaped = true;
+        } else if (char === '"') {
+          capture.inString = false;
+          if (capture.kind === 'string') {
+            this.finishCapture(this.pos);
+            return;
+          }
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        capture.inString = true;
+      } else if (char === '{' || char === '[') {
+        capture.depth += 1;
+      } else if (char === '}' || char === ']') {
+        capture.depth -= 1;
+        if (capture.depth === 0) {
+          this.finishCapture(this.pos);
+          return;
+        }
+      }
+    }
+  }
+
+  private finishCapture(end: number): void {
+    const capture = this.capture as Capture;
+    this.capture = null;
+
+    let value: unknown;
+    try {
+      value = JSON.parse(this.buffer.slice(capture.start, end));
+    } catch (error) {
+      const detail = error instanceof Error ? error.message : 'unknown error';
+      throw new Error(`${detail} (value starting at position ${this.bufferOffset + capture.start})`);
+    }
+
+    this.handlers.value(capture.path, value);
+    if (this.stack.length === 0) {
+      this.rootDone = true;
+    }
+  }
+
+  private closeFrame(): void {
+    const frame = this.stack.pop() as Frame;
+    this.pos += 1;
+    this.handlers.close?.(frame.path, frame.kind);
+
+    if (this.stack.length === 0) {
+      this.rootDone = true;
+    }
+  }
+
+  private compact(): void {
+    let keep = this.pos;
+    if (this.capture) {
+      keep = this.capture.start;
+    } else {
+      const frame = this.stack[this.stack.length - 1];
+      if (frame?.state === 'inKey') {
+        keep = frame.keyStart;
+      }
+    }
+
+    if (keep === 0) {
+      return;
+    }
+
+    this.buffer = this.buffer.slice(keep);
+    this.bufferOffset += keep;
+    this.pos -= keep;
+    if (this.capture) {
+      this.capture.start -= keep;
+    }
+    const frame = this.stack[this.stack.length - 1];
+    if (frame?.state === 'inKey') {
+      frame.keyStart -= keep;
+    }
+  }
+
+  private fail(char: string): never {
+    throw new Error(`Unexpected token ${JSON.stringify(char)} at position ${this.bufferOffset + this.pos}`);
+  }
+}
@@ -0,0 +1,51 @@
+import { flattenJsonTree } from './json-tree';
+
+const raw = {
+  level: 'ERROR',
+  data: { reason: 'NETWORK', items: [{ id: 7 }, null], 'odd key': true },
+  empty: {}
+};
+
+describe('flattenJsonTree', () => {
+  it('should list the top-level keys with collapsed container summaries', () => {
+    const rows = flattenJsonTree(raw, new Set());
+
+    expect(rows.map((row) => [row.label, row.preview])).toEqual([
+      ['level', '"ERROR"'],
+      ['data', '{3 keys}'],
+      ['empty', '{0 keys}']
+    ]);
+    expect(rows[1].expandable).toBeTrue();
+    expect(rows[2].expandable).toBeFalse();
+  });
+
+  it('should show the children of expanded nodes with query paths', () => {
+    const expanded = new Set([JSON.stringify(['data']), JSON.stringify(['data', 'items'])]);
+    const rows = flattenJsonTree(raw, expanded);
+
+    expect(rows.map((row) => `${row.depth}:${row.path}`)).toEqual([
+      '0:raw.level',
+      '0:data',
+      '1:data.reason',
+      '1:data.items',
+      '2:data.items[0]',
+      '2:data.items[1]',
+      '1:data["odd key"]',
+      '0:empty'
+    ]);
+    expect(rows.find((row) => row.label === 'odd key')?.queryPath).toBeNull();
+    expect(rows.find((row) => row.label === '[1]')?.kind).toBe('null');
+  });
+
+  it('should summarize very long arrays', () => {
+    const rows = flattenJsonTree(Array.from({ length: 510 }, (_, index) => index), new Set());
+
+    expect(rows.length).toBe(501);
+    expect(rows[500].kind).toBe('more');
+    expect(rows[500].preview).toBe('… 10 more');
+  });
+
+  it('should render a primitive root as a single row', () => {
+    expect(flattenJsonTree('plain text', new Set()).map((row) => row.preview)).toEqual(['"plain text"']);
+  });
+});
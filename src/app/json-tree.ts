@@ -0,0 +1,143 @@
+import { toQueryFieldPath } from './event-query';
+
+export type JsonValueKind = 'object' | 'array' | 'string' | 'number' | 'boolean' | 'null';
+
+/** One visible line of a collapsible JSON tree. */
+export interface JsonTreeRow {
+  /** Stable identity of the location, used to remember which nodes are expanded. */
+  id: string;
+  depth: number;
+  /** Object key or `[index]`; empty for a primitive root value. */
+  label: string;
+  /** `more` marks the summary row standing in for children past the display limit. */
+  kind: JsonValueKind | 'more';
+  value: unknown;
+  /** Leaf literal (strings quoted) or a `{3 keys}` / `[5 items]` summary for containers. */
+  preview: string;
+  expandable: boolean;
+  expanded: boolean;
+  /** Path shown and copied: query syntax when possible, bracket notation otherwise. */
+  path: string;
+  /** The path in query syntax, or `null` when the query language cannot address it. */
+  queryPath: string | null;
+}
+
+/** Rows past this many children of one node are summarized, so huge arrays stay cheap to expand. */
+const MAX_CHILDREN = 500;
+const MAX_PREVIEW_CHARS = 2000;
+
+/**
+ * Flattens a raw JSON value into the rows currently visible: the root's children, plus the children of
+ * every node whose `id` is in `expanded`. Nodes beyond {@link MAX_CHILDREN} are replaced by one
+ * `… N more` row.
+ */
+export function flattenJsonTree(value: unknown, expanded: ReadonlySet<string>): JsonTreeRow[] {
+  const rows: JsonTreeRow[] = [];
+  if (kindOf(value) === 'object' || kindOf(value) === 'array') {
+    appendChildren(value, [], 0, expanded, rows);
+  } else {
+    rows.push(buildRow(value, [], 0, '', expanded));
+  }
+
+  return rows;
+}
+
+function appendChildren(
+  value: unknown,
+  segments: Array<string | number>,
+  depth: number,
+  expanded: ReadonlySet<string>,
+  rows: JsonTreeRow[]
+): void {
+  const entries: Array<[string | number, unknown]> = Array.isArray(value)
+    ? value.map((item, index) => [index, item])
+    : Object.entries(value as Record<string, unknown>);
+
+  for (const [key, child] of entries.slice(0, MAX_CHILDREN)) {
+    const childSegments = [...segments, key];
+    const row = buildRow(child, childSegments, depth, typeof key === 'number' ? `[${key}]` : key, expanded);
+    rows.push(row);
+    if (row.expanded) {
+      appendChildren(child, childSegments, depth + 1, expanded, rows);
+    }
+  }
+
+  if (entries.length > MAX_CHILDREN) {
+    rows.push({
+      id: `${JSON.stringify(segments)}…`,
+      depth,
+      label: '',
+      kind: 'more',
+      value: undefined,
+      preview: `… ${entries.length - MAX_CHILDREN} more`,
+      expandable: false,
+      expanded: false,
+      path: '',
+      queryPath: null
+    });
+  }
+}
+
+function buildRow(
+  value: unknown,
+  segments: Array<string | number>,
+  depth: number,
+  label: string,
+  expanded: ReadonlySet<string>
+): JsonTreeRow {
+  const id = JSON.stringify(segments);
+  const kind = kindOf(value);
+  const size =
+    kind === 'array' ? (value as unknown[]).length : kind === 'object' ? Object.keys(value as object).length : 0;
+  const expandable = size > 0;
+  const queryPath = toQueryFieldPath(segments);
+
+  return {
+    id,
+    depth,
+    label,
+    kind,
+    value,
+    preview: previewOf(value, kind, size),
+    expandable,
+    expanded: expandable && expanded.has(id),
+    path: queryPath ?? bracketPath(segments),
+    queryPath
+  };
+}
+
+function kindOf(value: unknown): JsonValueKind {
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+
+  const type = typeof value;
+  return type === 'object' || type === 'string' || type === 'number' || type === 'boolean' ? type : 'string';
+}
+
+function previewOf(value: unknown, kind: JsonValueKind, size: number): string {
+  if (kind === 'array') {
+    return `[${size} ${size === 1 ? 'item' : 'items'}]`;
+  }
+  if (kind === 'object') {
+    return `{${size} ${size === 1 ? 'key' : 'keys'}}`;
+  }
+
+  const text = kind === 'string' ? JSON.stringify(value) : String(value ?? null);
+  return text.length > MAX_PREVIEW_CHARS ? `${text.slice(0, MAX_PREVIEW_CHARS)}…` : text;
+}
+
+function bracketPath(segments: Array<string | number>): string {
+  return segments
+    .map((segment, index) =>
+      typeof segment === 'number'
+        ? `[${segment}]`
+        : /^[A-Za-z_$][\w$]*$/.test(segment)
+          ? `${index === 0 ? '' : '.'}${segment}`
+          : `[${JSON.stringify(segment)}]`
+    )
+    .join('');
+}
@@ -0,0 +1,94 @@
+import {
+  findEventIndex,
+  keyboardAction,
+  matchCommands,
+  moveEventIndex,
+  stepEventIndex
+} from './keyboard-shortcuts';
+import { EventView, PaletteCommand } from './log-viewer.model';
+
+function eventView(id: string, levelTone: EventView['levelTone']): EventView {
+  return {
+    uid: `0-${id}`,
+    id,
+    source: 'axp.json',
+    timestamp: '2026-05-01T10:00:00.000Z',
+    time: Date.parse('2026-05-01T10:00:00.000Z'),
+    level: levelTone.toUpperCase(),
+    levelTone,
+    application: 'AgentDesktop',
+    context: 'agent.state',
+    message: 'Agent ready',
+    lineTitle: '',
+    rawValue: {}
+  };
+}
+
+describe('keyboard shortcuts', () => {
+  const press = (key: string, modifiers: Partial<KeyboardEventInit> = {}) => ({
+    key,
+    ctrlKey: false,
+    metaKey: false,
+    altKey: false,
+    ...modifiers
+  });
+
+  it('should map single keys and Ctrl+K, leaving other modified keys to the browser', () => {
+    expect(['j', 'k', 'Enter', '/', 'n', 'N', 'b', 'x'].map((key) => keyboardAction(press(key)))).toEqual([
+      'nextEvent',
+      'previousEvent',
+      'toggleDetails',
+      'focusSearch',
+      'nextError',
+      'previousError',
+      'toggleBookmark',
+      null
+    ]);
+    expect(keyboardAction(press('k', { ctrlKey: true }))).toBe('openPalette');
+    expect(keyboardAction(press('K', { metaKey: true }))).toBe('openPalette');
+    expect(keyboardAction(press('j', { ctrlKey: true }))).toBeNull();
+    expect(keyboardAction(press('b', { altKey: true }))).toBeNull();
+  });
+
+  it('should step through the list without leaving it', () => {
+    expect(stepEventIndex(0, -1, 1)).toBe(-1);
+    expect(stepEventIndex(5, -1, 1)).toBe(0);
+    expect(stepEventIndex(5, -1, -1)).toBe(4);
+    expect(stepEventIndex(5, 2, 1)).toBe(3);
+    expect(stepEventIndex(5, 4, 1)).toBe(4);
+    expect(stepEventIndex(5, 0, -1)).toBe(0);
+  });
+
+  it('should find the next and previous error, wrapping around the list', () => {
+    const events = ['info', 'error', 'info', 'error', 'warning'].map((tone, index) =>
+      eventView(String(index), tone as EventView['levelTone'])
+    );
+    const isError = (event: EventView) => event.levelTone === 'error';
+
+    expect(findEventIndex(events, -1, 1, isError)).toBe(1);
+    expect(findEventIndex(events, -1, -1, isError)).toBe(3);
+    expect(findEventIndex(events, 1, 1, isError)).toBe(3);
+    expect(findEventIndex(events, 3, 1, isError)).toBe(1);
+    expect(findEventIndex(events, 1, -1, isError)).toBe(3);
+    expect(findEventIndex(events.slice(0, 2), 1, 1, isError)).toBe(-1);
+    expect(findEventIndex([], -1, 1, isError)).toBe(-1);
+    expect(moveEventIndex(events, 1, 'nextEvent')).toBe(2);
+    expect(moveEventIndex(events, 1, 'previousEvent')).toBe(0);
+    expect(moveEventIndex(events, 1, 'nextError')).toBe(3);
+    expect(moveEventIndex(events, 0, 'previousError')).toBe(3);
+  });
+
+  it('should match every query word against the group and label', () => {
+    const command = (group: string, label: string): PaletteCommand => ({ id: label, group, label, run: () => {} });
+    const commands = [
+      command('Level filter', 'Show ERROR'),
+      command('Level filter', 'Show INFO'),
+      command('Events', 'Next error')
+    ];
+
+    expect(matchCommands(commands, '').length).toBe(3);
+    expect(matchCommands(commands, 'error').map((match) => match.id)).toEqual(['Show ERROR', 'Next error']);
+    expect(matchCommands(commands, ' level  ERR ').map((match) => match.id)).toEqual(['Show ERROR']);
+    expect(matchCommands(commands, 'context')).toEqual([]);
+  });
+});
@@ -0,0 +1,145 @@
+import { EventView, PaletteCommand } from './log-viewer.model';
+
+export type KeyboardAction =
+  | 'nextEvent'
+  | 'previousEvent'
+  | 'toggleDetails'
+  | 'focusSearch'
+  | 'nextError'
+  | 'previousError'
+  | 'toggleBookmark'
+  | 'openPalette';
+
+/** The actions that work on the viewer itself; the palette key opens the palette instead. */
+export type ViewerShortcut = Exclude<KeyboardAction, 'openPalette'>;
+
+/** The parts of a `KeyboardEvent` the shortcuts depend on. */
+export interface KeyPress {
+  key: string;
+  ctrlKey: boolean;
+  metaKey: boolean;
+  altKey: boolean;
+}
+
+/** Keys as shown in the command palette. */
+export const KEYBOARD_SHORTCUTS: Record<KeyboardAction, string> = {
+  nextEvent: 'j',
+  previousEvent: 'k',
+  toggleDetails: 'Enter',
+  focusSearch: '/',
+  nextError: 'n',
+  previousError: 'Shift+N',
+  toggleBookmark: 'b',
+  openPalette: 'Ctrl+K'
+};
+
+/** Inputs that do not take typed text, so the single-key shortcuts still work while they have focus. */
+const NON_TEXT_INPUT_TYPES = new Set(['checkbox', 'radio', 'button', 'submit', 'reset', 'file', 'range', 'color']);
+
+const SINGLE_KEY_ACTIONS: Record<string, KeyboardAction> = {
+  j: 'nextEvent',
+  k: 'previousEvent',
+  Enter: 'toggleDetails',
+  '/': 'focusSearch',
+  n: 'nextError',
+  N: 'previousError',
+  b: 'toggleBookmark'
+};
+
+/**
+ * Maps a key press to a viewer action. `Ctrl+K` (`⌘K` on macOS) opens the command palette; the other
+ * shortcuts are single keys and do not fire with Ctrl, Alt or Meta held, so browser shortcuts keep working.
+ */
+export function keyboardAction(press: KeyPress): KeyboardAction | null {
+  if ((press.ctrlKey || press.metaKey) && !press.altKey && press.key.toLowerCase() === 'k') {
+    return 'openPalette';
+  }
+  if (press.ctrlKey || press.metaKey || press.altKey) {
+    return null;
+  }
+
+  return SINGLE_KEY_ACTIONS[press.key] ?? null;
+}
+
+/** Whether the focused element handles the key itself: text fields always, buttons and links for Enter. */
+export function handlesOwnKey(target: EventTarget | null, action: KeyboardAction): boolean {
+  if (!(target instanceof HTMLElement)) {
+    return false;
+  }
+  if (target.isContentEditable || target.closest('textarea, select')) {
+    return true;
+  }
+  if (target instanceof HTMLInputElement && !NON_TEXT_INPUT_TYPES.has(target.type)) {
+    return true;
+  }
+
+  return action === 'toggleDetails' && target.closest('button, a, summary') !== null;
+}
+
+/**
+ * Index of the event `step` rows away from `index`, kept inside the list. Without a current event the
+ * first event is picked going down and the last going up; -1 for an empty list.
+ */
+export function stepEventIndex(count: number, index: number, step: 1 | -1): number {
+  if (count === 0) {
+    return -1;
+  }
+  if (index < 0) {
+    return step > 0 ? 0 : count - 1;
+  }
+
+  return Math.min(count - 1, Math.max(0, index + step));
+}
+
+/**
+ * Index of the next (or previous) event after `index` that matches, wrapping around the end of the list
+ * like a text search; -1 when no other event matches.
+ */
+export function findEventIndex(
+  events: EventView[],
+  index: number,
+  step: 1 | -1,
+  matches: (event: EventView) => boolean
+): number {
+  const count = events.length;
+  const start = index < 0 ? (step > 0 ? -1 : count) : index;
+
+  for (let offset = 1; offset <= count; offset += 1) {
+    const candidate = (((start + offset * step) % count) + count) % count;
+    if (candidate !== index && matches(events[candidate])) {
+      return candidate;
+    }
+  }
+
+  return -1;
+}
+
+/** Index of the event a movement shortcut goes to in `events`, or -1 when there is none. */
+export function moveEventIndex(
+  events: EventView[],
+  index: number,
+  action: 'nextEvent' | 'previousEvent' | 'nextError' | 'previousError'
+): number {
+  const step = action === 'nextEvent' || action === 'nextError' ? 1 : -1;
+  if (action === 'nextEvent' || action === 'previousEvent') {
+    return stepEventIndex(events.length, index, step);
+  }
+
+  return findEventIndex(events, index, step, (event) => event.levelTone === 'error');
+}
+
+/**
+ * Commands whose group and label contain every word of the query, in their original order; an empty
+ * query keeps them all.
+ */
+export function matchCommands(commands: PaletteCommand[], query: string): PaletteCommand[] {
+  const words = query.toLowerCase().split(/\s+/).filter((word) => word.length > 0);
+  if (words.length === 0) {
+    return commands;
+  }
+
+  return commands.filter((command) => {
+    const text = `${command.group} ${command.label}`.toLowerCase();
+    return words.every((word) => text.includes(word));
+  });
+}
@@ -0,0 +1,46 @@
+import { Injectable } from '@angular/core';
+
+import { BUILT_IN_LINE_PARSERS, compileLineParser } from './line-parsers';
+import { readStoredJson, writeStoredJson } from './local-storage';
+import { LineParserDefinition } from './log-viewer.model';
+
+const STORAGE_KEY = 'ws-log-viewer.line-parsers';
+
+/** User-defined text log formats, kept in local storage so they survive reloads. */
+@Injectable({ providedIn: 'root' })
+export class LineParserSettingsService {
+  readonly builtInParsers = BUILT_IN_LINE_PARSERS;
+  userParsers: LineParserDefinition[] = this.load();
+
+  /** Validates and stores a new format; throws with a readable message when the pattern is unusable. */
+  add(name: string, pattern: string): void {
+    const definition: LineParserDefinition = {
+      id: `user-${Date.now().toString(36)}`,
+      name: name.trim() || 'Custom format',
+      pattern
+    };
+    compileLineParser(definition);
+
+    this.userParsers = [...this.userParsers, definition];
+    this.save();
+  }
+
+  remove(id: string): void {
+    this.userParsers = this.userParsers.filter((definition) => definition.id !== id);
+    this.save();
+  }
+
+  private load(): LineParserDefinition[] {
+    const stored = readStoredJson(STORAGE_KEY);
+    return Array.isArray(stored)
+      ? stored.filter(
+          (entry): entry is LineParserDefinition =>
+            typeof entry?.id === 'string' && typeof entry?.name === 'string' && typeof entry?.pattern === 'string'
+        )
+      : [];
+  }
+
+  private save(): void {
+    writeStoredJson(STORAGE_KEY, this.userParsers);
+  }
+}
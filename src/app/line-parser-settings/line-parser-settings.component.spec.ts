@@ -0,0 +1,34 @@
+import { TestBed } from '@angular/core/testing';
+
+import { LineParserSettingsComponent } from './line-parser-settings.component';
+
+describe('LineParserSettingsComponent', () => {
+  beforeEach(async () => {
+    localStorage.removeItem('ws-log-viewer.line-parsers');
+    await TestBed.configureTestingModule({
+      imports: [LineParserSettingsComponent]
+    }).compileComponents();
+  });
+
+  it('should preview a draft pattern against the sample line', () => {
+    const component = TestBed.createComponent(LineParserSettingsComponent).componentInstance;
+    component.pattern = '^(?<level>\\w+): (?<message>.*)$';
+    component.sampleLine = 'WARN: disk almost full';
+    component.onDraftChange();
+
+    expect(component.error).toBe('');
+    expect(component.preview).toEqual([
+      { field: 'level', value: 'WARN' },
+      { field: 'message', value: 'disk almost full' }
+    ]);
+  });
+
+  it('should keep an invalid pattern out of the saved formats', () => {
+    const component = TestBed.createComponent(LineParserSettingsComponent).componentInstance;
+    component.pattern = '^(?<when>\\S+)';
+    component.addParser();
+
+    expect(component.error).toContain('named group');
+    expect(component.settings.userParsers).toEqual([]);
+  });
+});
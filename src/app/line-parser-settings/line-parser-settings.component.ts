@@ -0,0 +1,59 @@
+import { Component, inject } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+
+import { LineParserSettingsService } from '../line-parser-settings.service';
+import { compileLineParser } from '../line-parsers';
+
+/**
+ * Lists the text log formats tried on non-JSON files and lets the user add their own regular expressions
+ * with named groups, testing them against a sample line first. Changes apply to files opened afterwards.
+ */
+@Component({
+  selector: 'app-line-parser-settings',
+  imports: [FormsModule],
+  templateUrl: './line-parser-settings.component.html',
+  styleUrl: './line-parser-settings.component.css'
+})
+export class LineParserSettingsComponent {
+  readonly settings = inject(LineParserSettingsService);
+
+  name = '';
+  pattern = '';
+  sampleLine = '';
+  error = '';
+  preview: Array<{ field: string; value: string }> | null = null;
+
+  onDraftChange(): void {
+    this.error = '';
+    this.preview = null;
+    if (!this.pattern) {
+      return;
+    }
+
+    try {
+      const parser = compileLineParser({ id: 'draft', name: this.name, pattern: this.pattern });
+      if (this.sampleLine) {
+        const record = parser.parse(this.sampleLine);
+        this.preview = record
+          ? Object.entries(record).map(([field, value]) => ({ field, value: String(value) }))
+          : [];
+      }
+    } catch (error) {
+      this.error = error instanceof Error ? error.message : 'Invalid pattern';
+    }
+  }
+
+  addParser(): void {
+    try {
+      this.settings.add(this.name, this.pattern);
+    } catch (error) {
+      this.error = error instanceof Error ? error.message : 'Invalid pattern';
+      return;
+    }
+
+    this.name = '';
+    this.pattern = '';
+    this.sampleLine = '';
+    this.preview = null;
+  }
+}
@@ -0,0 +1,47 @@
+import { BUILT_IN_LINE_PARSERS, compileLineParser, compileLineParsers, detectLineParser } from './line-parsers';
+
+describe('line parsers', () => {
+  it('should parse the built-in text formats', () => {
+    const [bracketed, levelAfterTimestamp, console] = BUILT_IN_LINE_PARSERS.map(compileLineParser);
+
+    expect(bracketed.parse('2026-05-01T10:00:00Z [ERROR] [AgentService] Socket closed')).toEqual({
+      timestamp: '2026-05-01T10:00:00Z',
+      level: 'ERROR',
+      context: 'AgentService',
+      message: 'Socket closed'
+    });
+    expect(
+      levelAfterTimestamp.parse('2026-05-01 10:00:00,250 WARN [main] com.axp.Login - Retrying')
+    ).toEqual({
+      timestamp: '2026-05-01 10:00:00.250',
+      level: 'WARN',
+      context: 'main',
+      application: 'com.axp.Login',
+      message: 'Retrying'
+    });
+    expect(console.parse('10:00:00.123 main.js:42 Agent ready')).toEqual({
+      level: 'LOG',
+      application: 'console',
+      timestamp: '10:00:00.123',
+      context: 'main.js:42',
+      message: 'Agent ready'
+    });
+    expect(console.parse('    at foo (main.js:1:2)')).toBeNull();
+  });
+
+  it('should reject invalid patterns and patterns without field groups', () => {
+    expect(() => compileLineParser({ id: 'x', name: 'x', pattern: '(' })).toThrowError(/Invalid pattern/);
+    expect(() => compileLineParser({ id: 'x', name: 'x', pattern: '^(?<when>\\S+)' })).toThrowError(
+      /named group/
+    );
+  });
+
+  it('should detect the parser matching most sample lines, including user patterns', () => {
+    const user = { id: 'u', name: 'Pipes', pattern: '^(?<level>\\w+)\\|(?<message>.*)$' };
+    const parsers = compileLineParsers([user, { id: 'bad', name: 'bad', pattern: '(' }]);
+
+    expect(parsers.length).toBe(BUILT_IN_LINE_PARSERS.length + 1);
+    expect(detectLineParser('INFO|ready\nERROR|failed\n', parsers)?.definition.id).toBe('u');
+    expect(detectLineParser('just some prose\nwithout structure', parsers)).toBeNull();
+  });
+});
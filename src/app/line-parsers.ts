@@ -0,0 +1,116 @@
+import { LineField, LineParserDefinition } from './log-viewer.model';
+
+export const LINE_FIELDS: LineField[] = ['timestamp', 'level', 'application', 'context', 'message'];
+
+const ISO_TIMESTAMP = String.raw`\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:[.,]\d+)?(?:Z|[+-]\d{2}:?\d{2})?`;
+const DETECTION_SAMPLE_LINES = 50;
+const MIN_DETECTION_RATIO = 0.3;
+
+/** Text formats tried on every non-JSON file, in order of preference when several match equally well. */
+export const BUILT_IN_LINE_PARSERS: LineParserDefinition[] = [
+  {
+    id: 'bracketed',
+    name: 'Timestamp [LEVEL] [Context] message',
+    pattern: String.raw`^(?<timestamp>${ISO_TIMESTAMP})\s+\[(?<level>[A-Za-z]+)\]\s+(?:\[(?<context>[^\]]*)\]\s*)?(?<message>.*)$`
+  },
+  {
+    id: 'level-after-timestamp',
+    name: 'Timestamp LEVEL [thread] logger - message',
+    pattern: String.raw`^(?<timestamp>${ISO_TIMESTAMP})\s+(?<level>TRACE|DEBUG|INFO|WARN|WARNING|ERROR|FATAL|CRITICAL)\s+(?:\[(?<context>[^\]]*)\]\s+)?(?:(?<application>[\w.$]+)\s+-\s+)?(?<message>.*)$`
+  },
+  {
+    id: 'chrome-console',
+    name: 'Chrome console (saved log)',
+    pattern: String.raw`^(?:(?<timestamp>(?:\d{4}-\d{2}-\d{2}[T ])?\d{2}:\d{2}:\d{2}\.\d{3})\s+)?(?<context>\S+?:\d+(?::\d+)?)\s+(?<message>.*)$`,
+    defaults: { level: 'LOG', application: 'console' }
+  }
+];
+
+export interface LineParser {
+  readonly definition: LineParserDefinition;
+  /** Returns the event record for a matching line, or `null` when the line does not match. */
+  parse(line: string): Record<string, unknown> | null;
+}
+
+/**
+ * Compiles a line parser definition. Every named group ends up on the record; the ones named after a
+ * {@link LineField} feed the matching event column, and a line without a `message` group uses the whole
+ * line as its message. Throws when the pattern is not a valid regular expression or captures no field.
+ */
+export function compileLineParser(definition: LineParserDefinition): LineParser {
+  let regex: RegExp;
+  try {
+    regex = new RegExp(definition.pattern);
+  } catch (error) {
+    throw new Error(`Invalid pattern: ${error instanceof Error ? error.message : 'unknown error'}`);
+  }
+
+  // The empty alternative always matches, exposing every named group of the pattern.
+  const groupNames = Object.keys(new RegExp(`(?:${definition.pattern})|`).exec('')?.groups ?? {});
+  if (!LINE_FIELDS.some((field) => groupNames.includes(field))) {
+    throw new Error(`The pattern needs at least one named group: ${LINE_FIELDS.join(', ')}.`);
+  }
+
+  return {
+    definition,
+    parse: (line) => {
+      const match = regex.exec(line);
+      if (!match) {
+        return null;
+      }
+
+      const record: Record<string, unknown> = { ...definition.defaults };
+      for (const [name, value] of Object.entries(match.groups ?? {})) {
+        if (value !== undefined && value !== '') {
+          record[name] = value;
+        }
+      }
+
+      if (typeof record['timestamp'] === 'string') {
+        // `10:00:00,123` (log4j style) is not understood by Date.parse.
+        record['timestamp'] = record['timestamp'].replace(/(\d{2}:\d{2}:\d{2}),(\d+)/, '$1.$2');
+      }
+      record['message'] ??= line;
+
+      return record;
+    }
+  };
+}
+
+/** Compiles the built-in parsers followed by the valid user-defined ones. */
+export function compileLineParsers(userDefinitions: LineParserDefinition[] = []): LineParser[] {
+  const parsers: LineParser[] = [];
+  for (const definition of [...BUILT_IN_LINE_PARSERS, ...userDefinitions]) {
+    try {
+      parsers.push(compileLineParser(definition));
+    } catch {
+      // Invalid user patterns are rejected when they are saved; a stale one is simply not offered.
+    }
+  }
+
+  return parsers;
+}
+
+/**
+ * Picks the parser matching the most of the first lines of a file. Unmatched lines are allowed (stack
+ * traces, wrapped messages), but at least a third of the sampled lines must match.
+ */
+export function detectLineParser(text: string, parsers: LineParser[]): LineParser | null {
+  const lines = text
+    .split('\n')
+    .slice(0, DETECTION_SAMPLE_LINES)
+    .map((line) => line.replace(/\r$/, ''))
+    .filter((line) => line.trim());
+
+  let best: LineParser | null = null;
+  let bestCount = 0;
+  for (const parser of parsers) {
+    const count = lines.filter((line) => parser.parse(line)).length;
+    if (count > bestCount) {
+      best = parser;
+      bestCount = count;
+    }
+  }
+
+  return bestCount > 0 && bestCount >= lines.length * MIN_DETECTION_RATIO ? best : null;
+}
@@ -0,0 +1,143 @@
+import { Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
+
+import { DEFAULT_LIVE_TAIL_SETTINGS, LiveEventDecoder, liveTailProtocol, normalizeBufferSize } from './live-tail';
+import { readStoredJson, writeStoredJson } from './local-storage';
+import { EventView, LiveTailSettings, LogParseOptions } from './log-viewer.model';
+
+const STORAGE_KEY = 'ws-log-viewer.live-tail';
+/** Events received within this window are handed to the viewer as one batch. */
+const FLUSH_INTERVAL_MS = 200;
+
+export type LiveTailStatus = 'idle' | 'connecting' | 'open' | 'reconnecting';
+
+/**
+ * Connects to a local live log feed over WebSocket or Server-Sent Events. The last used feed is kept in
+ * local storage; `status` describes the current connection for the UI.
+ */
+@Injectable({ providedIn: 'root' })
+export class LiveTailService {
+  settings: LiveTailSettings = this.load();
+  status: LiveTailStatus = 'idle';
+
+  /** Validates and stores the feed settings; throws with a readable message when the URL is unusable. */
+  saveSettings(settings: LiveTailSettings): LiveTailSettings {
+    liveTailProtocol(settings.url);
+    this.settings = { url: settings.url.trim(), bufferSize: normalizeBufferSize(settings.bufferSize) };
+    writeStoredJson(STORAGE_KEY, this.settings);
+    return this.settings;
+  }
+
+  /**
+   * Tails a feed. The stream emits batches of events normalized like opened files, errors when the
+   * connection cannot be made or drops, and completes when a WebSocket server closes it cleanly;
+   * unsubscribing disconnects. Server-Sent Events reconnect on their own until unsubscribed.
+   */
+  connect(url: string, options: LogParseOptions = {}): Observable<EventView[]> {
+    return new Observable<EventView[]>((subscriber) => {
+      const decoder = new LiveEventDecoder(options);
+      let pending: EventView[] = [];
+      let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+      const flush = (): void => {
+        flushTimer = null;
+        if (pending.length > 0) {
+          subscriber.next(pending);
+          pending = [];
+        }
+      };
+      const receive = (payload: string): void => {
+        pending = pending.concat(decoder.decode(payload));
+        flushTimer ??= setTimeout(flush, FLUSH_INTERVAL_MS);
+      };
+      const finish = (error?: Error): void => {
+        if (flushTimer) {
+          clearTimeout(flushTimer);
+        }
+        flush();
+        this.status = 'idle';
+        if (error) {
+          subscriber.error(error);
+        } else {
+          subscriber.complete();
+        }
+      };
+
+      this.status = 'connecting';
+      const close =
+        liveTailProtocol(url) === 'websocket'
+          ? this.openWebSocket(url, receive, finish)
+          : this.openEventSource(url, receive, finish);
+
+      return () => {
+        if (flushTimer) {
+          clearTimeout(flushTimer);
+        }
+        close();
+        this.status = 'idle';
+      };
+    });
+  }
+
+  private openWebSocket(
+    url: string,
+    receive: (payload: string) => void,
+    finish: (error?: Error) => void
+  ): () => void {
+    const socket = new WebSocket(url);
+    const textDecoder = new TextDecoder();
+    let opened = false;
+    socket.binaryType = 'arraybuffer';
+
+    socket.onopen = () => {
+      opened = true;
+      this.status = 'open';
+    };
+    socket.onmessage = ({ data }: MessageEvent<string | ArrayBuffer>) =>
+      receive(typeof data === 'string' ? data : textDecoder.decode(data));
+    // The close event that follows an error carries the details.
+    socket.onclose = (event) => {
+      if (!opened) {
+        finish(new Error(`Could not connect to ${url}.`));
+      } else if (!event.wasClean) {
+        finish(new Error(`The connection to ${url} dropped (code ${event.code}).`));
+      } else {
+        finish();
+      }
+    };
+
+    return () => {
+      socket.onclose = null;
+      socket.close();
+    };
+  }
+
+  private openEventSource(
+    url: string,
+    receive: (payload: string) => void,
+    finish: (error?: Error) => void
+  ): () => void {
+    const source = new EventSource(url);
+
+    source.onopen = () => (this.status = 'open');
+    source.onmessage = ({ data }: MessageEvent<string>) => receive(data);
+    source.onerror = () => {
+      // The browser retries a dropped stream by itself; it only gives up when the server refuses it.
+      if (source.readyState === EventSource.CLOSED) {
+        finish(new Error(`Could not connect to ${url}.`));
+      } else {
+        this.status = 'reconnecting';
+      }
+    };
+
+    return () => source.close();
+  }
+
+  private load(): LiveTailSettings {
+    const stored = readStoredJson(STORAGE_KEY) as Partial<LiveTailSettings> | null;
+    return {
+      url: typeof stored?.url === 'string' ? stored.url : DEFAULT_LIVE_TAIL_SETTINGS.url,
+      bufferSize: normalizeBufferSize(Number(stored?.bufferSize ?? DEFAULT_LIVE_TAIL_SETTINGS.bufferSize))
+    };
+  }
+}
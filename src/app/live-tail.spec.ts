@@ -0,0 +1,70 @@
+import { EventRingBuffer, LiveEventDecoder, liveTailProtocol, normalizeBufferSize } from './live-tail';
+import { EventView } from './log-viewer.model';
+
+function eventView(id: string): EventView {
+  return {
+    uid: `live:${id}`,
+    id,
+    source: 'feed',
+    timestamp: '-',
+    time: null,
+    level: 'INFO',
+    levelTone: 'info',
+    application: 'app',
+    context: 'ctx',
+    message: id,
+    lineTitle: '',
+    rawValue: {}
+  };
+}
+
+describe('live tail', () => {
+  it('should pick the transport from the URL scheme', () => {
+    expect(liveTailProtocol('ws://localhost:8787/')).toBe('websocket');
+    expect(liveTailProtocol('wss://desktop.local/logs')).toBe('websocket');
+    expect(liveTailProtocol('http://localhost:8787/events')).toBe('sse');
+    expect(() => liveTailProtocol('file:///tmp/log.json')).toThrowError(/ws:\/\//);
+    expect(() => liveTailProtocol('localhost')).toThrowError(/not a valid URL/);
+  });
+
+  it('should clamp the buffer size', () => {
+    expect(normalizeBufferSize(12.4)).toBe(100);
+    expect(normalizeBufferSize(2500.6)).toBe(2501);
+    expect(normalizeBufferSize(Number.NaN)).toBe(10000);
+  });
+
+  it('should decode JSON records, arrays, NDJSON and text lines into events', () => {
+    const decoder = new LiveEventDecoder({ sourceKey: 's3', sourceName: 'ws://localhost:8787/' });
+
+    const single = decoder.decode('{"id":"a","timestamp":"2026-05-01T10:00:00Z","level":"error","message":"boom"}');
+    const batch = decoder.decode('[{"id":"b","message":"one"},{"id":"c","message":"two"}]');
+    const lines = decoder.decode('{"id":"d","message":"three"}\r\n2026-05-01 10:00:01,250 WARN [main] slow reply\n');
+    const plain = decoder.decode('something unstructured');
+
+    expect(single[0]).toEqual(
+      jasmine.objectContaining({ uid: 's3:0-a', level: 'ERROR', message: 'boom', source: 'ws://localhost:8787/' })
+    );
+    expect(batch.map((event) => event.uid)).toEqual(['s3:1-b', 's3:2-c']);
+    expect(lines.map((event) => event.message)).toEqual(['three', 'slow reply']);
+    expect(lines[1].level).toBe('WARNING');
+    expect(plain[0].message).toBe('something unstructured');
+  });
+
+  it('should keep the newest events and hand back the ones pushed out', () => {
+    const buffer = new EventRingBuffer(3);
+
+    expect(buffer.push([eventView('1'), eventView('2')])).toEqual([]);
+    expect(buffer.push([eventView('3'), eventView('4'), eventView('5')]).map((event) => event.id)).toEqual([
+      '1',
+      '2'
+    ]);
+    expect(buffer.size).toBe(3);
+    expect(buffer.toArray().map((event) => event.id)).toEqual(['3', '4', '5']);
+    expect(buffer.push([eventView('6'), eventView('7'), eventView('8'), eventView('9')]).map((e) => e.id)).toEqual([
+      '3',
+      '4',
+      '5',
+      '6'
+    ]);
+  });
+});
@@ -0,0 +1,161 @@
+import { LineParser, compileLineParsers } from './line-parsers';
+import { LogNormalizer } from './log-normalizer';
+import { EventView, FieldMappingProfile, LiveTailSettings, LogParseOptions } from './log-viewer.model';
+import { DEFAULT_MAPPING_PROFILE, detectMappingProfile } from './mapping-profiles';
+
+export type LiveTailProtocol = 'websocket' | 'sse';
+
+export const MIN_LIVE_BUFFER_SIZE = 100;
+export const MAX_LIVE_BUFFER_SIZE = 1000000;
+
+export const DEFAULT_LIVE_TAIL_SETTINGS: LiveTailSettings = {
+  url: 'ws://localhost:8787/',
+  bufferSize: 10000
+};
+
+/** `ws://`/`wss://` feeds are WebSockets, `http://`/`https://` ones Server-Sent Events; throws for anything else. */
+export function liveTailProtocol(url: string): LiveTailProtocol {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    throw new Error(`"${url}" is not a valid URL.`);
+  }
+
+  if (parsed.protocol === 'ws:' || parsed.protocol === 'wss:') {
+    return 'websocket';
+  }
+  if (parsed.protocol === 'http:' || parsed.protocol === 'https:') {
+    return 'sse';
+  }
+
+  throw new Error(`Use a ws://, wss://, http:// or https:// URL, not ${parsed.protocol}//.`);
+}
+
+/** Clamps a buffer size to a whole number of events the viewer can hold. */
+export function normalizeBufferSize(value: number): number {
+  if (!Number.isFinite(value)) {
+    return DEFAULT_LIVE_TAIL_SETTINGS.bufferSize;
+  }
+
+  return Math.min(MAX_LIVE_BUFFER_SIZE, Math.max(MIN_LIVE_BUFFER_SIZE, Math.round(value)));
+}
+
+/**
+ * Turns the payloads of a live feed into events with the same normalization as opened files. A payload can
+ * be one JSON record, a JSON array of records, or lines that are each a JSON record or a text log line;
+ * text lines no line parser recognizes become events with the whole line as their message. The mapping
+ * profile is picked from the records of the first payload.
+ */
+export class LiveEventDecoder {
+  private readonly normalizer: LogNormalizer;
+  private readonly profiles: FieldMappingProfile[];
+  private readonly lineParsers: LineParser[];
+  private profileResolved: boolean;
+  private index = 0;
+
+  constructor(private readonly options: LogParseOptions = {}) {
+    this.profiles = options.mappingProfiles?.length ? options.mappingProfiles : [DEFAULT_MAPPING_PROFILE];
+    this.normalizer = new LogNormalizer(this.profiles[0]);
+    this.profileResolved = this.profiles.length === 1;
+    this.lineParsers = compileLineParsers(options.lineParsers);
+  }
+
+  /** Name of the field mapping profile in use, once the first records have been seen. */
+  get profileName(): string {
+    return this.profileResolved ? this.normalizer.profileName : '';
+  }
+
+  decode(payload: string): EventView[] {
+    const records = this.toRecords(payload);
+    if (!this.profileResolved && records.length > 0) {
+      this.normalizer.useProfile(detectMappingProfile(records, this.profiles));
+      this.profileResolved = true;
+    }
+
+    const { sourceKey = '', sourceName = '' } = this.options;
+    return records.map((record) => this.normalizer.toEventView(record, this.index++, sourceKey, sourceName));
+  }
+
+  private toRecords(payload: string): unknown[] {
+    const whole = parseRecord(payload);
+    if (whole !== undefined) {
+      return Array.isArray(whole) ? whole : [whole];
+    }
+
+    return payload
+      .split('\n')
+      .map((line) => line.replace(/\r$/, ''))
+      .filter((line) => line.trim())
+      .map((line) => parseRecord(line) ?? this.parseLine(line));
+  }
+
+  private parseLine(line: string): Record<string, unknown> {
+    for (const parser of this.lineParsers) {
+      const record = parser.parse(line);
+      if (record) {
+        return record;
+      }
+    }
+
+    return { message: line.trim() };
+  }
+}
+
+/**
+ * Fixed-capacity buffer of the newest live events. Pushing past the capacity overwrites the oldest events,
+ * which are handed back so the viewer can drop them too.
+ */
+export class EventRingBuffer {
+  private readonly slots: Array<EventView | undefined>;
+  private start = 0;
+  private count = 0;
+
+  constructor(readonly capacity: number) {
+    this.slots = new Array<EventView | undefined>(capacity);
+  }
+
+  get size(): number {
+    return this.count;
+  }
+
+  /** Adds events in order and returns the ones pushed out, oldest first; these can include added events. */
+  push(events: EventView[]): EventView[] {
+    const evicted: EventView[] = [];
+    for (const event of events) {
+      if (this.count < this.capacity) {
+        this.slots[(this.start + this.count) % this.capacity] = event;
+        this.count += 1;
+        continue;
+      }
+
+      evicted.push(this.slots[this.start] as EventView);
+      this.slots[this.start] = event;
+      this.start = (this.start + 1) % this.capacity;
+    }
+
+    return evicted;
+  }
+
+  /** The buffered events, oldest first. */
+  toArray(): EventView[] {
+    return Array.from(
+      { length: this.count },
+      (_, offset) => this.slots[(this.start + offset) % this.capacity] as EventView
+    );
+  }
+}
+
+/** A JSON object or array, or `undefined` when the text is not one. */
+function parseRecord(text: string): unknown {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(trimmed) as unknown;
+  } catch {
+    return undefined;
+  }
+}
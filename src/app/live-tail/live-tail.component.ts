@@ -0,0 +1,42 @@
+import { Component, EventEmitter, Input, Output, inject } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+
+import { MAX_LIVE_BUFFER_SIZE, MIN_LIVE_BUFFER_SIZE } from '../live-tail';
+import { LiveTailService } from '../live-tail.service';
+import { LiveTailSettings } from '../log-viewer.model';
+
+/**
+ * Settings and connect button of the live tail. The connection itself belongs to the viewer, which merges
+ * the feed's events into the timeline, so connecting and disconnecting are reported to the parent.
+ */
+@Component({
+  selector: 'app-live-tail',
+  imports: [FormsModule],
+  templateUrl: './live-tail.component.html',
+  styleUrl: './live-tail.component.css'
+})
+export class LiveTailComponent {
+  readonly liveTail = inject(LiveTailService);
+  readonly minBufferSize = MIN_LIVE_BUFFER_SIZE;
+  readonly maxBufferSize = MAX_LIVE_BUFFER_SIZE;
+
+  /** Whether a feed is being tailed. */
+  @Input() connected = false;
+  @Output() connect = new EventEmitter<LiveTailSettings>();
+  @Output() disconnect = new EventEmitter<void>();
+
+  url = this.liveTail.settings.url;
+  bufferSize = this.liveTail.settings.bufferSize;
+  error = '';
+
+  onConnect(): void {
+    try {
+      const settings = this.liveTail.saveSettings({ url: this.url, bufferSize: this.bufferSize });
+      this.bufferSize = settings.bufferSize;
+      this.error = '';
+      this.connect.emit(settings);
+    } catch (error) {
+      this.error = error instanceof Error ? error.message : 'Invalid live feed settings.';
+    }
+  }
+}
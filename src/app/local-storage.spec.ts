@@ -0,0 +1,26 @@
+import { readStoredJson, readStoredText, removeStored, writeStoredJson } from './local-storage';
+
+describe('local storage helpers', () => {
+  const key = 'ws-log-viewer.spec';
+
+  afterEach(() => removeStored(key));
+
+  it('should round-trip JSON values and read missing or invalid ones as null', () => {
+    expect(readStoredJson(key)).toBeNull();
+
+    writeStoredJson(key, { paths: ['data.callId'] });
+    expect(readStoredText(key)).toBe('{"paths":["data.callId"]}');
+    expect(readStoredJson(key)).toEqual({ paths: ['data.callId'] });
+
+    localStorage.setItem(key, '{not json');
+    expect(readStoredJson(key)).toBeNull();
+  });
+
+  it('should keep working when storage is unavailable', () => {
+    spyOn(Storage.prototype, 'getItem').and.throwError('SecurityError');
+    spyOn(Storage.prototype, 'setItem').and.throwError('QuotaExceededError');
+
+    expect(() => writeStoredJson(key, [1])).not.toThrow();
+    expect(readStoredJson(key)).toBeNull();
+  });
+});
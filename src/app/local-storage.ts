@@ -0,0 +1,46 @@
+/**
+ * Local storage access for the settings services. Storage can be unavailable (private mode, disabled
+ * cookies) or full; reads then find nothing and writes are dropped, so settings still apply to the
+ * current session.
+ */
+export function readStoredText(key: string): string | null {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+}
+
+export function writeStoredText(key: string, text: string): void {
+  try {
+    localStorage.setItem(key, text);
+  } catch {
+    // Unavailable or over quota; see above.
+  }
+}
+
+export function removeStored(key: string): void {
+  try {
+    localStorage.removeItem(key);
+  } catch {
+    // Unavailable; nothing to remove.
+  }
+}
+
+/** The parsed value stored under `key`; `null` when nothing is stored or it is not valid JSON. */
+export function readStoredJson(key: string): unknown {
+  const text = readStoredText(key);
+  if (text === null) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return null;
+  }
+}
+
+export function writeStoredJson(key: string, value: unknown): void {
+  writeStoredText(key, JSON.stringify(value));
+}
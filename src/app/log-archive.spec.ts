@@ -0,0 +1,146 @@
+import { detectArchiveKind, extractArchiveEntries, isLogFileName, unpackUploads } from './log-archive';
+
+interface ZipFixtureEntry {
+  path: string;
+  data: Uint8Array;
+  method?: number;
+  size?: number;
+}
+
+const encoder = new TextEncoder();
+
+async function compress(data: Uint8Array, format: CompressionFormat): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** A minimal zip writer; checksums are left at zero because the reader does not verify them. */
+function buildZip(entries: ZipFixtureEntry[]): Uint8Array {
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path);
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(8, entry.method ?? 0, true);
+    local.setUint32(18, entry.data.length, true);
+    local.setUint32(22, entry.size ?? entry.data.length, true);
+    local.setUint16(26, name.length, true);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(10, entry.method ?? 0, true);
+    central.setUint32(20, entry.data.length, true);
+    central.setUint32(24, entry.size ?? entry.data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+
+    locals.push(new Uint8Array(local.buffer), name, entry.data);
+    centrals.push(new Uint8Array(central.buffer), name);
+    offset += 30 + name.length + entry.data.length;
+  }
+
+  const directorySize = centrals.reduce((total, part) => total + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...locals, ...centrals, new Uint8Array(end.buffer)];
+  const zip = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    zip.set(part, position);
+    position += part.length;
+  }
+  return zip;
+}
+
+describe('log archives', () => {
+  const json = encoder.encode('{"events":[{"topic":"a"}]}');
+  const lines = encoder.encode('{"topic":"b"}\n{"topic":"c"}\n');
+
+  it('should recognize archives by content and log files by name', () => {
+    expect(detectArchiveKind(encoder.encode('PK\u0003\u0004'))).toBe('zip');
+    expect(detectArchiveKind(new Uint8Array([0x1f, 0x8b, 8]))).toBe('gzip');
+    expect(detectArchiveKind(json)).toBeNull();
+    expect(['a.json', 'b.NDJSON', 'c.log.gz', 'shot.png', 'notes.md'].map(isLogFileName)).toEqual([
+      true,
+      true,
+      true,
+      false,
+      false
+    ]);
+  });
+
+  it('should list zip entries with sizes and extract stored, deflated and gzipped ones', async () => {
+    const zip = buildZip([
+      { path: 'logs/', data: new Uint8Array() },
+      { path: 'logs/agent.json', data: json },
+      { path: 'logs/events.ndjson', data: await compress(lines, 'deflate-raw'), method: 8, size: lines.length },
+      { path: 'logs/old.log.gz', data: await compress(lines, 'gzip') },
+      { path: 'screenshot.png', data: new Uint8Array([0x89, 0x50]) },
+      { path: '__MACOSX/logs/._agent.json', data: new Uint8Array([0]) },
+      { path: 'other.json', data: json, method: 12 }
+    ]);
+    const uploads = await unpackUploads([new File([zip], 'bundle.zip'), new File([json], 'plain.json')]);
+
+    expect(uploads.files.map((file) => file.name)).toEqual(['plain.json']);
+    expect(uploads.failed).toEqual([]);
+    const entries = uploads.archives[0].entries;
+    expect(entries.map((entry) => [entry.path, entry.size, entry.isLog, entry.unsupported])).toEqual([
+      ['logs/agent.json', json.length, true, ''],
+      ['logs/events.ndjson', lines.length, true, ''],
+      ['logs/old.log.gz', jasmine.any(Number), true, ''],
+      ['screenshot.png', 2, false, ''],
+      ['other.json', json.length, true, 'compressed with method 12']
+    ]);
+
+    const extracted = await extractArchiveEntries(entries.filter((entry) => entry.isLog));
+    expect(extracted.files.map((file) => file.name)).toEqual([
+      'bundle.zip › logs/agent.json',
+      'bundle.zip › logs/events.ndjson',
+      'bundle.zip › logs/old.log'
+    ]);
+    expect(await Promise.all(extracted.files.map((file) => file.text()))).toEqual([
+      '{"events":[{"topic":"a"}]}',
+      '{"topic":"b"}\n{"topic":"c"}\n',
+      '{"topic":"b"}\n{"topic":"c"}\n'
+    ]);
+    expect(extracted.failed).toEqual([
+      { name: 'bundle.zip › other.json', error: 'The entry is compressed with method 12.' }
+    ]);
+  });
+
+  it('should inflate gzipped uploads, including a gzipped zip', async () => {
+    const gzipped = await compress(lines, 'gzip');
+    const zipped = await compress(buildZip([{ path: 'a.json', data: json }]), 'gzip');
+    const uploads = await unpackUploads([
+      new File([gzipped], 'agent.ndjson.gz'),
+      new File([zipped], 'bundle.zip.gz')
+    ]);
+
+    expect(uploads.files.map((file) => file.name)).toEqual(['agent.ndjson']);
+    expect(await uploads.files[0].text()).toBe('{"topic":"b"}\n{"topic":"c"}\n');
+    expect(uploads.archives.map((archive) => [archive.name, archive.entries.length])).toEqual([['bundle.zip', 1]]);
+  });
+
+  it('should report damaged archives without dropping the other uploads', async () => {
+    const truncated = buildZip([{ path: 'a.json', data: json }]).slice(0, 40);
+    const uploads = await unpackUploads([
+      new File([truncated], 'broken.zip'),
+      new File([new Uint8Array([0x1f, 0x8b, 8, 0, 1, 2])], 'broken.json.gz'),
+      new File([json], 'plain.json')
+    ]);
+
+    expect(uploads.files.map((file) => file.name)).toEqual(['plain.json']);
+    expect(uploads.failed).toEqual([
+      { name: 'broken.zip', error: 'The file is not a complete zip archive.' },
+      { name: 'broken.json.gz', error: 'The compressed data is damaged.' }
+    ]);
+  });
+});
@@ -0,0 +1,296 @@
+export interface ArchiveEntry {
+  /** The archive the entry belongs to. */
+  archive: LogArchive;
+  /** Path inside the archive. */
+  path: string;
+  /** Uncompressed size in bytes. */
+  size: number;
+  compressedSize: number;
+  /** Whether the name looks like a log file the viewer can read; other entries are not preselected. */
+  isLog: boolean;
+  /** Why the entry cannot be extracted, or an empty string. */
+  unsupported: string;
+  method: number;
+  localHeaderOffset: number;
+}
+
+export interface LogArchive {
+  name: string;
+  file: Blob;
+  entries: ArchiveEntry[];
+}
+
+export interface UploadFailure {
+  name: string;
+  error: string;
+}
+
+/** Uploads sorted by what happens next: files to parse now, archives to browse first, failures to report. */
+export interface UnpackedUploads {
+  files: File[];
+  archives: LogArchive[];
+  failed: UploadFailure[];
+}
+
+export interface ExtractedEntries {
+  files: File[];
+  failed: UploadFailure[];
+}
+
+const LOG_FILE_NAME = /\.(json|jsonl|ndjson|log|txt)$/i;
+const GZIP_NAME = /\.(gz|gzip)$/i;
+/** Folders and files that archivers add next to the real content. */
+const ARCHIVE_NOISE = /(^|\/)(__MACOSX\/|\._|\.DS_Store$)/;
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END_OF_DIRECTORY = 0x06054b50;
+const ZIP64_END_OF_DIRECTORY = 0x06064b50;
+const ZIP64_LOCATOR = 0x07064b50;
+const ZIP64_EXTRA_FIELD = 0x0001;
+const END_OF_DIRECTORY_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+const ZIP64_LOCATOR_SIZE = 20;
+const ENCRYPTED_FLAG = 0x0001;
+const STORED = 0;
+const DEFLATED = 8;
+
+export type ArchiveKind = 'zip' | 'gzip';
+
+/** Recognizes archives by their magic bytes, so renamed files are still handled. */
+export function detectArchiveKind(head: Uint8Array): ArchiveKind | null {
+  if (head.length >= 4 && head[0] === 0x50 && head[1] === 0x4b && (head[2] === 3 || head[2] === 5)) {
+    return 'zip';
+  }
+  if (head.length >= 2 && head[0] === 0x1f && head[1] === 0x8b) {
+    return 'gzip';
+  }
+
+  return null;
+}
+
+/** Whether a file name looks like something the viewer reads, also when gzipped (`agent.json.gz`). */
+export function isLogFileName(name: string): boolean {
+  return LOG_FILE_NAME.test(name.replace(GZIP_NAME, ''));
+}
+
+/**
+ * Inflates gzipped uploads with `DecompressionStream` and lists zip archives from their central directory,
+ * so the entries to load can be picked first; plain files pass through untouched. A gzipped zip is listed
+ * like any other archive. Never throws: unreadable uploads are returned as failures.
+ */
+export async function unpackUploads(files: File[]): Promise<UnpackedUploads> {
+  const unpacked: UnpackedUploads = { files: [], archives: [], failed: [] };
+
+  for (let file of files) {
+    try {
+      let kind = detectArchiveKind(await readBytes(file, 0, 4));
+      if (kind === 'gzip') {
+        file = await gunzipFile(file);
+        kind = detectArchiveKind(await readBytes(file, 0, 4));
+      }
+
+      if (kind === 'zip') {
+        unpacked.archives.push(await readZipArchive(file));
+      } else {
+        unpacked.files.push(file);
+      }
+    } catch (error) {
+      unpacked.failed.push({ name: file.name, error: errorMessage(error) });
+    }
+  }
+
+  return unpacked;
+}
+
+/**
+ * Extracts entries to files named `<archive> › <path>`; gzipped entries are inflated as well. Entries
+ * that fail are returned as failures while the others are still extracted.
+ */
+export async function extractArchiveEntries(entries: ArchiveEntry[]): Promise<ExtractedEntries> {
+  const extracted: ExtractedEntries = { files: [], failed: [] };
+
+  for (const entry of entries) {
+    const name = `${entry.archive.name} › ${entry.path}`;
+    try {
+      const file = await extractEntry(entry, name);
+      const head = await readBytes(file, 0, 2);
+      extracted.files.push(detectArchiveKind(head) === 'gzip' ? await gunzipFile(file) : file);
+    } catch (error) {
+      extracted.failed.push({ name, error: errorMessage(error) });
+    }
+  }
+
+  return extracted;
+}
+
+/**
+ * Reads the central directory of a zip archive; entries are listed in archive order, without folders.
+ * Only stored and deflated entries can be extracted, which covers what operating systems and common
+ * tools write.
+ */
+export async function readZipArchive(file: File): Promise<LogArchive> {
+  const archive: LogArchive = { name: file.name, file, entries: [] };
+  const { count, offset, size } = await readEndOfDirectory(file);
+  const directory = new DataView(await file.slice(offset, offset + size).arrayBuffer());
+  const decoder = new TextDecoder();
+
+  let position = 0;
+  for (let index = 0; index < count; index += 1) {
+    if (position + 46 > directory.byteLength || directory.getUint32(position, true) !== ZIP_CENTRAL_HEADER) {
+      throw new Error('The zip archive directory is damaged.');
+    }
+
+    const flags = directory.getUint16(position + 8, true);
+    const method = directory.getUint16(position + 10, true);
+    let compressedSize = directory.getUint32(position + 20, true);
+    let size = directory.getUint32(position + 24, true);
+    const nameLength = directory.getUint16(position + 28, true);
+    const extraLength = directory.getUint16(position + 30, true);
+    const commentLength = directory.getUint16(position + 32, true);
+    let localHeaderOffset = directory.getUint32(position + 42, true);
+    const nameStart = position + 46;
+    const path = decoder.decode(new Uint8Array(directory.buffer, nameStart, nameLength));
+
+    // Values too large for 32 bits are stored in the Zip64 extra field, in this order.
+    const extra = findExtraField(directory, nameStart + nameLength, extraLength, ZIP64_EXTRA_FIELD);
+    if (extra) {
+      let field = extra.start;
+      if (size === 0xffffffff && field + 8 <= extra.end) {
+        size = Number(directory.getBigUint64(field, true));
+        field += 8;
+      }
+      if (compressedSize === 0xffffffff && field + 8 <= extra.end) {
+        compressedSize = Number(directory.getBigUint64(field, true));
+        field += 8;
+      }
+      if (localHeaderOffset === 0xffffffff && field + 8 <= extra.end) {
+        localHeaderOffset = Number(directory.getBigUint64(field, true));
+      }
+    }
+
+    position = nameStart + nameLength + extraLength + commentLength;
+    if (path.endsWith('/') || ARCHIVE_NOISE.test(path)) {
+      continue;
+    }
+
+    archive.entries.push({
+      archive,
+      path,
+      size,
+      compressedSize,
+      isLog: isLogFileName(path),
+      unsupported: unsupportedReason(flags, method),
+      method,
+      localHeaderOffset
+    });
+  }
+
+  return archive;
+}
+
+async function readEndOfDirectory(file: File): Promise<{ count: number; offset: number; size: number }> {
+  const tailStart = Math.max(0, file.size - END_OF_DIRECTORY_SIZE - MAX_COMMENT_SIZE - ZIP64_LOCATOR_SIZE);
+  const tail = new DataView(await file.slice(tailStart).arrayBuffer());
+
+  for (let position = tail.byteLength - END_OF_DIRECTORY_SIZE; position >= 0; position -= 1) {
+    if (tail.getUint32(position, true) !== ZIP_END_OF_DIRECTORY) {
+      continue;
+    }
+
+    const count = tail.getUint16(position + 10, true);
+    const size = tail.getUint32(position + 12, true);
+    const offset = tail.getUint32(position + 16, true);
+    const locator = position - ZIP64_LOCATOR_SIZE;
+    if (locator >= 0 && tail.getUint32(locator, true) === ZIP64_LOCATOR) {
+      const zip64Offset = Number(tail.getBigUint64(locator + 8, true));
+      const zip64 = new DataView(await file.slice(zip64Offset, zip64Offset + 56).arrayBuffer());
+      if (zip64.byteLength < 56 || zip64.getUint32(0, true) !== ZIP64_END_OF_DIRECTORY) {
+        throw new Error('The zip archive directory is damaged.');
+      }
+      return {
+        count: Number(zip64.getBigUint64(32, true)),
+        size: Number(zip64.getBigUint64(40, true)),
+        offset: Number(zip64.getBigUint64(48, true))
+      };
+    }
+
+    return { count, offset, size };
+  }
+
+  throw new Error('The file is not a complete zip archive.');
+}
+
+function unsupportedReason(flags: number, method: number): string {
+  if (flags & ENCRYPTED_FLAG) {
+    return 'encrypted';
+  }
+  if (method !== STORED && method !== DEFLATED) {
+    return `compressed with method ${method}`;
+  }
+
+  return '';
+}
+
+function findExtraField(
+  view: DataView,
+  start: number,
+  length: number,
+  id: number
+): { start: number; end: number } | null {
+  for (let position = start; position + 4 <= start + length; ) {
+    const fieldId = view.getUint16(position, true);
+    const fieldLength = view.getUint16(position + 2, true);
+    if (fieldId === id) {
+      return { start: position + 4, end: Math.min(position + 4 + fieldLength, start + length) };
+    }
+    position += 4 + fieldLength;
+  }
+
+  return null;
+}
+
+async function extractEntry(entry: ArchiveEntry, name: string): Promise<File> {
+  if (entry.unsupported) {
+    throw new Error(`The entry is ${entry.unsupported}.`);
+  }
+
+  const { file } = entry.archive;
+  const header = new DataView(await file.slice(entry.localHeaderOffset, entry.localHeaderOffset + 30).arrayBuffer());
+  if (header.byteLength < 30 || header.getUint32(0, true) !== ZIP_LOCAL_HEADER) {
+    throw new Error('The zip entry is damaged.');
+  }
+
+  const dataStart = entry.localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+  const data = file.slice(dataStart, dataStart + entry.compressedSize);
+  if (entry.method === STORED) {
+    return new File([data], name);
+  }
+
+  return new File([await inflate(data, 'deflate-raw')], name);
+}
+
+/** Inflates a gzipped file; the name loses its `.gz` suffix so the format is detected from the rest. */
+export async function gunzipFile(file: File): Promise<File> {
+  return new File([await inflate(file, 'gzip')], file.name.replace(GZIP_NAME, ''));
+}
+
+async function inflate(data: Blob, format: CompressionFormat): Promise<Blob> {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('This browser cannot decompress files.');
+  }
+
+  try {
+    return await new Response(data.stream().pipeThrough(new DecompressionStream(format))).blob();
+  } catch {
+    throw new Error('The compressed data is damaged.');
+  }
+}
+
+async function readBytes(blob: Blob, start: number, end: number): Promise<Uint8Array> {
+  return new Uint8Array(await blob.slice(start, end).arrayBuffer());
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'unknown error';
+}
@@ -0,0 +1,128 @@
+import { compareDistributions, diffMetadata, flattenMetadata } from './log-compare';
+import { EventView, LogDocumentSummary, PrettyMetadataBlock } from './log-viewer.model';
+
+function block(key: string, rawValue: unknown): PrettyMetadataBlock {
+  return { key, title: key, subtitle: '', facts: [], highlights: [], rawValue };
+}
+
+function summary(blocks: PrettyMetadataBlock[], entries: Record<string, unknown> = {}): LogDocumentSummary {
+  return {
+    applicationName: 'AgentDesktop',
+    prettyMetaBlocks: blocks,
+    metaEntries: Object.entries(entries).map(([key, rawValue]) => ({ key, value: String(rawValue), rawValue }))
+  };
+}
+
+function event(level: string, context: string, message: string): EventView {
+  return {
+    uid: message,
+    id: message,
+    source: 'axp.json',
+    timestamp: '-',
+    time: null,
+    level,
+    levelTone: 'info',
+    application: 'AgentDesktop',
+    context,
+    message,
+    lineTitle: '',
+    rawValue: {}
+  };
+}
+
+const yesterday = summary(
+  [
+    block('browser', { name: 'Chrome', version: '124', os: { family: 'Windows' } }),
+    block('templates', [
+      { name: 'Voice', core: true },
+      { name: 'Chat', core: false }
+    ]),
+    block('widgets', { widgetCatalog: [{ name: 'Notes', enabled: true }], templateWidgetNames: ['Notes', 'Dialer'] })
+  ],
+  { environmentType: 'prod' }
+);
+
+const today = summary(
+  [
+    block('browser', { name: 'Chrome', version: '125', os: { family: 'Windows' } }),
+    block('templates', [
+      { name: 'Chat', core: false },
+      { name: 'Voice', core: true }
+    ]),
+    block('widgets', {
+      widgetCatalog: [
+        { name: 'Notes', enabled: false },
+        { name: 'CRM', enabled: true }
+      ],
+      templateWidgetNames: ['Dialer']
+    })
+  ],
+  { environmentType: 'prod' }
+);
+
+describe('flattenMetadata', () => {
+  it('should address named records and plain values by name', () => {
+    const values = flattenMetadata(yesterday);
+
+    expect(values.get('templates[Voice].core')).toBe('true');
+    expect(values.get('widgets.templateWidgetNames[Dialer]')).toBe('Dialer');
+    expect(values.get('browser.os.family')).toBe('Windows');
+    expect(values.get('environmentType')).toBe('prod');
+  });
+});
+
+describe('diffMetadata', () => {
+  it('should report added, removed and changed values but not reordering', () => {
+    expect(diffMetadata(yesterday, today).map((difference) => [difference.path, difference.status])).toEqual([
+      ['browser.version', 'changed'],
+      ['widgets.templateWidgetNames[Notes]', 'removed'],
+      ['widgets.widgetCatalog[CRM].enabled', 'added'],
+      ['widgets.widgetCatalog[CRM].name', 'added'],
+      ['widgets.widgetCatalog[Notes].enabled', 'changed']
+    ]);
+    expect(diffMetadata(yesterday, today)[0]).toEqual({
+      path: 'browser.version',
+      section: 'browser',
+      status: 'changed',
+      before: '124',
+      after: '125'
+    });
+  });
+});
+
+describe('compareDistributions', () => {
+  it('should flag new, missing and shifted values by share', () => {
+    const before = [
+      event('INFO', 'http', 'Request 1 sent'),
+      event('INFO', 'http', 'Request 2 sent'),
+      event('ERROR', 'ui', 'Render failed')
+    ];
+    const after = [
+      event('INFO', 'http', 'Request 3 sent'),
+      event('INFO', 'http', 'Request 4 sent'),
+      event('INFO', 'http', 'Request 5 sent'),
+      event('WARN', 'socket', 'Socket 12 closed')
+    ];
+
+    const rows = compareDistributions(before, after);
+    const levels = rows.filter((row) => row.dimension === 'level');
+    const templates = rows.filter((row) => row.dimension === 'template');
+
+    expect(levels.map((row) => [row.value, row.status, row.beforeCount, row.afterCount])).toEqual([
+      ['WARN', 'added', 0, 1],
+      ['ERROR', 'removed', 1, 0],
+      ['INFO', 'changed', 2, 3]
+    ]);
+    expect(templates.map((row) => [row.value, row.status])).toEqual([
+      ['Socket <num> closed', 'added'],
+      ['Render failed', 'removed'],
+      ['Request <num> sent', 'changed']
+    ]);
+  });
+
+  it('should call equal shares the same', () => {
+    const rows = compareDistributions([event('INFO', 'a', 'x')], [event('INFO', 'a', 'x'), event('INFO', 'a', 'x')]);
+
+    expect(rows.every((row) => row.status === 'same')).toBeTrue();
+  });
+});
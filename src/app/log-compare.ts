@@ -0,0 +1,208 @@
+import { EventView, LogDocumentSummary } from './log-viewer.model';
+import { messageTemplate } from './message-clusters';
+
+export type DifferenceStatus = 'added' | 'removed' | 'changed';
+
+/** One metadata value that differs between the two files, by flattened path (`settings.hotdesk`). */
+export interface MetaDifference {
+  path: string;
+  /** The metadata block or top-level meta key the path belongs to. */
+  section: string;
+  status: DifferenceStatus;
+  before: string | null;
+  after: string | null;
+}
+
+export type DistributionDimension = 'level' | 'context' | 'template';
+
+/** How often a level, context or message template occurs in each file. */
+export interface DistributionDifference {
+  dimension: DistributionDimension;
+  value: string;
+  /** `changed` when its share of the file's events moved by at least {@link SHARE_CHANGE}. */
+  status: DifferenceStatus | 'same';
+  beforeCount: number;
+  afterCount: number;
+  beforeShare: number;
+  afterShare: number;
+}
+
+/** One percentage point: files of different lengths are compared by share, not by raw count. */
+const SHARE_CHANGE = 0.01;
+/** Keeps a pathological metadata block (huge local storage dumps) from flooding the comparison. */
+const MAX_META_PATHS = 20000;
+/** Fields that name the items of an array of records, so items are matched by name rather than position. */
+const IDENTITY_KEYS = ['name', 'id', 'code', 'key', 'metadataName'];
+
+/**
+ * Flattens the metadata of a file to `path -> value`: the raw value of every pretty block under its key
+ * (`browser`, `agent`, `settings`, `templates`, `widgets`) and every other meta entry under its own.
+ * Records in arrays are addressed by name when they have one (`templates[Voice].core`), and arrays of
+ * plain values as sets (`widgets.templateWidgetNames[Customer Details]`), so a reordered list is not
+ * reported as changed.
+ */
+export function flattenMetadata(summary: LogDocumentSummary): Map<string, string> {
+  const values = new Map<string, string>();
+  for (const block of summary.prettyMetaBlocks) {
+    flattenValue(block.rawValue, block.key, values);
+  }
+  for (const entry of summary.metaEntries) {
+    flattenValue(entry.rawValue, entry.key, values);
+  }
+
+  return values;
+}
+
+/** Metadata differences, ordered by path. */
+export function diffMetadata(before: LogDocumentSummary, after: LogDocumentSummary): MetaDifference[] {
+  const beforeValues = flattenMetadata(before);
+  const afterValues = flattenMetadata(after);
+  const paths = Array.from(new Set([...beforeValues.keys(), ...afterValues.keys()])).sort((left, right) =>
+    left.localeCompare(right)
+  );
+
+  const differences: MetaDifference[] = [];
+  for (const path of paths) {
+    const left = beforeValues.get(path) ?? null;
+    const right = afterValues.get(path) ?? null;
+    if (left === right) {
+      continue;
+    }
+
+    differences.push({
+      path,
+      section: path.split(/[.[]/, 1)[0],
+      status: left === null ? 'added' : right === null ? 'removed' : 'changed',
+      before: left,
+      after: right
+    });
+  }
+
+  return differences;
+}
+
+/**
+ * Compares how the events of two files spread over levels, contexts and message templates. Rows are
+ * ordered by dimension, then new and missing values first, then by how much their share moved.
+ */
+export function compareDistributions(before: EventView[], after: EventView[]): DistributionDifference[] {
+  const dimensions: Array<[DistributionDimension, (event: EventView) => string]> = [
+    ['level', (event) => event.level],
+    ['context', (event) => event.context],
+    ['template', (event) => messageTemplate(event.message)]
+  ];
+  const statusOrder: Record<DistributionDifference['status'], number> = { added: 0, removed: 1, changed: 2, same: 3 };
+
+  const rows: DistributionDifference[] = [];
+  for (const [dimension, valueOf] of dimensions) {
+    const beforeCounts = countValues(before, valueOf);
+    const afterCounts = countValues(after, valueOf);
+    const values = new Set([...beforeCounts.keys(), ...afterCounts.keys()]);
+
+    const dimensionRows = Array.from(values).map((value): DistributionDifference => {
+      const beforeCount = beforeCounts.get(value) ?? 0;
+      const afterCount = afterCounts.get(value) ?? 0;
+      const beforeShare = before.length > 0 ? beforeCount / before.length : 0;
+      const afterShare = after.length > 0 ? afterCount / after.length : 0;
+
+      return {
+        dimension,
+        value,
+        status:
+          beforeCount === 0
+            ? 'added'
+            : afterCount === 0
+              ? 'removed'
+              : Math.abs(afterShare - beforeShare) >= SHARE_CHANGE
+                ? 'changed'
+                : 'same',
+        beforeCount,
+        afterCount,
+        beforeShare,
+        afterShare
+      };
+    });
+
+    dimensionRows.sort(
+      (left, right) =>
+        statusOrder[left.status] - statusOrder[right.status] ||
+        Math.abs(right.afterShare - right.beforeShare) - Math.abs(left.afterShare - left.beforeShare) ||
+        right.afterCount + right.beforeCount - (left.afterCount + left.beforeCount)
+    );
+    rows.push(...dimensionRows);
+  }
+
+  return rows;
+}
+
+function flattenValue(value: unknown, path: string, into: Map<string, string>): void {
+  if (into.size >= MAX_META_PATHS) {
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      into.set(path, '[]');
+      return;
+    }
+
+    const names = value.map((item) => identityOf(item));
+    if (names.every((name) => name !== null)) {
+      const seen = new Map<string, number>();
+      value.forEach((item, index) => {
+        const name = names[index] as string;
+        const occurrence = (seen.get(name) ?? 0) + 1;
+        seen.set(name, occurrence);
+        flattenValue(item, `${path}[${occurrence > 1 ? `${name}#${occurrence}` : name}]`, into);
+      });
+    } else {
+      value.forEach((item, index) => flattenValue(item, `${path}[${index}]`, into));
+    }
+    return;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value);
+    if (entries.length === 0) {
+      into.set(path, '{}');
+    }
+    for (const [key, item] of entries) {
+      flattenValue(item, `${path}.${key}`, into);
+    }
+    return;
+  }
+
+  into.set(path, value === undefined ? 'undefined' : String(value));
+}
+
+/** The name of an array item: a plain value names itself, a record by its first identity field. */
+function identityOf(item: unknown): string | null {
+  if (typeof item === 'string' || typeof item === 'number' || typeof item === 'boolean') {
+    return String(item);
+  }
+  if (item === null || typeof item !== 'object' || Array.isArray(item)) {
+    return null;
+  }
+
+  const record = item as Record<string, unknown>;
+  for (const key of IDENTITY_KEYS) {
+    const name = record[key];
+    if ((typeof name === 'string' && name) || typeof name === 'number') {
+      return String(name);
+    }
+  }
+
+  return null;
+}
+
+function countValues(events: EventView[], valueOf: (event: EventView) => string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const event of events) {
+    const value = valueOf(event);
+    if (value) {
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+  }
+
+  return counts;
+}
@@ -0,0 +1,108 @@
+import { DecimalPipe, PercentPipe } from '@angular/common';
+import { Component, Input, OnChanges } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+
+import { isFromSource } from '../event-merge';
+import {
+  DistributionDifference,
+  DistributionDimension,
+  MetaDifference,
+  compareDistributions,
+  diffMetadata
+} from '../log-compare';
+import { EventView, LogSource } from '../log-viewer.model';
+
+interface DistributionTable {
+  dimension: DistributionDimension;
+  title: string;
+  rows: DistributionDifference[];
+  hiddenCount: number;
+}
+
+const MAX_ROWS = 200;
+const DIMENSION_TITLES: Record<DistributionDimension, string> = {
+  level: 'Levels',
+  context: 'Contexts',
+  template: 'Message templates'
+};
+
+/**
+ * Compares two loaded files: their metadata key by key, and how their events spread over levels,
+ * contexts and message templates. Built only while open.
+ */
+@Component({
+  selector: 'app-log-compare',
+  imports: [DecimalPipe, FormsModule, PercentPipe],
+  templateUrl: './log-compare.component.html',
+  styleUrl: './log-compare.component.css'
+})
+export class LogCompareComponent implements OnChanges {
+  @Input({ required: true }) sources: LogSource[] = [];
+  @Input({ required: true }) events: EventView[] = [];
+
+  readonly maxRows = MAX_ROWS;
+  isOpen = false;
+  beforeKey = '';
+  afterKey = '';
+  showUnchanged = false;
+  metaDifferences: MetaDifference[] = [];
+  listedMetaDifferences: MetaDifference[] = [];
+  distributionTables: DistributionTable[] = [];
+
+  ngOnChanges(): void {
+    if (this.isOpen) {
+      this.compare();
+    }
+  }
+
+  onToggle(event: Event): void {
+    this.isOpen = (event.target as HTMLDetailsElement).open;
+    if (this.isOpen) {
+      this.compare();
+    }
+  }
+
+  swap(): void {
+    [this.beforeKey, this.afterKey] = [this.afterKey, this.beforeKey];
+    this.compare();
+  }
+
+  compare(): void {
+    const complete = this.sources.filter((source) => source.status === 'complete');
+    if (!complete.some((source) => source.key === this.beforeKey)) {
+      this.beforeKey = complete[0]?.key ?? '';
+    }
+    if (!complete.some((source) => source.key === this.afterKey) || this.afterKey === this.beforeKey) {
+      this.afterKey = complete.find((source) => source.key !== this.beforeKey)?.key ?? '';
+    }
+
+    const before = complete.find((source) => source.key === this.beforeKey);
+    const after = complete.find((source) => source.key === this.afterKey);
+    if (!before || !after) {
+      this.metaDifferences = [];
+      this.listedMetaDifferences = [];
+      this.distributionTables = [];
+      return;
+    }
+
+    this.metaDifferences = diffMetadata(before, after);
+    this.listedMetaDifferences = this.metaDifferences.slice(0, MAX_ROWS);
+    const rows = compareDistributions(this.eventsOf(before), this.eventsOf(after)).filter(
+      (row) => this.showUnchanged || row.status !== 'same'
+    );
+    this.distributionTables = (Object.keys(DIMENSION_TITLES) as DistributionDimension[]).map((dimension) => {
+      const dimensionRows = rows.filter((row) => row.dimension === dimension);
+      return {
+        dimension,
+        title: DIMENSION_TITLES[dimension],
+        rows: dimensionRows.slice(0, MAX_ROWS),
+        hiddenCount: Math.max(dimensionRows.length - MAX_ROWS, 0)
+      };
+    });
+  }
+
+  /** By key rather than name: names repeat when two exports of the same file are loaded. */
+  private eventsOf(source: LogSource): EventView[] {
+    return this.events.filter((event) => isFromSource(event, source.key));
+  }
+}
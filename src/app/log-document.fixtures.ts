@@ -0,0 +1,225 @@
+import { LogFormat } from './log-viewer.model';
+
+/**
+ * One sample export per shape listed in the README (section 4), with what `parseLogDocument` should make
+ * of it under the built-in mapping profile.
+ */
+export interface LogDocumentFixture {
+  name: string;
+  fileName: string;
+  text: string;
+  format: LogFormat;
+  /** `context` of every event, in order. */
+  contexts: string[];
+  applicationName: string;
+  prettyMetaBlocks?: string[];
+  metaEntries?: string[];
+  skippedLines?: number[];
+}
+
+export interface MalformedLogFixture {
+  name: string;
+  fileName: string;
+  text: string;
+  error: string;
+}
+
+const EVENTS = [
+  { id: 'e1', timestamp: '2026-05-01T10:00:00Z', topic: 'agent.state', data: { message: 'Ready' } },
+  { id: 'e2', timestamp: '2026-05-01T10:00:01Z', topic: 'call.state', level: 'error', message: 'Dropped' }
+];
+const CONTEXTS = ['agent.state', 'call.state'];
+
+/** The event-array paths of the built-in profile, as documented in the README. */
+const EVENT_ARRAY_PATHS = [
+  'events',
+  'logs',
+  'records',
+  'entries',
+  'items',
+  'data.events',
+  'data.logs',
+  'payload.events',
+  'payload.logs'
+];
+
+const META = {
+  application: 'AXP',
+  browser: { name: 'Chrome', version: '120' },
+  sessionId: 'abc',
+  templates: [{ name: 'Voice', core: true }],
+  localStorage: { '_cc.widgets': JSON.stringify([{ metadata: { name: 'Dialer' } }]) }
+};
+
+function atPath(path: string, value: unknown): Record<string, unknown> {
+  return path
+    .split('.')
+    .reverse()
+    .reduce<Record<string, unknown>>((inner, key) => ({ [key]: inner }), value as Record<string, unknown>);
+}
+
+function json(value: unknown, indent?: number): string {
+  return JSON.stringify(value, null, indent);
+}
+
+/** Like Python's `json.dumps(value, indent=0)`: one value per line, nested objects starting at column 0. */
+function jsonWithoutIndent(value: unknown): string {
+  return json(value, 1).replace(/\n +/g, '\n');
+}
+
+export const LOG_DOCUMENT_FIXTURES: LogDocumentFixture[] = [
+  {
+    name: 'top-level array of events',
+    fileName: 'array.json',
+    text: json(EVENTS, 2),
+    format: 'json',
+    contexts: CONTEXTS,
+    applicationName: 'unknown'
+  },
+  ...EVENT_ARRAY_PATHS.map(
+    (path): LogDocumentFixture => ({
+      name: `events at ${path}`,
+      fileName: `${path}.json`,
+      text: json({ exportedBy: 'fixture', ...atPath(path, EVENTS), trailer: { done: true } }),
+      format: 'json',
+      contexts: CONTEXTS,
+      applicationName: 'unknown'
+    })
+  ),
+  {
+    name: 'first root array that looks like events',
+    fileName: 'fallback.json',
+    text: json({ tags: ['x', 'y'], rows: EVENTS, more: [{ topic: 'ignored' }] }),
+    format: 'json',
+    contexts: CONTEXTS,
+    applicationName: 'unknown'
+  },
+  {
+    name: 'first known path wins over the order of the list',
+    fileName: 'two-paths.json',
+    text: json({ logs: [EVENTS[1]], events: [EVENTS[0]] }),
+    format: 'json',
+    contexts: ['call.state'],
+    applicationName: 'unknown'
+  },
+  ...['meta', 'metadata', 'header'].map(
+    (key): LogDocumentFixture => ({
+      name: `metadata under ${key}`,
+      fileName: `${key}.json`,
+      text: json({ [key]: META, events: EVENTS }, 2),
+      format: 'json',
+      contexts: CONTEXTS,
+      applicationName: 'AXP',
+      prettyMetaBlocks: ['browser', 'templates', 'widgets'],
+      metaEntries: ['application', 'localStorage', 'sessionId']
+    })
+  ),
+  {
+    name: 'application at the root and events before the metadata',
+    fileName: 'root-application.json',
+    text: json({ events: EVENTS, applicationName: 'WSFE', meta: { sessionId: 'abc' } }),
+    format: 'json',
+    contexts: CONTEXTS,
+    applicationName: 'WSFE',
+    metaEntries: ['sessionId']
+  },
+  {
+    name: 'large document indented with zero spaces',
+    fileName: 'flat-indent.json',
+    text: jsonWithoutIndent({ events: EVENTS, meta: { sessionId: 'abc', notes: 'x'.repeat(1024 * 1024) } }),
+    format: 'json',
+    contexts: CONTEXTS,
+    applicationName: 'unknown',
+    metaEntries: ['notes', 'sessionId']
+  },
+  {
+    name: 'application inferred from the events',
+    fileName: 'event-application.json',
+    text: json([{ ...EVENTS[0], application: 'Workspaces' }]),
+    format: 'json',
+    contexts: ['agent.state'],
+    applicationName: 'Workspaces'
+  },
+  {
+    name: 'JSON Lines with unreadable lines',
+    fileName: 'export.log',
+    text: [json(EVENTS[0]), '', '{"id":"x", broken', '42', json(EVENTS[1])].join('\n'),
+    format: 'ndjson',
+    contexts: CONTEXTS,
+    applicationName: 'unknown',
+    skippedLines: [3, 4]
+  },
+  {
+    name: 'JSON Lines starting with an unclosed record',
+    fileName: 'export.log',
+    text: ['{"id":"x", "data": {', json(EVENTS[0]), json(EVENTS[1])].join('\n'),
+    format: 'ndjson',
+    contexts: CONTEXTS,
+    applicationName: 'unknown',
+    skippedLines: [1]
+  },
+  {
+    name: '.ndjson file with a single record',
+    fileName: 'single.ndjson',
+    text: `${json(EVENTS[0])}\n`,
+    format: 'ndjson',
+    contexts: ['agent.state'],
+    applicationName: 'unknown'
+  },
+  {
+    name: '.jsonl file holding an array record per line',
+    fileName: 'batches.jsonl',
+    text: `${json(EVENTS)}\n${json([EVENTS[0]])}\n`,
+    format: 'ndjson',
+    contexts: [...CONTEXTS, 'agent.state'],
+    applicationName: 'unknown'
+  },
+  {
+    name: 'concatenated pretty-printed objects',
+    fileName: 'concatenated.json',
+    text: EVENTS.map((event) => json(event, 2)).join('\n'),
+    format: 'concatenated',
+    contexts: CONTEXTS,
+    applicationName: 'unknown'
+  },
+  {
+    name: 'text log with bracketed level and context',
+    fileName: 'agent.log',
+    text: [
+      'preamble without a timestamp',
+      '2026-05-01T10:00:00Z [INFO] [AgentService] Agent ready',
+      '2026-05-01T10:00:01Z [ERROR] [CallService] Call failed',
+      '    at dial (call.js:10)'
+    ].join('\n'),
+    format: 'text',
+    contexts: ['AgentService', 'CallService'],
+    applicationName: 'unknown',
+    skippedLines: [1]
+  },
+  {
+    name: 'text log in the log4j layout',
+    fileName: 'server.log',
+    text: [
+      '2026-05-01 10:00:00,123 INFO [main] com.example.Agent - Agent ready',
+      '2026-05-01 10:00:01,456 WARN [io-1] com.example.Call - Slow answer'
+    ].join('\n'),
+    format: 'text',
+    contexts: ['main', 'io-1'],
+    applicationName: 'com.example.Agent'
+  },
+  {
+    name: 'Chrome console save',
+    fileName: 'console.log',
+    text: ['10:00:00.123 main.js:42 Agent ready', '10:00:01.456 call.js:7 Call failed'].join('\n'),
+    format: 'text',
+    contexts: ['main.js:42', 'call.js:7'],
+    applicationName: 'console'
+  }
+];
+
+export const MALFORMED_LOG_FIXTURES: MalformedLogFixture[] = [
+  { name: 'blank file', fileName: 'blank.json', text: '  \n', error: 'The selected file is empty.' },
+  { name: 'invalid JSON document', fileName: 'invalid.json', text: '{"events": [1,}', error: 'Unexpected token' },
+  { name: 'truncated JSON document', fileName: 'truncated.json', text: '{"events": [', error: 'Unexpected end' },
+  { name: 'unrecognized text', fileName: 'notes.txt', text: 'not json\nat all', error: 'no records could be read' }
+];
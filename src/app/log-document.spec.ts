@@ -0,0 +1,114 @@
+import { LogDocumentParser, parseLogDocument } from './log-document';
+import { LOG_DOCUMENT_FIXTURES, MALFORMED_LOG_FIXTURES } from './log-document.fixtures';
+import { DEFAULT_MAPPING_PROFILE } from './mapping-profiles';
+import { EventView, FieldMappingProfile } from './log-viewer.model';
+
+describe('parseLogDocument', () => {
+  for (const fixture of LOG_DOCUMENT_FIXTURES) {
+    it(`should read ${fixture.name}`, () => {
+      const { meta, events, diagnostics } = parseLogDocument(fixture.text, DEFAULT_MAPPING_PROFILE, {
+        fileName: fixture.fileName
+      });
+
+      expect(diagnostics.format).toBe(fixture.format);
+      expect(events.map((event) => event.context)).toEqual(fixture.contexts);
+      expect(diagnostics.eventCount).toBe(fixture.contexts.length);
+      expect(meta.applicationName).toBe(fixture.applicationName);
+      expect(meta.prettyMetaBlocks.map((block) => block.key)).toEqual(fixture.prettyMetaBlocks ?? []);
+      expect(meta.metaEntries.map((entry) => entry.key)).toEqual(fixture.metaEntries ?? []);
+      expect(diagnostics.skippedLines.map((skipped) => skipped.line)).toEqual(fixture.skippedLines ?? []);
+      expect(diagnostics.skippedCount).toBe(fixture.skippedLines?.length ?? 0);
+    });
+  }
+
+  for (const fixture of MALFORMED_LOG_FIXTURES) {
+    it(`should reject a ${fixture.name}`, () => {
+      const parse = (): unknown =>
+        parseLogDocument(fixture.text, DEFAULT_MAPPING_PROFILE, { fileName: fixture.fileName });
+
+      expect(parse).toThrowError(new RegExp(fixture.error));
+    });
+  }
+
+  it('should tag events with the source and pick the best of several profiles', () => {
+    const custom: FieldMappingProfile = {
+      ...DEFAULT_MAPPING_PROFILE,
+      id: 'custom',
+      name: 'Custom',
+      builtIn: false,
+      fields: { ...DEFAULT_MAPPING_PROFILE.fields, context: ['kind'] },
+      eventArrayPaths: ['body.batch.entries']
+    };
+    const text = JSON.stringify({ body: { batch: { entries: [{ id: 'a', kind: 'login' }] } } });
+    const { events, diagnostics } = parseLogDocument(text, [custom, DEFAULT_MAPPING_PROFILE], {
+      sourceKey: 's1',
+      sourceName: 'agent.json'
+    });
+
+    expect(diagnostics.profileName).toBe('Custom');
+    expect(events.map((event) => [event.uid, event.source, event.context])).toEqual([
+      ['s1:0-a', 'agent.json', 'login']
+    ]);
+  });
+});
+
+describe('LogDocumentParser', () => {
+  it('should give the same events whether the text arrives whole or in pieces', () => {
+    const text = LOG_DOCUMENT_FIXTURES.find((fixture) => fixture.fileName === 'meta.json')?.text ?? '';
+    const parser = new LogDocumentParser('meta.json');
+    const events: EventView[] = [];
+    for (let offset = 0; offset < text.length; offset += 7) {
+      parser.write(text.slice(offset, offset + 7));
+      events.push(...parser.takeEvents());
+    }
+    const result = parser.end();
+
+    expect(events).toEqual(parseLogDocument(text, DEFAULT_MAPPING_PROFILE, { fileName: 'meta.json' }).events);
+    expect(result.summary.applicationName).toBe('AXP');
+    expect(parser.eventCount).toBe(2);
+  });
+
+  it('should read JSON Lines whose first record is longer than the format sample', () => {
+    const first = JSON.stringify({ topic: 'a', payload: 'x'.repeat(1024 * 1024 + 10) });
+    const text = `${first}\n{"topic":"b"}\n`;
+    const parser = new LogDocumentParser('export.log');
+    for (let offset = 0; offset < text.length; offset += 1024 * 1024) {
+      parser.write(text.slice(offset, offset + 1024 * 1024));
+    }
+
+    expect(parser.end().format).toBe('ndjson');
+    expect(parser.takeEvents().map((event) => event.context)).toEqual(['a', 'b']);
+  });
+
+  it('should read a large document indented with zero spaces in file-sized slices', () => {
+    const text = LOG_DOCUMENT_FIXTURES.find((fixture) => fixture.fileName === 'flat-indent.json')?.text ?? '';
+    const parser = new LogDocumentParser('flat-indent.json');
+    for (let offset = 0; offset < text.length; offset += 1024 * 1024) {
+      parser.write(text.slice(offset, offset + 1024 * 1024));
+    }
+
+    expect(parser.end().format).toBe('json');
+    expect(parser.takeEvents().map((event) => event.context)).toEqual(['agent.state', 'call.state']);
+  });
+
+  it('should hand out the events of a single-line document before its first line ends', () => {
+    const text = JSON.stringify({ events: [{ topic: 'a' }, { topic: 'b' }], notes: 'x'.repeat(1024 * 1024) });
+    const parser = new LogDocumentParser('export.json');
+    parser.write(text.slice(0, 1024 * 1024));
+
+    expect(parser.takeEvents().map((event) => event.context)).toEqual(['a', 'b']);
+    parser.write(text.slice(1024 * 1024));
+    expect(parser.end().format).toBe('json');
+  });
+
+  it('should hold events back until a profile is picked from several', () => {
+    const parser = new LogDocumentParser('events.ndjson', {
+      mappingProfiles: [DEFAULT_MAPPING_PROFILE, { ...DEFAULT_MAPPING_PROFILE, id: 'copy', name: 'Copy' }]
+    });
+    parser.write('{"topic":"a"}\n{"topic":"b"}\n');
+
+    expect(parser.takeEvents()).toEqual([]);
+    expect(parser.end().profileName).toBe(DEFAULT_MAPPING_PROFILE.name);
+    expect(parser.takeEvents().map((event) => event.context)).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,479 @@
+import { JsonRecordHandlers, JsonRecordReader } from './json-record-reader';
+import { JsonPath, JsonStreamHandlers, JsonStreamScanner, JsonValueKind } from './json-stream-scanner';
+import { compileLineParsers, detectLineParser } from './line-parsers';
+import { LogNormalizer } from './log-normalizer';
+import { DEFAULT_MAPPING_PROFILE, detectMappingProfile } from './mapping-profiles';
+import {
+  EventView,
+  FieldMappingProfile,
+  LogDocumentSummary,
+  LogFormat,
+  LogParseOptions,
+  SkippedLine
+} from './log-viewer.model';
+import { TextLineReader } from './text-line-reader';
+
+const APPLICATION_SAMPLE_SIZE = 100;
+const LOOKS_LIKE_SAMPLE_SIZE = 20;
+const PROFILE_SAMPLE_SIZE = 50;
+const MAX_REPORTED_SKIPPED_LINES = 500;
+/** The format is detected from this much of the text, the size of the first slice a file is read in. */
+const FORMAT_SAMPLE_SIZE = 1024 * 1024;
+const LINE_DELIMITED_EXTENSIONS = /\.(jsonl|ndjson)$/i;
+
+/** How a document was read, as reported once it is complete. */
+export interface LogDocumentResult {
+  summary: LogDocumentSummary;
+  format: LogFormat;
+  profileName: string;
+}
+
+export interface LogDocumentDiagnostics {
+  format: LogFormat;
+  /** Name of the mapping profile the events were normalized with. */
+  profileName: string;
+  eventCount: number;
+  skippedCount: number;
+  /** The first 500 skipped records with their line number and parser error. */
+  skippedLines: SkippedLine[];
+}
+
+export interface ParsedLogDocument {
+  meta: LogDocumentSummary;
+  events: EventView[];
+  diagnostics: LogDocumentDiagnostics;
+}
+
+export interface LogDocumentOptions extends Omit<LogParseOptions, 'mappingProfiles'> {
+  /** Used for format detection (`.jsonl` / `.ndjson` are always line-delimited) and as the default source name. */
+  fileName?: string;
+}
+
+/**
+ * Routes scanner output into the event collection shapes listed in the README. Because the file is
+ * read front to back, the event array is the first one found at one of the profile event-array paths, or
+ * failing that the first root array whose leading entries look like events. Everything else is kept as
+ * the root record.
+ */
+class LogDocumentCollector implements JsonStreamHandlers {
+  rootRecord: Record<string, unknown> | null = null;
+  readonly sampleEvents: unknown[] = [];
+  eventCount = 0;
+
+  private eventArrayKey: string | null = null;
+  private pendingArrayKey: string | null = null;
+  private pendingArray: unknown[] = [];
+  private readonly eventArrayPaths: Set<string>;
+  /** Objects that contain an event-array path and so must be walked into rather than captured. */
+  private readonly parentPaths = new Set<string>();
+
+  constructor(
+    private readonly normalizer: LogNormalizer,
+    eventArrayPaths: string[],
+    private readonly onEvent: (event: unknown, index: number) => void
+  ) {
+    this.eventArrayPaths = new Set(eventArrayPaths);
+    for (const path of eventArrayPaths) {
+      const segments = path.split('.');
+      for (let length = 1; length < segments.length; length += 1) {
+        this.parentPaths.add(segments.slice(0, length).join('.'));
+      }
+    }
+  }
+
+  select(path: JsonPath, kind: JsonValueKind): 'capture' | 'descend' {
+    if (path.length === 0) {
+      if (kind === 'object') {
+        this.rootRecord = {};
+      }
+      return 'descend';
+    }
+
+    if (typeof path[0] === 'number') {
+      return 'capture';
+    }
+
+    const key = this.pathKey(path);
+    if (kind === 'array' && !this.eventArrayKey) {
+      if (this.eventArrayPaths.has(key)) {
+        this.eventArrayKey = key;
+        return 'descend';
+      }
+      if (path.length === 1 && !this.pendingArrayKey) {
+        this.pendingArrayKey = key;
+        this.pendingArray = [];
+        return 'descend';
+      }
+    }
+    if (kind === 'object' && this.parentPaths.has(key)) {
+      this.setRootValue(path, {});
+      return 'descend';
+    }
+
+    return 'capture';
+  }
+
+  value(path: JsonPath, value: unknown): void {
+    const last = path[path.length - 1];
+    if (typeof last !== 'number') {
+      this.setRootValue(path, value);
+      return;
+    }
+
+    const arrayKey = this.pathKey(path.slice(0, -1));
+    if (path.length === 1 || arrayKey === this.eventArrayKey) {
+      this.addEvent(value);
+      return;
+    }
+
+    if (arrayKey === this.pendingArrayKey) {
+      this.pendingArray.push(value);
+      if (this.pendingArray.length === LOOKS_LIKE_SAMPLE_SIZE) {
+        this.resolvePendingArray();
+      }
+    }
+  }
+
+  close(path: JsonPath, kind: 'object' | 'array'): void {
+    if (kind === 'array' && this.pathKey(path) === this.pendingArrayKey) {
+      this.resolvePendingArray();
+      if (this.pendingArrayKey) {
+        this.setRootValue(path, this.pendingArray);
+      }
+      this.pendingArrayKey = null;
+      this.pendingArray = [];
+    }
+  }
+
+  /** Records read outside the JSON scanner (line-delimited or concatenated files) enter here. */
+  addEvent(event: unknown): void {
+    if (this.sampleEvents.length < APPLICATION_SAMPLE_SIZE) {
+      this.sampleEvents.push(event);
+    }
+
+    this.onEvent(event, this.eventCount);
+    this.eventCount += 1;
+  }
+
+  private resolvePendingArray(): void {
+    if (this.eventArrayKey || !this.pendingArrayKey) {
+      return;
+    }
+
+    if (this.normalizer.looksLikeEventArray(this.pendingArray)) {
+      this.eventArrayKey = this.pendingArrayKey;
+      this.pendingArrayKey = null;
+      for (const event of this.pendingArray) {
+        this.addEvent(event);
+      }
+      this.pendingArray = [];
+    }
+  }
+
+  private setRootValue(path: JsonPath, value: unknown): void {
+    let target = this.rootRecord;
+    for (const segment of path.slice(0, -1)) {
+      target = target?.[segment] as Record<string, unknown> | null;
+    }
+
+    if (target) {
+      target[path[path.length - 1]] = value;
+    }
+  }
+
+  private pathKey(path: JsonPath): string {
+    return path.join('.');
+  }
+}
+
+/**
+ * Picks the reader for a file from its name and first chunk. A leading object that ends inside the first
+ * chunk and is followed by more content means many records: one per line when the first record fits on
+ * its first line, otherwise concatenated. Large single documents never finish within the first chunk;
+ * one that is still open is only taken for records after a broken first line when every later line of
+ * the chunk is a complete record. Anything not starting like JSON is offered to the text line parsers.
+ */
+function detectLogFormat(fileName: string, head: string): LogFormat {
+  if (LINE_DELIMITED_EXTENSIONS.test(fileName)) {
+    return 'ndjson';
+  }
+
+  const start = head.search(/[^\s\uFEFF]/);
+  if (start < 0 || head[start] === '[') {
+    return 'json';
+  }
+  if (head[start] !== '{') {
+    return 'text';
+  }
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  for (let index = start; index < head.length; index += 1) {
+    const char = head[index];
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      depth += 1;
+    } else if ((char === '}' || char === ']') && --depth === 0) {
+      if (!/\S/.test(head.slice(index + 1))) {
+        return 'json';
+      }
+      return head.slice(start, index).includes('\n') ? 'concatenated' : 'ndjson';
+    }
+  }
+
+  // The last line may be cut off by the end of the chunk.
+  const lines = head
+    .slice(start)
+    .split('\n')
+    .slice(1, -1)
+    .filter((line) => /\S/.test(line));
+  return lines.length > 0 && lines.every(isRecordLine) ? 'ndjson' : 'json';
+}
+
+function isRecordLine(line: string): boolean {
+  try {
+    const value: unknown = JSON.parse(line);
+    return typeof value === 'object' && value !== null;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Incremental, synchronous parser for one log document: text goes in through `write` in any number of
+ * pieces, normalized events and skipped records are taken out as they become available, and `end`
+ * returns the document summary. The format is detected from the first piece. Framework-free, so it runs
+ * in the parsing worker, on the main thread and in Node alike.
+ */
+export class LogDocumentParser {
+  private readonly normalizer: LogNormalizer;
+  private readonly profiles: FieldMappingProfile[];
+  private readonly collector: LogDocumentCollector;
+  private readonly handlers: JsonRecordHandlers;
+  private readonly sourceKey: string;
+  private readonly sourceName: string;
+  private events: EventView[] = [];
+  private skipped: SkippedLine[] = [];
+  private skippedTotal = 0;
+  private format: LogFormat = 'json';
+  private reader: JsonStreamScanner | JsonRecordReader | TextLineReader | null = null;
+  // A document whose first chunk is one unfinished line may still be JSON Lines with an over-long first
+  // record: that line is read first, then the text after it is held until it can be checked for records.
+  private firstLineOpen = false;
+  private afterFirstLine: string | null = null;
+  // With several candidate profiles, the first events are held back until one is picked.
+  private profileSamples: unknown[] | null;
+
+  constructor(
+    private readonly fileName: string,
+    private readonly options: LogParseOptions = {}
+  ) {
+    this.sourceKey = options.sourceKey ?? '';
+    this.sourceName = options.sourceName ?? fileName;
+    this.profiles = options.mappingProfiles?.length ? options.mappingProfiles : [DEFAULT_MAPPING_PROFILE];
+    this.normalizer = new LogNormalizer(this.profiles[0]);
+    this.profileSamples = this.profiles.length > 1 ? [] : null;
+
+    const eventArrayPaths = Array.from(
+      new Set(([] as string[]).concat(...this.profiles.map((profile) => profile.eventArrayPaths)))
+    );
+    this.collector = new LogDocumentCollector(this.normalizer, eventArrayPaths, (event, index) =>
+      this.addEvent(event, index)
+    );
+    this.handlers = {
+      record: (value) => this.collector.addEvent(value),
+      skip: (line, error, text) => {
+        this.skippedTotal += 1;
+        if (this.skippedTotal <= MAX_REPORTED_SKIPPED_LINES) {
+          this.skipped.push({ line, error, text });
+        }
+      }
+    };
+  }
+
+  get eventCount(): number {
+    return this.collector.eventCount;
+  }
+
+  get skippedCount(): number {
+    return this.skippedTotal;
+  }
+
+  write(text: string): void {
+    this.reader ??= this.createReader(text.slice(0, FORMAT_SAMPLE_SIZE));
+    if (this.firstLineOpen || this.afterFirstLine !== null) {
+      this.readFirstLine(this.reader as JsonStreamScanner, text, false);
+    } else {
+      this.reader.write(text);
+    }
+  }
+
+  /** Events normalized since the last call. Events held back for profile detection appear after `end`. */
+  takeEvents(): EventView[] {
+    const events = this.events;
+    this.events = [];
+    return events;
+  }
+
+  /** Skipped records reported since the last call, up to the first 500 of the document. */
+  takeSkipped(): SkippedLine[] {
+    const skipped = this.skipped;
+    this.skipped = [];
+    return skipped;
+  }
+
+  /** Finishes the document; throws when it is empty, malformed or has no readable record. */
+  end(): LogDocumentResult {
+    this.reader ??= this.createReader('');
+    if (this.afterFirstLine !== null) {
+      this.readFirstLine(this.reader as JsonStreamScanner, '', true);
+    }
+    const reader = this.reader;
+    reader.end();
+    if (!reader.hasContent) {
+      throw new Error('The selected file is empty.');
+    }
+    if (this.collector.eventCount === 0 && this.skippedTotal > 0) {
+      throw new Error(`no records could be read (${this.skippedTotal} skipped)`);
+    }
+
+    this.resolveProfile();
+    return {
+      summary: this.normalizer.summarizeDocument(this.collector.rootRecord, this.collector.sampleEvents),
+      format: this.format,
+      profileName: this.normalizer.profileName
+    };
+  }
+
+  private addEvent(event: unknown, index: number): void {
+    if (this.profileSamples) {
+      this.profileSamples.push(event);
+      if (this.profileSamples.length === PROFILE_SAMPLE_SIZE) {
+        this.resolveProfile();
+      }
+      return;
+    }
+
+    this.events.push(this.normalizer.toEventView(event, index, this.sourceKey, this.sourceName));
+  }
+
+  private resolveProfile(): void {
+    if (!this.profileSamples) {
+      return;
+    }
+
+    const samples = this.profileSamples;
+    this.profileSamples = null;
+    this.normalizer.useProfile(detectMappingProfile(samples, this.profiles));
+    samples.forEach((event, index) => this.addEvent(event, index));
+  }
+
+  /**
+   * Feeds a document that may be JSON Lines with a first record longer than the format sample. Once the
+   * first line ends with the document complete and no events found, the lines after it decide: when each
+   * is a complete record, the document becomes the first record and the rest is read as JSON Lines.
+   */
+  private readFirstLine(scanner: JsonStreamScanner, text: string, complete: boolean): void {
+    if (this.firstLineOpen) {
+      const lineEnd = text.indexOf('\n');
+      if (lineEnd < 0) {
+        scanner.write(text);
+        return;
+      }
+
+      this.firstLineOpen = false;
+      scanner.write(text.slice(0, lineEnd));
+      if (!scanner.isComplete || this.collector.eventCount > 0) {
+        scanner.write(text.slice(lineEnd));
+        return;
+      }
+      this.afterFirstLine = '';
+      text = text.slice(lineEnd + 1);
+    }
+
+    const rest = `${this.afterFirstLine ?? ''}${text}`;
+    const lines = rest.split('\n');
+    if (!complete) {
+      // The last line may still be incomplete.
+      lines.pop();
+    }
+    const records = lines.filter((line) => /\S/.test(line));
+    if (records.length === 0 && !complete) {
+      this.afterFirstLine = rest;
+      return;
+    }
+
+    this.afterFirstLine = null;
+    if (records.length === 0 || !records.every(isRecordLine)) {
+      scanner.write(`\n${rest}`);
+      return;
+    }
+
+    const record = this.collector.rootRecord;
+    this.collector.rootRecord = null;
+    this.collector.addEvent(record);
+    this.format = 'ndjson';
+    this.reader = new JsonRecordReader(this.handlers, true, 2);
+    this.reader.write(rest);
+  }
+
+  private createReader(head: string): JsonStreamScanner | JsonRecordReader | TextLineReader {
+    this.format = detectLogFormat(this.fileName, head);
+    if (this.format === 'json' && /^[\s\uFEFF]*\{[^\n]*$/.test(head)) {
+      this.firstLineOpen = true;
+    }
+    if (this.format === 'text') {
+      const lineParser = detectLineParser(head, compileLineParsers(this.options.lineParsers ?? []));
+      if (lineParser) {
+        return new TextLineReader(this.handlers, lineParser);
+      }
+      // Not a known text format either: read it line by line so every bad line gets reported.
+      this.format = 'ndjson';
+    }
+
+    return this.format === 'json'
+      ? new JsonStreamScanner(this.collector)
+      : new JsonRecordReader(this.handlers, this.format === 'ndjson');
+  }
+}
+
+/**
+ * Parses a complete log document held in memory: the shapes listed in the README, normalized with
+ * `profile` (or, given several, the one matching the first events best). Throws like
+ * {@link LogDocumentParser.end}. Files too large for one string go through `readLogFile` instead.
+ */
+export function parseLogDocument(
+  text: string,
+  profile: FieldMappingProfile | FieldMappingProfile[] = DEFAULT_MAPPING_PROFILE,
+  options: LogDocumentOptions = {}
+): ParsedLogDocument {
+  const { fileName = '', ...parseOptions } = options;
+  const parser = new LogDocumentParser(fileName, {
+    ...parseOptions,
+    mappingProfiles: Array.isArray(profile) ? profile : [profile]
+  });
+  parser.write(text);
+  const { summary, format, profileName } = parser.end();
+
+  return {
+    meta: summary,
+    events: parser.takeEvents(),
+    diagnostics: {
+      format,
+      profileName,
+      eventCount: parser.eventCount,
+      skippedCount: parser.skippedCount,
+      skippedLines: parser.takeSkipped()
+    }
+  };
+}
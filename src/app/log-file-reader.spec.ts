@@ -0,0 +1,220 @@
+import { JsonRecordReader } from './json-record-reader';
+import { JsonStreamScanner } from './json-stream-scanner';
+import { readLogFile } from './log-file-reader';
+import { DEFAULT_MAPPING_PROFILE } from './mapping-profiles';
+import {
+  EventView,
+  FieldMappingProfile,
+  LogDocumentSummary,
+  LogFormat,
+  LogParseMessage,
+  SkippedLine
+} from './log-viewer.model';
+
+async function parseText(
+  text: string,
+  fileName = 'fixture.json',
+  mappingProfiles?: FieldMappingProfile[]
+): Promise<{
+  events: EventView[];
+  skipped: SkippedLine[];
+  summary?: LogDocumentSummary;
+  format?: LogFormat;
+  profileName?: string;
+  error?: string;
+}> {
+  const messages: LogParseMessage[] = [];
+  await readLogFile(new File([text], fileName), (message) => messages.push(message), { mappingProfiles });
+
+  const events: EventView[] = [];
+  const skipped: SkippedLine[] = [];
+  let summary: LogDocumentSummary | undefined;
+  let format: LogFormat | undefined;
+  let profileName: string | undefined;
+  let error: string | undefined;
+  for (const message of messages) {
+    if (message.type === 'events') {
+      events.push(...message.events);
+    } else if (message.type === 'skipped') {
+      skipped.push(...message.lines);
+    } else if (message.type === 'complete') {
+      summary = message.summary;
+      format = message.format;
+      profileName = message.profileName;
+    } else if (message.type === 'error') {
+      error = message.message;
+    }
+  }
+
+  return { events, skipped, summary, format, profileName, error };
+}
+
+describe('readLogFile', () => {
+  it('should read a top-level array of events', async () => {
+    const result = await parseText(
+      JSON.stringify([{ topic: 'agent.state', data: { message: 'Ready' } }, { level: 'error' }])
+    );
+
+    expect(result.events.map((event) => event.context)).toEqual(['agent.state', 'none']);
+    expect(result.events[1].level).toBe('ERROR');
+    expect(result.summary?.applicationName).toBe('unknown');
+  });
+
+  it('should read events next to meta and keep the meta summary', async () => {
+    const result = await parseText(
+      JSON.stringify({
+        application: 'AXP',
+        meta: { browser: { name: 'Chrome', version: '120' }, sessionId: 'abc' },
+        events: [{ id: 'e1', topic: 'call' }]
+      })
+    );
+
+    expect(result.events.map((event) => event.id)).toEqual(['e1']);
+    expect(result.summary?.applicationName).toBe('AXP');
+    expect(result.summary?.prettyMetaBlocks.map((block) => block.key)).toEqual(['browser']);
+    expect(result.summary?.metaEntries.map((entry) => entry.key)).toEqual(['sessionId']);
+  });
+
+  it('should read nested data.events and fall back to a root array that looks like events', async () => {
+    const nested = await parseText(JSON.stringify({ data: { events: [{ topic: 'a' }] } }));
+    const fallback = await parseText(
+      JSON.stringify({ tags: ['x', 'y'], rows: [{ timestamp: 1 }, { timestamp: 2 }] })
+    );
+
+    expect(nested.events.map((event) => event.context)).toEqual(['a']);
+    expect(fallback.events.length).toBe(2);
+  });
+
+  it('should find events at a profile event-array path and map them with the detected profile', async () => {
+    const custom: FieldMappingProfile = {
+      ...DEFAULT_MAPPING_PROFILE,
+      id: 'custom',
+      name: 'Custom',
+      builtIn: false,
+      fields: { ...DEFAULT_MAPPING_PROFILE.fields, context: ['kind'] },
+      eventArrayPaths: ['body.batch.entries']
+    };
+    const result = await parseText(
+      JSON.stringify({ body: { batch: { entries: [{ kind: 'login', message: 'hi' }] }, other: 1 } }),
+      'fixture.json',
+      [custom, DEFAULT_MAPPING_PROFILE]
+    );
+
+    expect(result.events.map((event) => event.context)).toEqual(['login']);
+    expect(result.profileName).toBe('Custom');
+  });
+
+  it('should read JSON Lines and report lines that fail to parse', async () => {
+    const result = await parseText(
+      ['{"id":"a","topic":"x"}', '', '{"id":"b", broken', '42', '{"id":"c"} {"id":"d"}'].join('\n')
+    );
+
+    expect(result.format).toBe('ndjson');
+    expect(result.events.map((event) => event.id)).toEqual(['a', 'c', 'd']);
+    expect(result.skipped.map((skipped) => skipped.line)).toEqual([3, 4]);
+    expect(result.skipped[1].error).toBe('Expected a JSON object');
+  });
+
+  it('should read JSON Lines whose first record is longer than the first chunk', async () => {
+    const first = JSON.stringify({ id: 'a', payload: 'x'.repeat(1024 * 1024 + 10) });
+    const result = await parseText(`${first}\n{"id":"b"}\n`, 'export.log');
+
+    expect(result.format).toBe('ndjson');
+    expect(result.events.map((event) => event.id)).toEqual(['a', 'b']);
+  });
+
+  it('should read JSON Lines starting with an unclosed record', async () => {
+    const result = await parseText(['{"id":"x", "data": {', '{"id":"a"}', '{"id":"b"}'].join('\n'));
+
+    expect(result.format).toBe('ndjson');
+    expect(result.events.map((event) => event.id)).toEqual(['a', 'b']);
+    expect(result.skipped.map((skipped) => skipped.line)).toEqual([1]);
+  });
+
+  it('should read concatenated pretty-printed objects', async () => {
+    const text = `${JSON.stringify({ id: 'a' }, null, 2)}\n${JSON.stringify({ id: 'b' }, null, 2)}`;
+    const result = await parseText(text);
+
+    expect(result.format).toBe('concatenated');
+    expect(result.events.map((event) => event.id)).toEqual(['a', 'b']);
+  });
+
+  it('should treat .jsonl files as line-delimited even with a single record', async () => {
+    const result = await parseText('{"id":"only","topic":"x"}\n', 'export.jsonl');
+
+    expect(result.format).toBe('ndjson');
+    expect(result.events.map((event) => event.id)).toEqual(['only']);
+  });
+
+  it('should read text logs with a detected line parser', async () => {
+    const result = await parseText(
+      [
+        'preamble without a timestamp',
+        '2026-05-01T10:00:00Z [INFO] [AgentService] Agent ready',
+        '2026-05-01T10:00:01Z [ERROR] [CallService] Call failed',
+        '    at dial (call.js:10)'
+      ].join('\n'),
+      'agent.log'
+    );
+
+    expect(result.format).toBe('text');
+    expect(result.events.map((event) => [event.level, event.context, event.message])).toEqual([
+      ['INFO', 'AgentService', 'Agent ready'],
+      ['ERROR', 'CallService', 'Call failed\n    at dial (call.js:10)']
+    ]);
+    expect(result.events[0].time).toBe(Date.parse('2026-05-01T10:00:00Z'));
+    expect(result.skipped.map((skipped) => skipped.line)).toEqual([1]);
+  });
+
+  it('should report empty and malformed files', async () => {
+    expect((await parseText('  \n')).error).toBe('The selected file is empty.');
+    expect((await parseText('{"events": [1,}')).error).toContain('Unexpected token');
+    expect((await parseText('{"events": [')).error).toBe('Unexpected end of JSON input');
+    expect((await parseText('not json\nat all')).error).toContain('no records');
+  });
+});
+
+describe('JsonStreamScanner', () => {
+  it('should produce the same values regardless of chunk boundaries', () => {
+    const text = JSON.stringify({ 'k"ey': 'va\\lue', list: [1, -2.5e3, true, null, 'ü', { a: [] }] });
+    const values: unknown[] = [];
+    const scanner = new JsonStreamScanner({
+      select: (path) => (path.length < 2 ? 'descend' : 'capture'),
+      value: (_path, value) => values.push(value)
+    });
+
+    for (const char of text) {
+      scanner.write(char);
+    }
+    scanner.end();
+
+    expect(values).toEqual(['va\\lue', 1, -2.5e3, true, null, 'ü', { a: [] }]);
+  });
+});
+
+describe('JsonRecordReader', () => {
+  it('should track records and line numbers across chunk boundaries', () => {
+    const text = '{"a": "x\\"}"}\n\n{\n  "b": [1, 2]\n}\n{oops}\n[{"c": 3}]';
+    const records: Array<[unknown, number]> = [];
+    const skipped: number[] = [];
+    const reader = new JsonRecordReader(
+      {
+        record: (value, line) => records.push([value, line]),
+        skip: (line) => skipped.push(line)
+      },
+      false
+    );
+
+    for (const char of text) {
+      reader.write(char);
+    }
+    reader.end();
+
+    expect(records).toEqual([
+      [{ a: 'x"}' }, 1],
+      [{ b: [1, 2] }, 3],
+      [{ c: 3 }, 7]
+    ]);
+    expect(skipped).toEqual([6]);
+  });
+});
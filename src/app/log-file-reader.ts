@@ -0,0 +1,72 @@
+import { LogDocumentParser } from './log-document';
+import { LogParseMessage, LogParseOptions } from './log-viewer.model';
+
+const CHUNK_SIZE = 1024 * 1024;
+const POST_INTERVAL_MS = 150;
+
+export interface LogReadOptions extends LogParseOptions {
+  signal?: AbortSignal;
+}
+
+/**
+ * Streams a log export in 1 MB slices through {@link LogDocumentParser}, reporting batches of events,
+ * skipped records and progress through `emit` as they become available. Used verbatim by the parsing
+ * worker and the main-thread fallback.
+ */
+export async function readLogFile(
+  file: File,
+  emit: (message: LogParseMessage) => void,
+  options: LogReadOptions = {}
+): Promise<void> {
+  const { signal, ...parseOptions } = options;
+  const parser = new LogDocumentParser(file.name, parseOptions);
+  const decoder = new TextDecoder();
+  let lastPost = 0;
+
+  const flush = (bytesRead: number): void => {
+    const events = parser.takeEvents();
+    if (events.length > 0) {
+      emit({ type: 'events', events });
+    }
+    const skipped = parser.takeSkipped();
+    if (skipped.length > 0) {
+      emit({ type: 'skipped', lines: skipped });
+    }
+    emit({
+      type: 'progress',
+      bytesRead,
+      totalBytes: file.size,
+      eventsParsed: parser.eventCount,
+      linesSkipped: parser.skippedCount
+    });
+    lastPost = Date.now();
+  };
+
+  try {
+    if (file.size === 0) {
+      throw new Error('The selected file is empty.');
+    }
+
+    for (let offset = 0; offset < file.size; offset += CHUNK_SIZE) {
+      const bytes = await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer();
+      if (signal?.aborted) {
+        return;
+      }
+
+      parser.write(decoder.decode(bytes, { stream: true }));
+      if (Date.now() - lastPost >= POST_INTERVAL_MS) {
+        flush(Math.min(offset + CHUNK_SIZE, file.size));
+      }
+    }
+
+    parser.write(decoder.decode());
+    const result = parser.end();
+    flush(file.size);
+    emit({ type: 'complete', ...result });
+  } catch (error) {
+    emit({
+      type: 'error',
+      message: error instanceof Error ? error.message : 'unknown error'
+    });
+  }
+}
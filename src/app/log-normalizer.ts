@@ -0,0 +1,732 @@
+import {
+  EventView,
+  FieldMappingProfile,
+  LevelTone,
+  LogDocumentSummary,
+  MappedField,
+  MetaEntry,
+  PrettyMetadataBlock
+} from './log-viewer.model';
+import { DEFAULT_MAPPING_PROFILE, getPathValue } from './mapping-profiles';
+
+/**
+ * Framework-free normalization of Workspaces log documents into the viewer model. Which raw keys feed
+ * which event field comes from the active {@link FieldMappingProfile}.
+ * Shared by the parsing worker and the main-thread fallback, so it must not touch Angular or the DOM.
+ */
+export class LogNormalizer {
+  private profile = DEFAULT_MAPPING_PROFILE;
+  private levelAliases = new Map<string, string>();
+
+  constructor(profile: FieldMappingProfile = DEFAULT_MAPPING_PROFILE) {
+    this.useProfile(profile);
+  }
+
+  get profileName(): string {
+    return this.profile.name;
+  }
+
+  useProfile(profile: FieldMappingProfile): void {
+    this.profile = profile;
+    this.levelAliases = new Map(
+      Object.entries(profile.levelAliases).map(([raw, level]) => [raw.trim().toUpperCase(), level])
+    );
+  }
+
+  summarizeDocument(
+    rootRecord: Record<string, unknown> | null,
+    sampleEvents: unknown[]
+  ): LogDocumentSummary {
+    const meta = this.extractMetaRecord(rootRecord);
+
+    return {
+      applicationName:
+        this.firstInline([
+          rootRecord?.['application'],
+          rootRecord?.['applicationName'],
+          meta?.['application'],
+          meta?.['environmentType']
+        ]) || this.inferApplicationFromEvents(sampleEvents) || 'unknown',
+      prettyMetaBlocks: this.buildPrettyMetaBlocks(meta),
+      metaEntries: this.extractMetaEntries(meta)
+    };
+  }
+
+  toEventView(eventValue: unknown, index: number, sourceKey = '', sourceName = ''): EventView {
+    const event = this.asRecord(eventValue) ?? {};
+
+    const id = this.firstInline(this.mappedValues(event, 'id')) || `${index + 1}`;
+    const rawTimestamp = this.firstDefined(this.mappedValues(event, 'timestamp'));
+    const timestamp = this.normalizeTimestamp(rawTimestamp);
+
+    const level = this.inferLevel(event);
+    const application = this.firstInline(this.mappedValues(event, 'application')) || 'unknown';
+    const context = this.firstInline(this.mappedValues(event, 'context')) || 'none';
+
+    const message = this.extractMessage(event);
+    const lineTitle = `${timestamp} | ${level} | ${application} | ${context} | ${message}`;
+
+    return {
+      uid: sourceKey ? `${sourceKey}:${index}-${id}` : `${index}-${id}`,
+      id,
+      source: sourceName,
+      timestamp,
+      time: this.parseTimestamp(rawTimestamp),
+      level,
+      levelTone: this.getLevelTone(level),
+      application,
+      context,
+      message,
+      rawValue: eventValue,
+      lineTitle
+    };
+  }
+
+  private getLevelTone(level: string): LevelTone {
+    const upper = level.toUpperCase();
+    if (upper.includes('ERROR') || upper.includes('CRITICAL') || upper.includes('FATAL')) {
+      return 'error';
+    }
+    if (upper.includes('WARN')) {
+      return 'warning';
+    }
+    if (upper.includes('DEBUG')) {
+      return 'debug';
+    }
+    if (upper.includes('TRACE')) {
+      return 'trace';
+    }
+    if (upper.includes('INFO') || upper.includes('LOG')) {
+      return 'info';
+    }
+
+    return 'neutral';
+  }
+
+  private inferLevel(event: Record<string, unknown>): string {
+    for (const candidate of this.mappedValues(event, 'level')) {
+      const text = this.valueToInlineString(candidate);
+      if (!text) {
+        continue;
+      }
+
+      const normalized = this.normalizeLevel(this.levelAliases.get(text.trim().toUpperCase()) ?? text);
+      if (normalized) {
+        return normalized;
+      }
+    }
+
+    return 'UNKNOWN';
+  }
+
+  private normalizeLevel(value: string): string {
+    const upper = value.toUpperCase();
+
+    if (upper.includes('CRITICAL') || upper.includes('FATAL')) {
+      return 'CRITICAL';
+    }
+    if (upper.includes('ERROR') || upper === 'ERR') {
+      return 'ERROR';
+    }
+    if (upper.includes('WARN')) {
+      return 'WARNING';
+    }
+    if (upper.includes('DEBUG')) {
+      return 'DEBUG';
+    }
+    if (upper.includes('TRACE')) {
+      return 'TRACE';
+    }
+    if (upper.includes('INFO') || upper === 'LOG') {
+      return 'INFO';
+    }
+
+    if (/^[A-Z0-9_-]{2,20}$/.test(upper)) {
+      return upper;
+    }
+
+    return '';
+  }
+
+  private extractMessage(event: Record<string, unknown>): string {
+    const text = this.firstInline(this.mappedValues(event, 'message'));
+    if (text) {
+      return text;
+    }
+
+    const data = this.asRecord(event['data']);
+    if (data && Object.keys(data).length > 0) {
+      return `Data keys: ${Object.keys(data).slice(0, 6).join(', ')}`;
+    }
+
+    return 'No short message available';
+  }
+
+  looksLikeEventArray(values: unknown[]): boolean {
+    const sampleSize = Math.min(values.length, 20);
+    let matches = 0;
+
+    for (let i = 0; i < sampleSize; i += 1) {
+      const entry = this.asRecord(values[i]);
+      if (!entry) {
+        continue;
+      }
+
+      if (
+        entry['timestamp'] !== undefined ||
+        entry['topic'] !== undefined ||
+        entry['message'] !== undefined ||
+        entry['event'] !== undefined ||
+        entry['data'] !== undefined
+      ) {
+        matches += 1;
+      }
+    }
+
+    return matches >= 1;
+  }
+
+  extractMetaRecord(rootRecord: Record<string, unknown> | null): Record<string, unknown> | null {
+    return (
+      this.asRecord(rootRecord?.['meta']) ||
+      this.asRecord(rootRecord?.['metadata']) ||
+      this.asRecord(rootRecord?.['header']) ||
+      null
+    );
+  }
+
+  buildPrettyMetaBlocks(meta: Record<string, unknown> | null): PrettyMetadataBlock[] {
+    if (!meta) {
+      return [];
+    }
+
+    const blocks: PrettyMetadataBlock[] = [];
+    const browser = this.asRecord(meta['browser']);
+    if (browser) {
+      blocks.push(this.buildBrowserBlock(browser));
+    }
+
+    const agent = this.asRecord(meta['agent']);
+    if (agent) {
+      blocks.push(this.buildAgentBlock(agent));
+    }
+
+    const settings = this.asRecord(meta['settings']);
+    if (settings) {
+      blocks.push(this.buildSettingsBlock(settings));
+    }
+
+    const templates = this.toRecordArray(meta['templates']);
+    if (templates.length > 0) {
+      blocks.push(this.buildTemplatesBlock(templates));
+    }
+
+    const widgetBlock = this.buildWidgetsBlock(meta, templates);
+    if (widgetBlock) {
+      blocks.push(widgetBlock);
+    }
+
+    return blocks;
+  }
+
+  private buildBrowserBlock(browser: Record<string, unknown>): PrettyMetadataBlock {
+    const os = this.asRecord(browser['os']);
+    const browserName = this.firstInline([browser['name'], browser['description']]) || 'Unknown';
+    const browserVersion = this.valueToInlineString(browser['version']) || 'n/a';
+
+    return {
+      key: 'browser',
+      title: 'Browser',
+      subtitle: `${browserName} ${browserVersion}`.trim(),
+      facts: [
+        { label: 'Name', value: this.valueToInlineString(browser['name']) || 'unknown' },
+        { label: 'Version', value: browserVersion },
+        { label: 'Layout Engine', value: this.valueToInlineString(browser['layout']) || 'n/a' },
+        {
+          label: 'OS',
+          value: this.firstInline([
+            os?.['family'],
+            os?.['name'],
+            browser['platform']
+          ]) || 'unknown'
+        },
+        { label: 'OS Version', value: this.valueToInlineString(os?.['version']) || 'n/a' },
+        { label: 'Architecture', value: this.valueToInlineString(os?.['architecture']) || 'n/a' }
+      ],
+      highlights: this.compactHighlights([
+        this.valueToInlineString(browser['description']),
+        this.valueToInlineString(browser['ua'])
+      ]),
+      rawValue: browser
+    };
+  }
+
+  private buildAgentBlock(agent: Record<string, unknown>): PrettyMetadataBlock {
+    const reasonCodes = this.toRecordArray(agent['reasonCodes']);
+    const reasonNames = reasonCodes
+      .map((reason) => this.firstInline([reason['friendlyName'], reason['code']]))
+      .filter((value) => value);
+
+    const name =
+      this.firstInline([
+        agent['displayName'],
+        `${this.valueToInlineString(agent['firstName'])} ${this.valueToInlineString(agent['lastName'])}`.trim()
+      ]) || 'Unknown Agent';
+
+    return {
+      key: 'agent',
+      title: 'Agent',
+      subtitle: name,
+      facts: [
+        { label: 'Handle', value: this.valueToInlineString(agent['handle']) || 'n/a' },
+        { label: 'Role', value: this.valueToInlineString(agent['role']) || 'n/a' },
+        { label: 'State', value: this.valueToInlineString(agent['state']) || 'n/a' },
+        { label: 'Channel', value: this.valueToInlineString(agent['channel']) || 'n/a' },
+        { label: 'Station', value: this.valueToInlineString(agent['stationId']) || 'n/a' },
+        { label: 'Agent ID', value: this.valueToInlineString(agent['agentId']) || 'n/a' },
+        { label: 'Provider', value: this.valueToInlineString(agent['providerId']) || 'n/a' },
+        { label: 'Reason Codes', value: `${reasonCodes.length}` }
+      ],
+      highlights: this.compactHighlights(reasonNames.slice(0, 10)),
+      rawValue: agent
+    };
+  }
+
+  private buildSettingsBlock(settings: Record<string, unknown>): PrettyMetadataBlock {
+    const selectedKeys = [
+      'environmentType',
+      'websocketsEnabled',
+      'hotdesk',
+      'isWebRTC',
+      'displayCanvasOnAlerting',
+      'workspacesLogsDownloadEnabled',
+      'workspacesLogsDataPrivacyEnabled',
+      'forceRefreshRate',
+      'maxDeferTime',
+      'customerManagementFQDN',
+      'pomWidgetLocation'
+    ];
+
+    const facts = selectedKeys
+      .map((key) => ({
+        label: this.prettyLabel(key),
+        value: this.prettyValue(settings[key])
+      }))
+      .filter((fact) => fact.value !== 'n/a');
+
+    const deferIntervals = this.prettyValue(settings['deferTimeIntervals']);
+    const settingsEntries = Object.keys(settings).length;
+
+    return {
+      key: 'settings',
+      title: 'Settings',
+      subtitle: `${settingsEntries} settings entries`,
+      facts,
+      highlights: this.compactHighlights([`Defer intervals: ${deferIntervals}`]),
+      rawValue: settings
+    };
+  }
+
+  private buildTemplatesBlock(templates: Record<string, unknown>[]): PrettyMetadataBlock {
+    let coreCount = 0;
+    let compressedCount = 0;
+    let totalTabs = 0;
+    let totalWidgetRefs = 0;
+
+    const templateNames = templates
+      .map((template) => this.firstInline([template['name'], template['id']]))
+      .filter((value) => value);
+
+    for (const template of templates) {
+      if (template['core'] === true) {
+        coreCount += 1;
+      }
+      if (template['useCompressedWorkspaces'] === true) {
+        compressedCount += 1;
+      }
+      totalTabs += this.countTemplateTabs(template);
+      totalWidgetRefs += this.countTemplateWidgetRefs(template);
+    }
+
+    return {
+      key: 'templates',
+      title: 'Templates',
+      subtitle: `${templates.length} templates`,
+      facts: [
+        { label: 'Core Templates', value: `${coreCount}` },
+        { label: 'Compressed Layouts', value: `${compressedCount}` },
+        { label: 'Total Tabs', value: `${totalTabs}` },
+        { label: 'Widget References', value: `${totalWidgetRefs}` }
+      ],
+      highlights: this.compactHighlights(templateNames.slice(0, 10)),
+      rawValue: templates
+    };
+  }
+
+  private buildWidgetsBlock(
+    meta: Record<string, unknown>,
+    templates: Record<string, unknown>[]
+  ): PrettyMetadataBlock | null {
+    const localStorage = this.asRecord(meta['localStorage']);
+    const widgetsRaw = this.valueToInlineString(localStorage?.['_cc.widgets']);
+    const widgetCatalog = this.parseWidgetCatalog(widgetsRaw);
+
+    const templateWidgetNames = this.extractTemplateWidgetNames(templates);
+    const catalogWidgetNames = widgetCatalog
+      .map((widget) => this.firstInline([widget['name'], widget['metadataName']]))
+      .filter((value) => value);
+    const uniqueNames = Array.from(new Set([...catalogWidgetNames, ...templateWidgetNames]));
+
+    if (widgetCatalog.length === 0 && uniqueNames.length === 0) {
+      return null;
+    }
+
+    return {
+      key: 'widgets',
+      title: 'Widgets',
+      subtitle: `${uniqueNames.length} unique widget names`,
+      facts: [
+        { label: 'Widget Catalog', value: `${widgetCatalog.length}` },
+        { label: 'Template Widget Refs', value: `${templateWidgetNames.length}` },
+        { label: 'Unique Names', value: `${uniqueNames.length}` }
+      ],
+      highlights: this.compactHighlights(uniqueNames.slice(0, 12)),
+      rawValue: {
+        widgetCatalog,
+        templateWidgetNames
+      }
+    };
+  }
+
+  private toRecordArray(value: unknown): Record<string, unknown>[] {
+    if (!Array.isArray(value)) {
+      return [];
+    }
+
+    const records: Record<string, unknown>[] = [];
+    for (const item of value) {
+      const record = this.asRecord(item);
+      if (record) {
+        records.push(record);
+      }
+    }
+
+    return records;
+  }
+
+  private parseWidgetCatalog(rawWidgets: string): Array<Record<string, unknown>> {
+    if (!rawWidgets) {
+      return [];
+    }
+
+    try {
+      const parsed = JSON.parse(rawWidgets) as unknown;
+      if (!Array.isArray(parsed)) {
+        return [];
+      }
+
+      const widgets: Array<Record<string, unknown>> = [];
+      for (const entry of parsed) {
+        const widget = this.asRecord(entry);
+        const metadata = this.asRecord(widget?.['metadata']);
+        const configuration = this.asRecord(widget?.['configuration']);
+
+        if (!widget) {
+          continue;
+        }
+
+        widgets.push({
+          name: this.firstInline([metadata?.['name'], configuration?.['name'], widget['name']]),
+          metadataName: this.valueToInlineString(metadata?.['name']),
+          description: this.valueToInlineString(metadata?.['description']),
+          library: this.valueToInlineString(metadata?.['libraryName']) || this.valueToInlineString(metadata?.['library']),
+          enabled: configuration?.['enabled'] === true
+        });
+      }
+
+      return widgets;
+    } catch {
+      return [];
+    }
+  }
+
+  private extractTemplateWidgetNames(templates: Record<string, unknown>[]): string[] {
+    const names: string[] = [];
+
+    for (const template of templates) {
+      const layout = this.asRecord(template['layout']);
+      if (!layout) {
+        continue;
+      }
+
+      for (const roleLayoutValue of Object.values(layout)) {
+        const roleLayout = this.asRecord(roleLayoutValue);
+        const tabs = this.asRecord(roleLayout?.['tabs']);
+        if (!tabs) {
+          continue;
+        }
+
+        for (const tabValue of Object.values(tabs)) {
+          const tab = this.asRecord(tabValue);
+          const widgets = tab?.['widgets'];
+          if (!Array.isArray(widgets)) {
+            continue;
+          }
+
+          for (const widget of widgets) {
+            const text = this.valueToInlineString(widget);
+            if (text) {
+              names.push(text);
+            }
+          }
+        }
+      }
+    }
+
+    return names;
+  }
+
+  private countTemplateTabs(template: Record<string, unknown>): number {
+    const layout = this.asRecord(template['layout']);
+    if (!layout) {
+      return 0;
+    }
+
+    let count = 0;
+    for (const roleLayoutValue of Object.values(layout)) {
+      const roleLayout = this.asRecord(roleLayoutValue);
+      const tabs = this.asRecord(roleLayout?.['tabs']);
+      if (tabs) {
+        count += Object.keys(tabs).length;
+      }
+    }
+
+    return count;
+  }
+
+  private countTemplateWidgetRefs(template: Record<string, unknown>): number {
+    const layout = this.asRecord(template['layout']);
+    if (!layout) {
+      return 0;
+    }
+
+    let count = 0;
+    for (const roleLayoutValue of Object.values(layout)) {
+      const roleLayout = this.asRecord(roleLayoutValue);
+      const tabs = this.asRecord(roleLayout?.['tabs']);
+      if (!tabs) {
+        continue;
+      }
+
+      for (const tabValue of Object.values(tabs)) {
+        const tab = this.asRecord(tabValue);
+        const widgets = tab?.['widgets'];
+        if (Array.isArray(widgets)) {
+          count += widgets.length;
+        }
+      }
+    }
+
+    return count;
+  }
+
+  private compactHighlights(values: string[]): string[] {
+    const highlights: string[] = [];
+
+    for (const value of values) {
+      const trimmed = value.trim();
+      if (!trimmed) {
+        continue;
+      }
+
+      const compact = trimmed.length > 140 ? `${trimmed.slice(0, 137)}...` : trimmed;
+      highlights.push(compact);
+    }
+
+    return highlights;
+  }
+
+  private prettyLabel(key: string): string {
+    return key
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/[_-]+/g, ' ')
+      .replace(/\b\w/g, (character) => character.toUpperCase());
+  }
+
+  private prettyValue(value: unknown): string {
+    const inlineValue = this.valueToInlineString(value);
+    if (inlineValue) {
+      return inlineValue;
+    }
+
+    if (Array.isArray(value)) {
+      const items = value
+        .map((item) => this.valueToInlineString(item))
+        .filter((item) => item)
+        .slice(0, 5);
+
+      if (items.length === 0) {
+        return `Array(${value.length})`;
+      }
+
+      return `${items.join(', ')}${value.length > items.length ? ', ...' : ''}`;
+    }
+
+    const asObject = this.asRecord(value);
+    if (asObject) {
+      return `Object(${Object.keys(asObject).length})`;
+    }
+
+    return 'n/a';
+  }
+
+  extractMetaEntries(metaValue: Record<string, unknown> | null): MetaEntry[] {
+    if (!metaValue) {
+      return [];
+    }
+
+    const prettyMetaKeys = new Set(['browser', 'agent', 'settings', 'templates', 'widgets']);
+    return Object.entries(metaValue)
+      .filter(([key]) => !prettyMetaKeys.has(key))
+      .sort(([leftKey], [rightKey]) => leftKey.localeCompare(rightKey))
+      .map(([key, value]) => ({
+        key,
+        value: this.summarizeMetaValue(value),
+        rawValue: value
+      }));
+  }
+
+  private summarizeMetaValue(value: unknown): string {
+    const inlineValue = this.valueToInlineString(value);
+
+    if (inlineValue) {
+      return inlineValue.length > 180 ? `${inlineValue.slice(0, 177)}...` : inlineValue;
+    }
+
+    if (Array.isArray(value)) {
+      return `Array(${value.length})`;
+    }
+
+    const asObject = this.asRecord(value);
+    if (asObject) {
+      const keys = Object.keys(asObject);
+      const preview = keys.slice(0, 5).join(', ');
+      const suffix = keys.length > 5 ? ', ...' : '';
+      return `Object(${keys.length} keys): ${preview}${suffix}`;
+    }
+
+    return this.toJsonString(value, 0);
+  }
+
+  inferApplicationFromEvents(events: unknown[]): string {
+    const sampleSize = Math.min(events.length, 100);
+
+    for (let i = 0; i < sampleSize; i += 1) {
+      const application = this.firstInline(this.mappedValues(this.asRecord(events[i]) ?? {}, 'application'));
+      if (application) {
+        return application;
+      }
+    }
+
+    return '';
+  }
+
+  private mappedValues(event: Record<string, unknown>, field: MappedField): unknown[] {
+    return this.profile.fields[field].map((path) => getPathValue(event, path));
+  }
+
+  private firstInline(values: Array<unknown>): string {
+    for (const value of values) {
+      const text = this.valueToInlineString(value);
+      if (text) {
+        return text;
+      }
+    }
+
+    return '';
+  }
+
+  private firstDefined(values: Array<unknown>): unknown {
+    for (const value of values) {
+      if (value !== undefined && value !== null) {
+        return value;
+      }
+    }
+
+    return undefined;
+  }
+
+  private normalizeTimestamp(value: unknown): string {
+    const asText = this.valueToInlineString(value);
+    if (asText) {
+      return asText;
+    }
+
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return '-';
+    }
+
+    const raw = Math.trunc(value);
+    const milliseconds = raw > 99999999999 ? raw : raw * 1000;
+    const asDate = new Date(milliseconds);
+
+    if (!Number.isNaN(asDate.valueOf())) {
+      return asDate.toISOString();
+    }
+
+    return String(value);
+  }
+
+  /**
+   * Resolves a raw timestamp to epoch milliseconds. Numbers (and numeric strings) below 1e11 are treated as
+   * epoch seconds, the same cut-off `normalizeTimestamp` uses; other strings go through `Date.parse`.
+   */
+  private parseTimestamp(value: unknown): number | null {
+    let numeric: number | null = null;
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      numeric = value;
+    } else if (typeof value === 'string' && /^\d+(\.\d+)?$/.test(value.trim())) {
+      numeric = Number(value);
+    }
+
+    if (numeric !== null) {
+      const raw = Math.trunc(numeric);
+      return raw > 99999999999 ? raw : raw * 1000;
+    }
+
+    if (typeof value === 'string') {
+      const parsed = Date.parse(value);
+      return Number.isNaN(parsed) ? null : parsed;
+    }
+
+    return null;
+  }
+
+  private valueToInlineString(value: unknown): string {
+    if (typeof value === 'string') {
+      return value;
+    }
+    if (typeof value === 'number' || typeof value === 'boolean') {
+      return String(value);
+    }
+
+    return '';
+  }
+
+  asRecord(value: unknown): Record<string, unknown> | null {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return null;
+    }
+
+    return value as Record<string, unknown>;
+  }
+
+  private toJsonString(value: unknown, indentation: number): string {
+    try {
+      return JSON.stringify(value, null, indentation) ?? String(value);
+    } catch {
+      return String(value);
+    }
+  }
+
+}
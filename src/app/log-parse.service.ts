@@ -0,0 +1,48 @@
+import { Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
+
+import { LogParseMessage, LogParseOptions, LogParseRequest } from './log-viewer.model';
+
+@Injectable({ providedIn: 'root' })
+export class LogParseService {
+  /**
+   * Parses a log export off the UI thread. The stream emits event batches and progress, completes after the
+   * `complete` message and errors on parse failure; unsubscribing cancels the parse.
+   */
+  parseFile(file: File, options: LogParseOptions = {}): Observable<LogParseMessage> {
+    return new Observable<LogParseMessage>((subscriber) => {
+      const forward = (message: LogParseMessage): void => {
+        if (message.type === 'error') {
+          subscriber.error(new Error(message.message));
+          return;
+        }
+
+        subscriber.next(message);
+        if (message.type === 'complete') {
+          subscriber.complete();
+        }
+      };
+
+      if (typeof Worker === 'undefined') {
+        // The worker bundles its own parser, so the page loads one only when it has to parse on its own.
+        const controller = new AbortController();
+        import('./log-file-reader')
+          .then(({ readLogFile }) => readLogFile(file, forward, { ...options, signal: controller.signal }))
+          .catch((error: unknown) => subscriber.error(error));
+        return () => controller.abort();
+      }
+
+      const worker = new Worker(new URL('./log-parse.worker', import.meta.url), { type: 'module' });
+      worker.onmessage = ({ data }: MessageEvent<LogParseMessage>) => forward(data);
+      worker.onerror = (event) => {
+        event.preventDefault();
+        subscriber.error(new Error(event.message || 'The parsing worker failed.'));
+      };
+
+      const request: LogParseRequest = { type: 'parse', file, options };
+      worker.postMessage(request);
+
+      return () => worker.terminate();
+    });
+  }
+}
@@ -0,0 +1,10 @@
+/// <reference lib="webworker" />
+
+import { readLogFile } from './log-file-reader';
+import { LogParseRequest } from './log-viewer.model';
+
+addEventListener('message', ({ data }: MessageEvent<LogParseRequest>) => {
+  if (data.type === 'parse') {
+    void readLogFile(data.file, (message) => postMessage(message), data.options);
+  }
+});
@@ -0,0 +1,312 @@
+export type LevelTone = 'error' | 'warning' | 'info' | 'debug' | 'trace' | 'neutral';
+
+export interface JsonPreviewTarget {
+  rawValue: unknown;
+  rawJsonCache?: string;
+}
+
+export interface EventView extends JsonPreviewTarget {
+  uid: string;
+  id: string;
+  /** Display name of the file the event was read from. */
+  source: string;
+  timestamp: string;
+  /** Epoch milliseconds parsed from the raw timestamp, `null` when it is missing or unparseable. */
+  time: number | null;
+  level: string;
+  levelTone: LevelTone;
+  application: string;
+  context: string;
+  message: string;
+  lineTitle: string;
+}
+
+export interface MetaEntry extends JsonPreviewTarget {
+  key: string;
+  value: string;
+}
+
+export interface PrettyFact {
+  label: string;
+  value: string;
+}
+
+export interface PrettyMetadataBlock extends JsonPreviewTarget {
+  key: string;
+  title: string;
+  subtitle: string;
+  facts: PrettyFact[];
+  highlights: string[];
+}
+
+export interface LogDocumentSummary {
+  applicationName: string;
+  prettyMetaBlocks: PrettyMetadataBlock[];
+  metaEntries: MetaEntry[];
+}
+
+export type FilterDimension = 'level' | 'application' | 'context' | 'source';
+
+/**
+ * How a file was read: one JSON document, one record per line, JSON objects back to back, or plain text
+ * lines matched by a line parser.
+ */
+export type LogFormat = 'json' | 'ndjson' | 'concatenated' | 'text';
+
+/** Event fields a line parser can capture with named groups of the same name. */
+export type LineField = 'timestamp' | 'level' | 'application' | 'context' | 'message';
+
+/** A regular expression that turns one line of a text log into an event record. */
+export interface LineParserDefinition {
+  id: string;
+  name: string;
+  /** Regular expression source; named groups matching a {@link LineField} fill that field. */
+  pattern: string;
+  /** Values for fields the pattern does not capture. */
+  defaults?: Partial<Record<LineField, string>>;
+}
+
+/** A record that could not be parsed and was left out of the timeline. */
+export interface SkippedLine {
+  line: number;
+  error: string;
+  text: string;
+}
+
+/** `live` is a connected live feed; it turns `complete` once disconnected. */
+export type LogSourceStatus = 'queued' | 'parsing' | 'live' | 'complete' | 'cancelled' | 'error';
+
+/** One opened log file or live feed and everything read from it except its events. */
+export interface LogSource extends LogDocumentSummary {
+  key: string;
+  name: string;
+  /** `null` for a live feed. */
+  file: File | null;
+  status: LogSourceStatus;
+  progress: ParseProgress;
+  error: string;
+  format: LogFormat | null;
+  /** Name of the field mapping profile the file was read with, once known. */
+  profileName: string;
+  /** The first skipped records; `progress.linesSkipped` has the full count. */
+  skippedLines: SkippedLine[];
+}
+
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+/** A live feed to tail, kept in local storage. */
+export interface LiveTailSettings {
+  /** `ws://`/`wss://` for a WebSocket, `http://`/`https://` for Server-Sent Events. */
+  url: string;
+  /** Newest events kept from the feed; older ones are dropped from the viewer. */
+  bufferSize: number;
+}
+
+/** An action offered by the command palette. */
+export interface PaletteCommand {
+  id: string;
+  /** Heading the command is listed under, also matched by the palette search. */
+  group: string;
+  label: string;
+  /** Key that runs the command outside the palette, if any. */
+  shortcut?: string;
+  run: () => void;
+}
+
+/** Filter and selection state, shared through the URL and saved sessions. */
+export interface ViewerState {
+  searchText: string;
+  levels: string[];
+  applications: string[];
+  contexts: string[];
+  sources: string[];
+  timeRange: TimeRange | null;
+  expandedEventUid: string | null;
+  /** Only bookmarked events pass the filters. */
+  bookmarkedOnly: boolean;
+}
+
+/** What an investigator wrote on a bookmarked event; a plain bookmark has an empty note and no tags. */
+export interface EventAnnotation {
+  note: string;
+  tags: string[];
+}
+
+/** An investigation saved to IndexedDB: the files themselves plus everything needed to pick up again. */
+export interface SavedSession {
+  id: string;
+  name: string;
+  savedAt: number;
+  files: File[];
+  state: ViewerState;
+  bookmarks: string[];
+  /** Notes and tags of the annotated bookmarks by event uid; missing from sessions saved before annotations. */
+  annotations?: Record<string, EventAnnotation>;
+  /** Index of the first event row that was visible. */
+  scrollIndex: number;
+}
+
+/** Built-in detectors for personal data and secrets found in free text. */
+export type RedactionDetector = 'email' | 'phone' | 'token' | 'ip';
+
+/**
+ * A user-defined redaction rule: a regular expression masked wherever it matches in text, or a dot path
+ * (`*` matches one key or part of one, `**` any number of keys) whose value is masked in raw JSON.
+ */
+export interface RedactionRule {
+  id: string;
+  name: string;
+  kind: 'pattern' | 'path';
+  expression: string;
+}
+
+export interface RedactionSettings {
+  /** The built-in detectors that are switched on. */
+  detectors: RedactionDetector[];
+  rules: RedactionRule[];
+}
+
+/** Dot paths into raw events used to link them into threads (interactions, calls, dialogs). */
+export interface CorrelationSettings {
+  /** Paths holding ids; events sharing any id value end up in the same thread. */
+  keyPaths: string[];
+  /** Paths whose values are listed as the thread's participants (agents, addresses). */
+  participantPaths: string[];
+  /** Paths holding a state; the last one found in a thread is its final state. */
+  statePaths: string[];
+}
+
+export interface CorrelationKey {
+  path: string;
+  value: string;
+}
+
+/** Events linked by shared correlation ids, in timeline order. */
+export interface EventThread {
+  id: string;
+  /** Every id linking the thread, ordered by key path preference. */
+  keys: CorrelationKey[];
+  events: EventView[];
+  start: number | null;
+  end: number | null;
+  participants: string[];
+  finalState: string;
+}
+
+/** Events whose messages share one template, with numbers, ids, URLs and quoted strings masked. */
+export interface MessageCluster {
+  template: string;
+  events: EventView[];
+  /** Distinct levels, applications and contexts of the events, most frequent first. */
+  levels: string[];
+  applications: string[];
+  contexts: string[];
+  firstSeen: number | null;
+  lastSeen: number | null;
+  /** Event counts per time bin, over the span shared by every cluster of the same build. */
+  sparkline: number[];
+}
+
+export type FindingSeverity = 'info' | 'warning' | 'critical';
+
+export type MetaConditionOperator = '=' | '!=' | '<' | '<=' | '>' | '>=' | 'exists' | 'missing';
+
+/** A check on one flattened metadata path of a file, such as `settings.forceRefreshRate < 60`. */
+export interface MetaCondition {
+  path: string;
+  operator: MetaConditionOperator;
+  /** Compared as numbers when both sides are numeric, otherwise case-insensitively as text. */
+  value?: string;
+}
+
+/**
+ * A declarative known-issue check, evaluated per file. `meta` conditions must all hold for the rule to
+ * apply; then `events` or `gap` looks for the symptom in the events. A rule with only `meta` fires on the
+ * metadata alone.
+ */
+export interface DetectionRule {
+  id: string;
+  name: string;
+  description: string;
+  severity: FindingSeverity;
+  meta?: MetaCondition[];
+  /** At least `minCount` (default 1) events match `query`, all within `windowSeconds` when set. */
+  events?: { query: string; minCount?: number; windowSeconds?: number };
+  /** Consecutive events matching `query` are more than `maxGapSeconds` apart. */
+  gap?: { query: string; maxGapSeconds: number };
+}
+
+export interface RulePack {
+  id: string;
+  name: string;
+  rules: DetectionRule[];
+  builtIn?: boolean;
+}
+
+/** One occurrence of a rule's symptom in one file. */
+export interface Finding {
+  ruleId: string;
+  ruleName: string;
+  severity: FindingSeverity;
+  description: string;
+  source: string;
+  /** What was seen, e.g. `12 matching events within 60 s`. */
+  detail: string;
+  matchCount: number;
+  /** Query and time range showing the matching events; `null` for findings on metadata only. */
+  query: string | null;
+  range: TimeRange | null;
+}
+
+export interface ParseProgress {
+  bytesRead: number;
+  totalBytes: number;
+  eventsParsed: number;
+  linesSkipped: number;
+}
+
+/** Event fields whose raw values come from a {@link FieldMappingProfile}. */
+export type MappedField = 'id' | 'timestamp' | 'level' | 'application' | 'context' | 'message';
+
+/** Says which raw keys become which event fields for one family of log files. */
+export interface FieldMappingProfile {
+  id: string;
+  name: string;
+  /** Dot paths tried in order for each field; the first non-empty value wins. */
+  fields: Record<MappedField, string[]>;
+  /** Dot paths of the event array inside a JSON document; the first one the file contains is used. */
+  eventArrayPaths: string[];
+  /** Raw level values (case-insensitive) mapped to the level shown, e.g. `{ "E": "ERROR" }`. */
+  levelAliases: Record<string, string>;
+  builtIn?: boolean;
+}
+
+export interface LogParseOptions {
+  /** Prefix for event uids, keeping them unique when several files are open. */
+  sourceKey?: string;
+  /** Display name stored on each event; defaults to the file name. */
+  sourceName?: string;
+  /** User-defined text log formats, tried after the built-in ones. */
+  lineParsers?: LineParserDefinition[];
+  /**
+   * Candidate field mapping profiles; the one matching the first events best is used. Defaults to the
+   * built-in profile.
+   */
+  mappingProfiles?: FieldMappingProfile[];
+}
+
+export interface LogParseRequest {
+  type: 'parse';
+  file: File;
+  options: LogParseOptions;
+}
+
+export type LogParseMessage =
+  | ({ type: 'progress' } & ParseProgress)
+  | { type: 'events'; events: EventView[] }
+  | { type: 'skipped'; lines: SkippedLine[] }
+  | { type: 'complete'; summary: LogDocumentSummary; format: LogFormat; profileName: string }
+  | { type: 'error'; message: string };
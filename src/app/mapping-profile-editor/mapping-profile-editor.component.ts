@@ -0,0 +1,131 @@
+import { Component, inject } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+
+import { downloadText } from '../download';
+import { FieldMappingProfile, MappedField } from '../log-viewer.model';
+import { MAPPED_FIELDS } from '../mapping-profiles';
+import { MappingProfilesService } from '../mapping-profiles.service';
+
+/** Text-area friendly copy of a profile: lists are one entry per line, aliases are `raw = LEVEL` lines. */
+interface ProfileDraft {
+  id: string;
+  name: string;
+  fields: Record<MappedField, string>;
+  eventArrayPaths: string;
+  levelAliases: string;
+}
+
+/**
+ * Chooses the field mapping profile new files are read with, and edits, imports and exports the user's
+ * profiles. Changes apply to files opened afterwards.
+ */
+@Component({
+  selector: 'app-mapping-profile-editor',
+  imports: [FormsModule],
+  templateUrl: './mapping-profile-editor.component.html',
+  styleUrl: './mapping-profile-editor.component.css'
+})
+export class MappingProfileEditorComponent {
+  readonly profilesService = inject(MappingProfilesService);
+  readonly fields = MAPPED_FIELDS;
+
+  draft: ProfileDraft | null = null;
+  message = '';
+  messageIsError = false;
+
+  edit(profile: FieldMappingProfile): void {
+    this.draft = this.toDraft(profile);
+    this.message = '';
+  }
+
+  duplicate(profile: FieldMappingProfile): void {
+    this.draft = this.toDraft(this.profilesService.copyOf(profile));
+    this.message = '';
+  }
+
+  saveDraft(): void {
+    if (!this.draft) {
+      return;
+    }
+
+    this.profilesService.save(this.fromDraft(this.draft));
+    this.showMessage(`Saved "${this.draft.name}".`, false);
+    this.draft = null;
+  }
+
+  cancelDraft(): void {
+    this.draft = null;
+  }
+
+  exportProfiles(): void {
+    downloadText(this.profilesService.exportProfiles(), 'mapping-profiles.json', 'application/json');
+  }
+
+  async onImportSelected(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) {
+      return;
+    }
+
+    try {
+      const count = this.profilesService.importProfiles(await file.text());
+      this.showMessage(`Imported ${count} profile${count === 1 ? '' : 's'} from ${file.name}.`, false);
+    } catch (error) {
+      this.showMessage(error instanceof Error ? error.message : 'Import failed.', true);
+    }
+  }
+
+  private showMessage(message: string, isError: boolean): void {
+    this.message = message;
+    this.messageIsError = isError;
+  }
+
+  private toDraft(profile: FieldMappingProfile): ProfileDraft {
+    const fields = {} as Record<MappedField, string>;
+    for (const field of MAPPED_FIELDS) {
+      fields[field] = profile.fields[field].join('\n');
+    }
+
+    return {
+      id: profile.id,
+      name: profile.name,
+      fields,
+      eventArrayPaths: profile.eventArrayPaths.join('\n'),
+      levelAliases: Object.entries(profile.levelAliases)
+        .map(([raw, level]) => `${raw} = ${level}`)
+        .join('\n')
+    };
+  }
+
+  private fromDraft(draft: ProfileDraft): FieldMappingProfile {
+    const fields = {} as Record<MappedField, string[]>;
+    for (const field of MAPPED_FIELDS) {
+      fields[field] = this.toLines(draft.fields[field]);
+    }
+
+    const levelAliases: Record<string, string> = {};
+    for (const line of this.toLines(draft.levelAliases)) {
+      const separator = line.indexOf('=');
+      if (separator > 0) {
+        levelAliases[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+      }
+    }
+
+    return {
+      id: draft.id,
+      name: draft.name.trim() || 'Unnamed profile',
+      fields,
+      eventArrayPaths: this.toLines(draft.eventArrayPaths),
+      levelAliases
+    };
+  }
+
+  private toLines(text: string): string[] {
+    return text
+      .split(/[\n,]/)
+      .map((line) => line.trim())
+      .filter((line) => line);
+  }
+}
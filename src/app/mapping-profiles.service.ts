@@ -0,0 +1,92 @@
+import { Injectable } from '@angular/core';
+
+import { readStoredText, writeStoredText } from './local-storage';
+import { FieldMappingProfile } from './log-viewer.model';
+import { DEFAULT_MAPPING_PROFILE, exportMappingProfiles, importMappingProfiles } from './mapping-profiles';
+
+const PROFILES_STORAGE_KEY = 'ws-log-viewer.mapping-profiles';
+const SELECTED_STORAGE_KEY = 'ws-log-viewer.mapping-profile';
+
+/**
+ * Field mapping profiles edited by the user, plus which one new files are read with (`''` auto-detects).
+ * Both are kept in local storage; the built-in profile is always available and never stored.
+ */
+@Injectable({ providedIn: 'root' })
+export class MappingProfilesService {
+  userProfiles: FieldMappingProfile[] = this.loadProfiles();
+  selectedProfileId = readStoredText(SELECTED_STORAGE_KEY) ?? '';
+
+  /** User profiles first, so they win detection ties against the built-in one they were copied from. */
+  get profiles(): FieldMappingProfile[] {
+    return [...this.userProfiles, DEFAULT_MAPPING_PROFILE];
+  }
+
+  /** The profiles a new file may be read with: the selected one, or all of them for auto-detection. */
+  candidates(): FieldMappingProfile[] {
+    const selected = this.profiles.find((profile) => profile.id === this.selectedProfileId);
+    return selected ? [selected] : this.profiles;
+  }
+
+  select(profileId: string): void {
+    this.selectedProfileId = profileId;
+    writeStoredText(SELECTED_STORAGE_KEY, profileId);
+  }
+
+  /** Returns an editable copy of `base` with a fresh id; it is not stored until {@link save}. */
+  copyOf(base: FieldMappingProfile): FieldMappingProfile {
+    return {
+      id: `profile-${Date.now().toString(36)}`,
+      name: `${base.name.replace(/ \(built-in\)$/, '')} (copy)`,
+      fields: structuredClone(base.fields),
+      eventArrayPaths: [...base.eventArrayPaths],
+      levelAliases: { ...base.levelAliases }
+    };
+  }
+
+  save(profile: FieldMappingProfile): void {
+    const exists = this.userProfiles.some((candidate) => candidate.id === profile.id);
+    this.userProfiles = exists
+      ? this.userProfiles.map((candidate) => (candidate.id === profile.id ? profile : candidate))
+      : [...this.userProfiles, profile];
+    this.saveProfiles();
+  }
+
+  remove(profileId: string): void {
+    this.userProfiles = this.userProfiles.filter((profile) => profile.id !== profileId);
+    if (this.selectedProfileId === profileId) {
+      this.select('');
+    }
+    this.saveProfiles();
+  }
+
+  exportProfiles(): string {
+    return exportMappingProfiles(this.userProfiles);
+  }
+
+  /** Adds the profiles in `text`, replacing stored ones with the same id. Returns how many were read. */
+  importProfiles(text: string): number {
+    const imported = importMappingProfiles(text).filter((profile) => profile.id !== DEFAULT_MAPPING_PROFILE.id);
+    for (const profile of imported) {
+      this.save(profile);
+    }
+
+    return imported.length;
+  }
+
+  private loadProfiles(): FieldMappingProfile[] {
+    const stored = readStoredText(PROFILES_STORAGE_KEY);
+    if (!stored) {
+      return [];
+    }
+
+    try {
+      return importMappingProfiles(stored);
+    } catch {
+      return [];
+    }
+  }
+
+  private saveProfiles(): void {
+    writeStoredText(PROFILES_STORAGE_KEY, exportMappingProfiles(this.userProfiles));
+  }
+}
@@ -0,0 +1,65 @@
+import { LogNormalizer } from './log-normalizer';
+import { FieldMappingProfile } from './log-viewer.model';
+import {
+  DEFAULT_MAPPING_PROFILE,
+  detectMappingProfile,
+  exportMappingProfiles,
+  getPathValue,
+  importMappingProfiles
+} from './mapping-profiles';
+
+const gatewayProfile: FieldMappingProfile = {
+  id: 'gateway',
+  name: 'Gateway',
+  fields: {
+    id: ['requestId'],
+    timestamp: ['ts'],
+    level: ['sev'],
+    application: ['svc.name'],
+    context: ['route'],
+    message: ['msg']
+  },
+  eventArrayPaths: ['body.entries'],
+  levelAliases: { e: 'ERROR', w: 'WARNING' }
+};
+
+describe('mapping profiles', () => {
+  it('should read dot paths through objects and arrays', () => {
+    const value = { data: { items: [{ id: 'x' }] } };
+
+    expect(getPathValue(value, 'data.items.0.id')).toBe('x');
+    expect(getPathValue(value, 'data.missing.id')).toBeUndefined();
+  });
+
+  it('should pick the profile resolving the most fields', () => {
+    const gatewayEvents = [{ requestId: 'r1', ts: 1714557600, sev: 'e', svc: { name: 'edge' }, msg: 'down' }];
+    const workspacesEvents = [{ id: 'a', timestamp: 1, topic: 'agent.state', data: { message: 'Ready' } }];
+    const profiles = [gatewayProfile, DEFAULT_MAPPING_PROFILE];
+
+    expect(detectMappingProfile(gatewayEvents, profiles).id).toBe('gateway');
+    expect(detectMappingProfile(workspacesEvents, profiles).id).toBe('workspaces');
+  });
+
+  it('should map fields and level aliases through the normalizer', () => {
+    const view = new LogNormalizer(gatewayProfile).toEventView(
+      { requestId: 'r1', sev: 'E', svc: { name: 'edge' }, route: '/login', msg: 'down' },
+      0
+    );
+
+    expect([view.id, view.level, view.application, view.context, view.message]).toEqual([
+      'r1',
+      'ERROR',
+      'edge',
+      '/login',
+      'down'
+    ]);
+  });
+
+  it('should round-trip exports and reject files without profiles', () => {
+    const imported = importMappingProfiles(exportMappingProfiles([gatewayProfile]));
+
+    expect(imported).toEqual([gatewayProfile]);
+    expect(() => importMappingProfiles('{"kind":"other"}')).toThrowError(/does not contain/);
+    expect(() => importMappingProfiles('[{"name":"no id"}]')).toThrowError(/Profile 1/);
+  });
+});
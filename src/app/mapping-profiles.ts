@@ -0,0 +1,171 @@
+import { FieldMappingProfile, MappedField } from './log-viewer.model';
+
+export const MAPPED_FIELDS: MappedField[] = ['id', 'timestamp', 'level', 'application', 'context', 'message'];
+
+const EXPORT_KIND = 'ws-log-viewer.mapping-profiles';
+
+/** The Workspaces / WSFE / AXP key conventions the viewer has always understood. */
+export const DEFAULT_MAPPING_PROFILE: FieldMappingProfile = {
+  id: 'workspaces',
+  name: 'Workspaces (built-in)',
+  builtIn: true,
+  fields: {
+    id: ['id', 'eventId', 'uuid', 'data.id'],
+    timestamp: ['timestamp', 'time', 'created', 'dateTime', 'data.timestamp', 'data.time'],
+    level: [
+      'metaData.level',
+      'level',
+      'severity',
+      'data.level',
+      'data.severity',
+      'data.notificationType',
+      'channel'
+    ],
+    application: [
+      'applicationName',
+      'application',
+      'channel',
+      'source',
+      'data.source',
+      'data.application',
+      'data.provider'
+    ],
+    context: ['context', 'topic', 'eventType', 'data.type', 'data.eventName', 'data.topic', 'data.event'],
+    message: [
+      'data.message',
+      'message',
+      'data.detail',
+      'data.reason',
+      'data.type',
+      'data.eventName',
+      'data.event',
+      'topic',
+      'type',
+      'data.code',
+      'code'
+    ]
+  },
+  eventArrayPaths: [
+    'events',
+    'logs',
+    'records',
+    'entries',
+    'items',
+    'data.events',
+    'data.logs',
+    'payload.events',
+    'payload.logs'
+  ],
+  levelAliases: {}
+};
+
+/** Reads a dot path (`data.items.0.id`) from a raw value; `undefined` when any segment is missing. */
+export function getPathValue(value: unknown, path: string): unknown {
+  let current = value;
+  for (const segment of path.split('.')) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+
+  return current;
+}
+
+/**
+ * Scores each profile by how many fields of the sample events it resolves and returns the best one;
+ * earlier profiles win ties, so callers list their preferred profiles first.
+ */
+export function detectMappingProfile(
+  sampleEvents: unknown[],
+  profiles: FieldMappingProfile[]
+): FieldMappingProfile {
+  let best = profiles[0] ?? DEFAULT_MAPPING_PROFILE;
+  let bestScore = -1;
+
+  for (const profile of profiles) {
+    let score = 0;
+    for (const event of sampleEvents) {
+      for (const field of MAPPED_FIELDS) {
+        if (profile.fields[field].some((path) => isPresent(getPathValue(event, path)))) {
+          score += 1;
+        }
+      }
+    }
+
+    if (score > bestScore) {
+      best = profile;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+export function exportMappingProfiles(profiles: FieldMappingProfile[]): string {
+  return JSON.stringify(
+    {
+      kind: EXPORT_KIND,
+      version: 1,
+      profiles: profiles.map((profile) => ({ ...profile, builtIn: undefined }))
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Reads profiles written by {@link exportMappingProfiles} (or a bare array of profiles). Throws with a
+ * readable message when the content is not a profile export.
+ */
+export function importMappingProfiles(text: string): FieldMappingProfile[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  const entries = Array.isArray(parsed) ? parsed : (parsed as { profiles?: unknown } | null)?.profiles;
+  if (!Array.isArray(entries)) {
+    throw new Error('The file does not contain mapping profiles.');
+  }
+
+  return entries.map((entry, index) => toProfile(entry, index));
+}
+
+function toProfile(entry: unknown, index: number): FieldMappingProfile {
+  const record = entry as Partial<Record<keyof FieldMappingProfile, unknown>> | null;
+  const fields = record?.fields as Partial<Record<MappedField, unknown>> | undefined;
+  if (typeof record?.id !== 'string' || typeof record.name !== 'string' || !fields) {
+    throw new Error(`Profile ${index + 1} needs an id, a name and fields.`);
+  }
+
+  const mappedFields = {} as Record<MappedField, string[]>;
+  for (const field of MAPPED_FIELDS) {
+    mappedFields[field] = toStringList(fields[field]);
+  }
+
+  const levelAliases: Record<string, string> = {};
+  for (const [raw, level] of Object.entries((record.levelAliases as Record<string, unknown>) ?? {})) {
+    if (typeof level === 'string') {
+      levelAliases[raw] = level;
+    }
+  }
+
+  return {
+    id: record.id,
+    name: record.name,
+    fields: mappedFields,
+    eventArrayPaths: toStringList(record.eventArrayPaths),
+    levelAliases
+  };
+}
+
+function toStringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+function isPresent(value: unknown): boolean {
+  return value !== undefined && value !== null && value !== '';
+}
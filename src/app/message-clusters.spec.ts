@@ -0,0 +1,99 @@
+import { compileEventQuery } from './event-query';
+import { buildMessageClusters, clusterQuery, messageTemplate } from './message-clusters';
+import { EventView } from './log-viewer.model';
+
+function eventAt(id: string, minute: number | null, level: string, message: string, context = 'http'): EventView {
+  const time = minute === null ? null : Date.UTC(2026, 4, 1, 10, minute);
+  return {
+    uid: id,
+    id,
+    source: 'axp.json',
+    timestamp: time === null ? '-' : new Date(time).toISOString(),
+    time,
+    level,
+    levelTone: level === 'ERROR' ? 'error' : 'info',
+    application: 'AgentDesktop',
+    context,
+    message,
+    lineTitle: '',
+    rawValue: { message }
+  };
+}
+
+const events = [
+  eventAt('a', 0, 'ERROR', 'Request 1842 to https://api.example.com/v1/work failed after 3.5 s'),
+  eventAt('b', 10, 'ERROR', 'Request 77 to http://localhost:8080/x failed after 12 s\n    at fetch (main.js:10)', 'rest'),
+  eventAt('c', 20, 'ERROR', 'Interaction 9f1c2a4e-5b6d-4e7f-8a9b-0c1d2e3f4a5b not found for "agent 7"'),
+  eventAt('d', 29, 'WARN', 'Interaction 00000000-0000-4000-8000-000000000000 not found for \'x\''),
+  eventAt('e', null, 'INFO', 'Request 5 to https://other.example.com failed after 1 s'),
+  eventAt('f', 5, 'ERROR', '')
+];
+
+describe('messageTemplate', () => {
+  it('should mask variable parts of the first line', () => {
+    expect(messageTemplate(events[1].message)).toBe('Request <num> to <url> failed after <num> s');
+    expect(messageTemplate(events[2].message)).toBe('Interaction <uuid> not found for <str>');
+    expect(messageTemplate('Socket 0x1f closed, session deadbeef42 reset  twice')).toBe(
+      'Socket <hex> closed, session <hex> reset twice'
+    );
+  });
+});
+
+describe('buildMessageClusters', () => {
+  it('should group by template, most frequent first, with span and affected contexts', () => {
+    const clusters = buildMessageClusters(events);
+
+    expect(clusters.map((cluster) => [cluster.template, cluster.events.map((event) => event.id)])).toEqual([
+      ['Request <num> to <url> failed after <num> s', ['a', 'b', 'e']],
+      ['Interaction <uuid> not found for <str>', ['c', 'd']]
+    ]);
+    expect(clusters[0].firstSeen).toBe(Date.UTC(2026, 4, 1, 10, 0));
+    expect(clusters[0].lastSeen).toBe(Date.UTC(2026, 4, 1, 10, 10));
+    expect(clusters[0].levels).toEqual(['ERROR', 'INFO']);
+    expect(clusters[0].contexts).toEqual(['http', 'rest']);
+  });
+
+  it('should bin the events of every cluster over the same span', () => {
+    const [requests, interactions] = buildMessageClusters(events);
+
+    expect(requests.sparkline.length).toBe(30);
+    expect(requests.sparkline[0]).toBe(1);
+    expect(requests.sparkline[10]).toBe(1);
+    expect(interactions.sparkline[20]).toBe(1);
+    expect(interactions.sparkline[29]).toBe(1);
+  });
+});
+
+describe('clusterQuery', () => {
+  it('should match exactly the events of the cluster', () => {
+    const clusters = buildMessageClusters(events);
+
+    for (const cluster of clusters) {
+      const predicate = compileEventQuery(clusterQuery(cluster));
+      expect(events.filter((event) => predicate?.(event)).map((event) => event.id)).toEqual(
+        cluster.events.map((event) => event.id)
+      );
+    }
+  });
+
+  it('should restrict the query to the cluster levels', () => {
+    const [requests] = buildMessageClusters(events.slice(0, 2));
+
+    expect(clusterQuery(requests)).toMatch(/ AND level=ERROR$/);
+    expect(compileEventQuery(clusterQuery(requests))?.(events[4])).toBeFalse();
+  });
+
+  it('should keep placeholders with alternatives inside the middle of the template', () => {
+    const loads = [
+      eventAt('g', 0, 'ERROR', 'Failed to load "a.js" from 0xdeadbeef after retry'),
+      eventAt('h', 1, 'ERROR', "Failed to load 'b.js' from 0x1f after retry")
+    ];
+    const [cluster] = buildMessageClusters(loads);
+    const predicate = compileEventQuery(clusterQuery(cluster));
+
+    expect(cluster.template).toBe('Failed to load <str> from <hex> after retry');
+    expect(loads.every((event) => predicate?.(event))).toBeTrue();
+    expect(predicate?.(eventAt('i', 2, 'ERROR', 'Failed to load "x"'))).toBeFalse();
+    expect(predicate?.(eventAt('j', 3, 'ERROR', "'x' from 0x1f after retry"))).toBeFalse();
+  });
+});
@@ -0,0 +1,141 @@
+import { buildEqualsTerm } from './event-query';
+import { EventView, MessageCluster } from './log-viewer.model';
+
+interface Placeholder {
+  name: string;
+  pattern: RegExp;
+}
+
+/** Applied in order; later patterns see the placeholders of earlier ones, which they cannot match. */
+const PLACEHOLDERS: Placeholder[] = [
+  { name: 'url', pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s"'<>]+/gi },
+  { name: 'uuid', pattern: /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi },
+  { name: 'str', pattern: /"[^"\n]*"|(?<!\w)'[^'\n]*'(?!\w)/g },
+  { name: 'hex', pattern: /\b0x[0-9a-f]+\b|\b(?=\d*[a-f])(?=[a-f]*\d)[0-9a-f]{8,}\b/gi },
+  { name: 'num', pattern: /\d+(?:\.\d+)*/g }
+];
+
+const PLACEHOLDER_TOKEN = /<(url|uuid|str|hex|num)>/;
+const SPARKLINE_BINS = 30;
+
+/**
+ * The template of a message: its first line (stack traces and payloads follow on later lines) with URLs,
+ * UUIDs, quoted strings, long hex ids and numbers replaced by `<url>`, `<uuid>`, `<str>`, `<hex>` and
+ * `<num>`, and runs of blanks collapsed.
+ */
+export function messageTemplate(message: string): string {
+  let template = message.split(/\r?\n/, 1)[0];
+  for (const { name, pattern } of PLACEHOLDERS) {
+    template = template.replace(pattern, `<${name}>`);
+  }
+
+  return template.replace(/[ \t]+/g, ' ').trim();
+}
+
+/**
+ * Groups events by message template, most frequent first (ties: most recently seen first). Events with
+ * an empty message are left out.
+ */
+export function buildMessageClusters(events: EventView[]): MessageCluster[] {
+  const groups = new Map<string, EventView[]>();
+  let start = Number.POSITIVE_INFINITY;
+  let end = Number.NEGATIVE_INFINITY;
+  for (const event of events) {
+    const template = messageTemplate(event.message);
+    if (!template) {
+      continue;
+    }
+
+    const group = groups.get(template);
+    if (group) {
+      group.push(event);
+    } else {
+      groups.set(template, [event]);
+    }
+    if (event.time !== null) {
+      start = Math.min(start, event.time);
+      end = Math.max(end, event.time);
+    }
+  }
+
+  return Array.from(groups.entries())
+    .map(([template, group]) => toCluster(template, group, start, end))
+    .sort(
+      (left, right) =>
+        right.events.length - left.events.length ||
+        (right.lastSeen ?? Number.NEGATIVE_INFINITY) - (left.lastSeen ?? Number.NEGATIVE_INFINITY)
+    );
+}
+
+/**
+ * A query matching the events of a cluster: a regular expression for the message template, restricted
+ * to the cluster's levels so the same text logged at other levels stays out.
+ */
+export function clusterQuery(cluster: MessageCluster): string {
+  const levels = cluster.levels.map((level) => buildEqualsTerm('level', level));
+  const levelTerm = levels.length > 1 ? ` AND (${levels.join(' OR ')})` : levels.length === 1 ? ` AND ${levels[0]}` : '';
+
+  // `i`: the url, uuid and hex placeholders were matched case-insensitively.
+  return `message:/${templatePattern(cluster.template)}/i${levelTerm}`;
+}
+
+/** Regular expression source matching the first line of every message with this template. */
+export function templatePattern(template: string): string {
+  const parts = template.split(PLACEHOLDER_TOKEN);
+  const body = parts
+    .map((part, index) => {
+      if (index % 2 === 1) {
+        const placeholder = PLACEHOLDERS.find((candidate) => candidate.name === part);
+        // Grouped, so alternatives inside a placeholder (`"…"|'…'`) do not split the whole pattern.
+        return placeholder ? `(?:${placeholder.pattern.source})` : '';
+      }
+      return escapeRegExp(part).replace(/ /g, '[ \\t]+');
+    })
+    .join('');
+
+  return `^[ \\t]*${body}[ \\t]*(?:\\r?\\n|$)`;
+}
+
+function toCluster(template: string, events: EventView[], start: number, end: number): MessageCluster {
+  let firstSeen: number | null = null;
+  let lastSeen: number | null = null;
+  const sparkline = new Array<number>(SPARKLINE_BINS).fill(0);
+  const binSize = end > start ? (end - start) / SPARKLINE_BINS : 1;
+  for (const { time } of events) {
+    if (time === null) {
+      continue;
+    }
+
+    firstSeen = firstSeen === null ? time : Math.min(firstSeen, time);
+    lastSeen = lastSeen === null ? time : Math.max(lastSeen, time);
+    sparkline[Math.min(Math.floor((time - start) / binSize), SPARKLINE_BINS - 1)] += 1;
+  }
+
+  return {
+    template,
+    events,
+    levels: byFrequency(events.map((event) => event.level)),
+    applications: byFrequency(events.map((event) => event.application)),
+    contexts: byFrequency(events.map((event) => event.context)),
+    firstSeen,
+    lastSeen,
+    sparkline
+  };
+}
+
+function byFrequency(values: string[]): string[] {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    if (value && value !== '-') {
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+  }
+
+  return Array.from(counts.entries())
+    .sort((left, right) => right[1] - left[1])
+    .map(([value]) => value);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
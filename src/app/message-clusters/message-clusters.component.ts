@@ -0,0 +1,99 @@
+import { DatePipe, DecimalPipe } from '@angular/common';
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+
+import { EventView, LevelTone, MessageCluster } from '../log-viewer.model';
+import { buildMessageClusters } from '../message-clusters';
+
+type ClusterScope = 'problems' | 'errors' | 'all';
+
+interface ClusterRow {
+  cluster: MessageCluster;
+  /** `points` of the sparkline polyline. */
+  sparkline: string;
+}
+
+const MAX_LISTED_CLUSTERS = 100;
+const SPARKLINE_WIDTH = 90;
+const SPARKLINE_HEIGHT = 18;
+const SCOPE_TONES: Record<ClusterScope, LevelTone[] | null> = {
+  problems: ['error', 'warning'],
+  errors: ['error'],
+  all: null
+};
+
+/**
+ * Ranks the messages of the loaded events by template, so thousands of errors collapse into a short
+ * list of distinct problems. Built only while open; opening a cluster is left to the parent, which
+ * filters the viewer to it.
+ */
+@Component({
+  selector: 'app-message-clusters',
+  imports: [DatePipe, DecimalPipe, FormsModule],
+  templateUrl: './message-clusters.component.html',
+  styleUrl: './message-clusters.component.css'
+})
+export class MessageClustersComponent implements OnChanges {
+  @Input({ required: true }) events: EventView[] = [];
+  @Output() openCluster = new EventEmitter<MessageCluster>();
+
+  readonly maxListed = MAX_LISTED_CLUSTERS;
+  readonly sparklineWidth = SPARKLINE_WIDTH;
+  readonly sparklineHeight = SPARKLINE_HEIGHT;
+  isOpen = false;
+  scope: ClusterScope = 'problems';
+  clusterCount = 0;
+  eventCount = 0;
+  rows: ClusterRow[] = [];
+
+  ngOnChanges(): void {
+    if (this.isOpen) {
+      this.buildClusters();
+    }
+  }
+
+  onToggle(event: Event): void {
+    this.isOpen = (event.target as HTMLDetailsElement).open;
+    if (this.isOpen) {
+      this.buildClusters();
+    }
+  }
+
+  onScopeChange(): void {
+    this.buildClusters();
+  }
+
+  /** The first few values, with a count of the rest. */
+  summarize(values: string[]): string {
+    if (values.length === 0) {
+      return '-';
+    }
+
+    return values.length > 3 ? `${values.slice(0, 3).join(', ')} +${values.length - 3}` : values.join(', ');
+  }
+
+  private buildClusters(): void {
+    const tones = SCOPE_TONES[this.scope];
+    const events = tones ? this.events.filter((event) => tones.includes(event.levelTone)) : this.events;
+    const clusters = buildMessageClusters(events);
+
+    this.eventCount = events.length;
+    this.clusterCount = clusters.length;
+    this.rows = clusters.slice(0, MAX_LISTED_CLUSTERS).map((cluster) => ({
+      cluster,
+      sparkline: toPolyline(cluster.sparkline)
+    }));
+  }
+}
+
+function toPolyline(counts: number[]): string {
+  const max = Math.max(1, ...counts);
+  const step = counts.length > 1 ? SPARKLINE_WIDTH / (counts.length - 1) : 0;
+
+  return counts
+    .map((count, index) => {
+      const y = SPARKLINE_HEIGHT - 1 - (count / max) * (SPARKLINE_HEIGHT - 2);
+      return `${(index * step).toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+}
@@ -0,0 +1,31 @@
+import { Component, Input } from '@angular/core';
+
+import { getRawJsonPreview } from '../json-preview';
+import { JsonPreviewTarget, LogSource } from '../log-viewer.model';
+
+/**
+ * Shows the metadata of each file: the recognized blocks as fact cards, the remaining top-level entries as
+ * plain cards, each with its raw JSON on demand.
+ */
+@Component({
+  selector: 'app-metadata-panel',
+  templateUrl: './metadata-panel.component.html',
+  styleUrl: './metadata-panel.component.css'
+})
+export class MetadataPanelComponent {
+  @Input({ required: true }) sources: LogSource[] = [];
+
+  expandedMetaKey: string | null = null;
+
+  toggleMetaJson(metaKey: string): void {
+    this.expandedMetaKey = this.expandedMetaKey === metaKey ? null : metaKey;
+  }
+
+  isMetaExpanded(metaKey: string): boolean {
+    return this.expandedMetaKey === metaKey;
+  }
+
+  getMetaRawJson(target: JsonPreviewTarget): string {
+    return getRawJsonPreview(target);
+  }
+}
@@ -0,0 +1,72 @@
+import { FilterDimension } from './log-viewer.model';
+import { PaletteViewer, buildPaletteCommands } from './palette-commands';
+
+function fakeViewer(overrides: Partial<PaletteViewer> = {}): PaletteViewer & { calls: string[] } {
+  const calls: string[] = [];
+  const record =
+    (name: string) =>
+    (...args: unknown[]): void => {
+      calls.push([name, ...args].join(' '));
+    };
+
+  return {
+    calls,
+    sources: [],
+    isParsing: false,
+    isLive: false,
+    isLoaded: true,
+    eventsView: 'list',
+    showOriginal: false,
+    bookmarkedOnly: false,
+    timeRange: null,
+    levelOptions: ['ERROR', 'INFO'],
+    applicationOptions: ['AgentDesktop'],
+    contextOptions: [],
+    sourceOptions: ['axp.json'],
+    openFilePicker: record('openFilePicker'),
+    closeAllFiles: record('closeAllFiles'),
+    cancelParse: record('cancelParse'),
+    stopLiveTail: record('stopLiveTail'),
+    runShortcut: record('runShortcut'),
+    setOriginalValues: record('setOriginalValues'),
+    clearFilters: record('clearFilters'),
+    setBookmarkedOnly: record('setBookmarkedOnly'),
+    onTimeRangeChange: record('onTimeRangeChange'),
+    isFilterOptionSelected: (filterType: FilterDimension, option: string) =>
+      filterType === 'level' && option === 'ERROR',
+    setFilterOption: record('setFilterOption'),
+    ...overrides
+  };
+}
+
+describe('buildPaletteCommands', () => {
+  it('should offer only the file commands before anything is loaded', () => {
+    const labels = buildPaletteCommands(fakeViewer({ isLoaded: false })).map((command) => command.label);
+
+    expect(labels).toEqual(['Open files…']);
+  });
+
+  it('should list the event shortcuts with their keys and a toggle for every filter option', () => {
+    const viewer = fakeViewer();
+    const commands = buildPaletteCommands(viewer);
+    const find = (label: string) => commands.find((command) => command.label === label);
+
+    expect(find('Next error')?.shortcut).toBe('n');
+    expect(commands.filter((command) => command.group === 'Level filter').map((command) => command.label)).toEqual([
+      'Unselect ERROR',
+      'Select INFO'
+    ]);
+    expect(commands.some((command) => command.group === 'Source file filter')).toBeFalse();
+
+    find('Next error')?.run();
+    find('Unselect ERROR')?.run();
+    find('Select AgentDesktop')?.run();
+    find('Show statistics')?.run();
+    expect(viewer.calls).toEqual([
+      'runShortcut nextError',
+      'setFilterOption level ERROR false',
+      'setFilterOption application AgentDesktop true'
+    ]);
+    expect(viewer.eventsView).toBe('statistics');
+  });
+});
@@ -0,0 +1,108 @@
+import { KEYBOARD_SHORTCUTS, ViewerShortcut } from './keyboard-shortcuts';
+import { FilterDimension, LogSource, PaletteCommand, TimeRange } from './log-viewer.model';
+
+/** The parts of the viewer the command palette reads and drives. */
+export interface PaletteViewer {
+  readonly sources: LogSource[];
+  readonly isParsing: boolean;
+  readonly isLive: boolean;
+  readonly isLoaded: boolean;
+  eventsView: 'list' | 'statistics';
+  readonly showOriginal: boolean;
+  readonly bookmarkedOnly: boolean;
+  readonly timeRange: TimeRange | null;
+  readonly levelOptions: string[];
+  readonly applicationOptions: string[];
+  readonly contextOptions: string[];
+  readonly sourceOptions: string[];
+  openFilePicker(append: boolean): void;
+  closeAllFiles(): void;
+  cancelParse(): void;
+  stopLiveTail(): void;
+  runShortcut(action: ViewerShortcut): void;
+  setOriginalValues(showOriginal: boolean): void;
+  clearFilters(): void;
+  setBookmarkedOnly(bookmarkedOnly: boolean): void;
+  onTimeRangeChange(range: TimeRange | null): void;
+  isFilterOptionSelected(filterType: FilterDimension, option: string): boolean;
+  setFilterOption(filterType: FilterDimension, option: string, checked: boolean): void;
+}
+
+const EVENT_SHORTCUTS: [string, ViewerShortcut][] = [
+  ['Next event', 'nextEvent'],
+  ['Previous event', 'previousEvent'],
+  ['Next error', 'nextError'],
+  ['Previous error', 'previousError'],
+  ['Show or hide the details of the current event', 'toggleDetails'],
+  ['Bookmark the current event or remove its bookmark', 'toggleBookmark']
+];
+
+/**
+ * Every action of the viewer for the command palette, including a select or unselect command for each
+ * filter option. Built from the current state, so the labels say what running a command will do.
+ */
+export function buildPaletteCommands(viewer: PaletteViewer): PaletteCommand[] {
+  const commands: PaletteCommand[] = [];
+  const add = (group: string, label: string, run: () => void, shortcut?: ViewerShortcut): void => {
+    commands.push({
+      id: `${group}:${label}`,
+      group,
+      label,
+      shortcut: shortcut ? KEYBOARD_SHORTCUTS[shortcut] : undefined,
+      run
+    });
+  };
+
+  add('Files', 'Open files…', () => viewer.openFilePicker(false));
+  if (viewer.sources.length > 0) {
+    add('Files', 'Add files to the timeline…', () => viewer.openFilePicker(true));
+    add('Files', 'Close all files', () => viewer.closeAllFiles());
+  }
+  if (viewer.isParsing) {
+    add('Files', 'Cancel parsing', () => viewer.cancelParse());
+  }
+  if (viewer.isLive) {
+    add('Files', 'Disconnect the live feed', () => viewer.stopLiveTail());
+  }
+  if (!viewer.isLoaded) {
+    return commands;
+  }
+
+  for (const [label, shortcut] of EVENT_SHORTCUTS) {
+    add('Events', label, () => viewer.runShortcut(shortcut), shortcut);
+  }
+  const otherView = viewer.eventsView === 'list' ? 'statistics' : 'list';
+  add('Events', otherView === 'statistics' ? 'Show statistics' : 'Show the event list', () => {
+    viewer.eventsView = otherView;
+  });
+  add('Events', viewer.showOriginal ? 'Show redacted values' : 'Show original values', () =>
+    viewer.setOriginalValues(!viewer.showOriginal)
+  );
+
+  add('Filters', 'Search query', () => viewer.runShortcut('focusSearch'), 'focusSearch');
+  add('Filters', 'Clear filters', () => viewer.clearFilters());
+  add('Filters', viewer.bookmarkedOnly ? 'Show all events, not only bookmarked' : 'Bookmarked events only', () =>
+    viewer.setBookmarkedOnly(!viewer.bookmarkedOnly)
+  );
+  if (viewer.timeRange) {
+    add('Filters', 'Clear time range', () => viewer.onTimeRangeChange(null));
+  }
+
+  const dimensions: [FilterDimension, string, string[]][] = [
+    ['level', 'Level filter', viewer.levelOptions],
+    ['application', 'Application filter', viewer.applicationOptions],
+    ['context', 'Context filter', viewer.contextOptions],
+    // Like the filters panel, the file filter only exists with more than one file.
+    ['source', 'Source file filter', viewer.sourceOptions.length > 1 ? viewer.sourceOptions : []]
+  ];
+  for (const [dimension, group, options] of dimensions) {
+    for (const option of options) {
+      const selected = viewer.isFilterOptionSelected(dimension, option);
+      add(group, `${selected ? 'Unselect' : 'Select'} ${option}`, () =>
+        viewer.setFilterOption(dimension, option, !selected)
+      );
+    }
+  }
+
+  return commands;
+}
@@ -0,0 +1,70 @@
+import { Injectable } from '@angular/core';
+
+import { readStoredJson, writeStoredJson } from './local-storage';
+import { RedactionDetector, RedactionRule, RedactionSettings } from './log-viewer.model';
+import { DEFAULT_REDACTION_SETTINGS, REDACTION_DETECTORS, Redactor, compileRedactionRule } from './redaction';
+
+const STORAGE_KEY = 'ws-log-viewer.redaction';
+
+/** Which detectors and custom rules mask personal data, kept in local storage so they survive reloads. */
+@Injectable({ providedIn: 'root' })
+export class RedactionSettingsService {
+  readonly detectors = REDACTION_DETECTORS;
+  settings: RedactionSettings = this.load();
+  redactor = new Redactor(this.settings);
+
+  isDetectorEnabled(id: RedactionDetector): boolean {
+    return this.settings.detectors.includes(id);
+  }
+
+  setDetector(id: RedactionDetector, enabled: boolean): void {
+    const detectors = this.settings.detectors.filter((detector) => detector !== id);
+    this.update({ ...this.settings, detectors: enabled ? [...detectors, id] : detectors });
+  }
+
+  /** Validates and stores a new rule; throws with a readable message when it is unusable. */
+  addRule(name: string, kind: RedactionRule['kind'], expression: string): void {
+    const rule: RedactionRule = {
+      id: `rule-${Date.now().toString(36)}`,
+      name: name.trim(),
+      kind,
+      expression: expression.trim()
+    };
+    compileRedactionRule(rule);
+
+    this.update({ ...this.settings, rules: [...this.settings.rules, rule] });
+  }
+
+  removeRule(id: string): void {
+    this.update({ ...this.settings, rules: this.settings.rules.filter((rule) => rule.id !== id) });
+  }
+
+  private update(settings: RedactionSettings): void {
+    this.settings = settings;
+    this.redactor = new Redactor(settings);
+    writeStoredJson(STORAGE_KEY, settings);
+  }
+
+  private load(): RedactionSettings {
+    const stored = readStoredJson(STORAGE_KEY) as Partial<RedactionSettings> | null;
+    if (!stored) {
+      return DEFAULT_REDACTION_SETTINGS;
+    }
+
+    const known = REDACTION_DETECTORS.map((detector) => detector.id);
+    return {
+      detectors: Array.isArray(stored.detectors)
+        ? stored.detectors.filter((id): id is RedactionDetector => known.includes(id))
+        : DEFAULT_REDACTION_SETTINGS.detectors,
+      rules: Array.isArray(stored.rules)
+        ? stored.rules.filter(
+            (rule): rule is RedactionRule =>
+              typeof rule?.id === 'string' &&
+              typeof rule?.name === 'string' &&
+              (rule?.kind === 'pattern' || rule?.kind === 'path') &&
+              typeof rule?.expression === 'string'
+          )
+        : []
+    };
+  }
+}
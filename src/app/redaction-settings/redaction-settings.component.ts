@@ -0,0 +1,50 @@
+import { Component, EventEmitter, Output, inject } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+
+import { RedactionDetector, RedactionRule } from '../log-viewer.model';
+import { RedactionSettingsService } from '../redaction-settings.service';
+
+/**
+ * Switches the built-in personal data detectors on and off and manages custom pattern and JSON path rules.
+ * Changes apply to the open files at once; `changed` tells the viewer to rebuild what it shows.
+ */
+@Component({
+  selector: 'app-redaction-settings',
+  imports: [FormsModule],
+  templateUrl: './redaction-settings.component.html',
+  styleUrl: './redaction-settings.component.css'
+})
+export class RedactionSettingsComponent {
+  readonly settings = inject(RedactionSettingsService);
+
+  @Output() changed = new EventEmitter<void>();
+
+  name = '';
+  kind: RedactionRule['kind'] = 'pattern';
+  expression = '';
+  error = '';
+
+  toggleDetector(id: RedactionDetector, event: Event): void {
+    this.settings.setDetector(id, (event.target as HTMLInputElement).checked);
+    this.changed.emit();
+  }
+
+  addRule(): void {
+    try {
+      this.settings.addRule(this.name, this.kind, this.expression);
+    } catch (error) {
+      this.error = error instanceof Error ? error.message : 'Invalid rule';
+      return;
+    }
+
+    this.name = '';
+    this.expression = '';
+    this.error = '';
+    this.changed.emit();
+  }
+
+  removeRule(id: string): void {
+    this.settings.removeRule(id);
+    this.changed.emit();
+  }
+}
@@ -0,0 +1,121 @@
+import { EventView, RedactionSettings } from './log-viewer.model';
+import { DEFAULT_REDACTION_SETTINGS, Redactor, compileRedactionRule } from './redaction';
+
+function eventWith(message: string, rawValue: unknown): EventView {
+  return {
+    uid: 's1:0-e1',
+    id: 'e1',
+    source: 'a.json',
+    timestamp: '2024-01-01T10:00:00Z',
+    time: Date.UTC(2024, 0, 1, 10),
+    level: 'INFO',
+    levelTone: 'info',
+    application: 'app',
+    context: 'ctx',
+    message,
+    lineTitle: message,
+    rawValue
+  };
+}
+
+function withRules(rules: RedactionSettings['rules']): Redactor {
+  return new Redactor({ detectors: [], rules });
+}
+
+describe('Redactor', () => {
+  const redactor = new Redactor(DEFAULT_REDACTION_SETTINGS);
+
+  it('should mask emails, phone numbers, tokens and IP addresses in text', () => {
+    const text =
+      'agent jane.doe@example.com called +44 20 7946 0958 and (555) 123-4567 from 10.1.2.3 ' +
+      'with Authorization: Bearer abc.def-123456 and eyJhbGciOiJIUzI1NiJ9.eyJzdWIiOiIxIn0.sig';
+
+    expect(redactor.redactText(text)).toBe(
+      'agent [redacted:email] called [redacted:phone] and [redacted:phone] from [redacted:ip] ' +
+        'with Authorization: Bearer [redacted:token] and [redacted:token]'
+    );
+  });
+
+  it('should leave timestamps, durations and numeric ids alone', () => {
+    const text = '2024-01-01T10:00:00.123Z took 1500 ms, id 1714557600123, call 1234567890';
+
+    expect(redactor.redactText(text)).toBe(text);
+  });
+
+  it('should mask values under path rules, with wildcards, and where they reappear in the text', () => {
+    const paths = withRules([
+      { id: 'r1', name: 'customer', kind: 'path', expression: 'data.customer.*' },
+      { id: 'r2', name: 'secrets', kind: 'path', expression: '**.*token' }
+    ]);
+    const event = eventWith('Customer Jane Roe joined', {
+      data: { customer: { name: 'Jane Roe', id: 7 }, session: { authToken: 'opaque-value' } },
+      topic: 'join'
+    });
+
+    const redacted = paths.redactEvent(event);
+
+    expect(redacted.message).toBe('Customer [redacted] joined');
+    expect(redacted.rawValue).toEqual({
+      data: { customer: { name: '[redacted]', id: '[redacted]' }, session: { authToken: '[redacted]' } },
+      topic: 'join'
+    });
+    expect(event.rawValue).toEqual({
+      data: { customer: { name: 'Jane Roe', id: 7 }, session: { authToken: 'opaque-value' } },
+      topic: 'join'
+    });
+  });
+
+  it('should redact the raw value of an event only when it is read', () => {
+    const raw = { data: { message: 'mail me at a@b.io' } };
+    const redacted = redactor.redactEvent(eventWith('mail me at a@b.io', raw));
+
+    expect(redacted.message).toBe('mail me at [redacted:email]');
+    expect(redacted.rawJsonCache).toBeUndefined();
+    expect(redacted.rawValue).toEqual({ data: { message: 'mail me at [redacted:email]' } });
+    expect(redacted.rawValue).toBe(redacted.rawValue);
+  });
+
+  it('should label custom pattern matches with the rule name', () => {
+    const custom = withRules([{ id: 'r1', name: 'ticket', kind: 'pattern', expression: 'TCK-\\d+' }]);
+
+    expect(custom.redactText('see TCK-1234')).toBe('see [redacted:ticket]');
+  });
+
+  it('should redact metadata facts, entries and their raw JSON', () => {
+    const summary = redactor.redactSummary({
+      applicationName: 'Workspaces',
+      prettyMetaBlocks: [
+        {
+          key: 'agent',
+          title: 'Agent',
+          subtitle: 'agent@example.com',
+          facts: [{ label: 'Handle', value: 'agent@example.com' }],
+          highlights: [],
+          rawValue: { handle: 'agent@example.com' }
+        }
+      ],
+      metaEntries: [{ key: 'host', value: '192.168.0.10', rawValue: '192.168.0.10' }]
+    });
+
+    expect(summary.prettyMetaBlocks[0].facts[0].value).toBe('[redacted:email]');
+    expect(summary.prettyMetaBlocks[0].rawValue).toEqual({ handle: '[redacted:email]' });
+    expect(summary.metaEntries[0].value).toBe('[redacted:ip]');
+  });
+
+  it('should return events unchanged when nothing is configured', () => {
+    const event = eventWith('a@b.io', {});
+
+    expect(withRules([]).redactEvent(event)).toBe(event);
+  });
+});
+
+describe('compileRedactionRule', () => {
+  it('should reject empty expressions and invalid patterns', () => {
+    expect(() => compileRedactionRule({ id: 'r', name: 'x', kind: 'path', expression: ' ' })).toThrowError(
+      /needs an expression/
+    );
+    expect(() => compileRedactionRule({ id: 'r', name: 'x', kind: 'pattern', expression: '(' })).toThrowError(
+      /Invalid pattern/
+    );
+  });
+});
@@ -0,0 +1,290 @@
+import {
+  EventView,
+  LogDocumentSummary,
+  MetaEntry,
+  PrettyMetadataBlock,
+  RedactionDetector,
+  RedactionRule,
+  RedactionSettings
+} from './log-viewer.model';
+
+interface DetectorDefinition {
+  id: RedactionDetector;
+  name: string;
+  pattern: RegExp;
+  /** `String.replace` replacement; may keep groups of the match such as a `Bearer ` prefix. */
+  replacement: string;
+}
+
+export const REDACTION_DETECTORS: DetectorDefinition[] = [
+  {
+    id: 'email',
+    name: 'Email addresses',
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+    replacement: '[redacted:email]'
+  },
+  {
+    id: 'phone',
+    name: 'Phone numbers',
+    // Either an international `+` number or a separated 3-3-4 group, so ids and epoch times are left alone.
+    pattern: /(?<![\w+])(?:\+\d[\d\s().-]{6,16}\d|\(?\d{3}\)?[\s.-]\d{3}[\s.-]\d{4})(?!\w)/g,
+    replacement: '[redacted:phone]'
+  },
+  {
+    id: 'token',
+    name: 'JWT and bearer tokens',
+    pattern: /\b(Bearer\s+)[\w.~+/-]{8,}=*|\beyJ[\w-]+\.[\w-]+\.[\w-]*/gi,
+    replacement: '$1[redacted:token]'
+  },
+  {
+    id: 'ip',
+    name: 'IP addresses',
+    pattern:
+      /(?<![\w.:])(?:(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)|(?:[0-9a-f]{1,4}:){7}[0-9a-f]{1,4}|(?:[0-9a-f]{1,4}:){1,6}:(?:[0-9a-f]{1,4}(?::[0-9a-f]{1,4}){0,5})?)(?![\w.:])/gi,
+    replacement: '[redacted:ip]'
+  }
+];
+
+export const DEFAULT_REDACTION_SETTINGS: RedactionSettings = {
+  detectors: REDACTION_DETECTORS.map((detector) => detector.id),
+  rules: []
+};
+
+const PATH_REPLACEMENT = '[redacted]';
+/** Values found under a path rule are also masked in event text, but very short ones would mask noise. */
+const MIN_SECRET_LENGTH = 4;
+
+type PathSegment = RegExp | '**';
+
+interface TextRule {
+  pattern: RegExp;
+  replacement: string;
+}
+
+/** Validates a rule and returns its compiled form; throws with a readable message when it is unusable. */
+export function compileRedactionRule(rule: RedactionRule): TextRule | PathSegment[] {
+  if (!rule.expression.trim()) {
+    throw new Error('The rule needs an expression.');
+  }
+
+  if (rule.kind === 'path') {
+    return rule.expression
+      .trim()
+      .split('.')
+      .map((segment) =>
+        segment === '**'
+          ? '**'
+          : new RegExp(`^${segment.split('*').map(escapeRegExp).join('.*')}$`, 'i')
+      );
+  }
+
+  try {
+    return {
+      pattern: new RegExp(rule.expression, 'g'),
+      replacement: `[redacted:${(rule.name.trim() || 'custom').replace(/\$/g, '$$$$')}]`
+    };
+  } catch (error) {
+    throw new Error(`Invalid pattern: ${error instanceof Error ? error.message : 'unknown error'}`);
+  }
+}
+
+/**
+ * Masks personal data and secrets in what the viewer shows. Text goes through the enabled detectors and
+ * pattern rules; raw JSON additionally has every value under a path rule replaced, and the values found
+ * there are masked wherever they reappear in the derived text (an event message read from a masked key).
+ */
+export class Redactor {
+  private readonly textRules: TextRule[] = [];
+  private readonly pathRules: PathSegment[][] = [];
+
+  constructor(settings: RedactionSettings) {
+    for (const detector of REDACTION_DETECTORS) {
+      if (settings.detectors.includes(detector.id)) {
+        this.textRules.push({ pattern: detector.pattern, replacement: detector.replacement });
+      }
+    }
+
+    for (const rule of settings.rules) {
+      try {
+        const compiled = compileRedactionRule(rule);
+        if (Array.isArray(compiled)) {
+          this.pathRules.push(compiled);
+        } else {
+          this.textRules.push(compiled);
+        }
+      } catch {
+        // Invalid rules are rejected when they are saved; a stale one is simply not applied.
+      }
+    }
+  }
+
+  get active(): boolean {
+    return this.textRules.length > 0 || this.pathRules.length > 0;
+  }
+
+  redactText(text: string, secrets: string[] = []): string {
+    let result = text;
+    for (const secret of secrets) {
+      result = result.split(secret).join(PATH_REPLACEMENT);
+    }
+    for (const rule of this.textRules) {
+      result = result.replace(rule.pattern, rule.replacement);
+    }
+
+    return result;
+  }
+
+  /** A redacted copy of a raw JSON value; the original is left untouched. */
+  redactValue(value: unknown, path: string[] = []): unknown {
+    if (this.isMaskedPath(path)) {
+      return PATH_REPLACEMENT;
+    }
+
+    if (typeof value === 'string') {
+      return this.redactText(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, index) => this.redactValue(item, [...path, String(index)]));
+    }
+    if (value && typeof value === 'object') {
+      const copy: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        copy[key] = this.redactValue(item, [...path, key]);
+      }
+      return copy;
+    }
+
+    return value;
+  }
+
+  /** The primitive values under path rules, longest first so overlapping secrets are masked whole. */
+  secretsIn(value: unknown): string[] {
+    if (this.pathRules.length === 0) {
+      return [];
+    }
+
+    const secrets = new Set<string>();
+    this.collectSecrets(value, [], secrets);
+
+    return Array.from(secrets)
+      .filter((secret) => secret.length >= MIN_SECRET_LENGTH)
+      .sort((left, right) => right.length - left.length);
+  }
+
+  /**
+   * A redacted copy of an event. The raw value is only redacted when something reads it (a JSON preview,
+   * a query on raw fields, an export), so masking a large log does not copy every payload up front.
+   */
+  redactEvent(event: EventView): EventView {
+    if (!this.active) {
+      return event;
+    }
+
+    const secrets = this.secretsIn(event.rawValue);
+    const text = (value: string): string => this.redactText(value, secrets);
+    let rawValue: unknown;
+    let rawRedacted = false;
+    const redactValue = (): unknown => {
+      if (!rawRedacted) {
+        rawValue = this.redactValue(event.rawValue);
+        rawRedacted = true;
+      }
+      return rawValue;
+    };
+
+    return {
+      ...event,
+      id: text(event.id),
+      application: text(event.application),
+      context: text(event.context),
+      message: text(event.message),
+      lineTitle: text(event.lineTitle),
+      rawJsonCache: undefined,
+      get rawValue(): unknown {
+        return redactValue();
+      }
+    };
+  }
+
+  redactSummary(summary: LogDocumentSummary): LogDocumentSummary {
+    if (!this.active) {
+      return summary;
+    }
+
+    return {
+      applicationName: this.redactText(summary.applicationName),
+      prettyMetaBlocks: summary.prettyMetaBlocks.map((block) => this.redactBlock(block)),
+      metaEntries: summary.metaEntries.map((entry) => this.redactEntry(entry))
+    };
+  }
+
+  private redactBlock(block: PrettyMetadataBlock): PrettyMetadataBlock {
+    const secrets = this.secretsIn(block.rawValue);
+    const text = (value: string): string => this.redactText(value, secrets);
+
+    return {
+      ...block,
+      title: text(block.title),
+      subtitle: text(block.subtitle),
+      facts: block.facts.map((fact) => ({ label: fact.label, value: text(fact.value) })),
+      highlights: block.highlights.map(text),
+      rawValue: this.redactValue(block.rawValue),
+      rawJsonCache: undefined
+    };
+  }
+
+  private redactEntry(entry: MetaEntry): MetaEntry {
+    return {
+      ...entry,
+      value: this.redactText(entry.value, this.secretsIn(entry.rawValue)),
+      rawValue: this.redactValue(entry.rawValue),
+      rawJsonCache: undefined
+    };
+  }
+
+  private collectSecrets(value: unknown, path: string[], into: Set<string>): void {
+    if (this.isMaskedPath(path)) {
+      collectLeaves(value, into);
+    } else if (value && typeof value === 'object') {
+      for (const [key, item] of Object.entries(value)) {
+        this.collectSecrets(item, [...path, key], into);
+      }
+    }
+  }
+
+  private isMaskedPath(path: string[]): boolean {
+    return path.length > 0 && this.pathRules.some((rule) => matchesPath(rule, path));
+  }
+}
+
+function matchesPath(rule: PathSegment[], path: string[]): boolean {
+  if (rule.length === 0) {
+    return path.length === 0;
+  }
+
+  const [head, ...rest] = rule;
+  if (head === '**') {
+    for (let skip = 0; skip <= path.length; skip += 1) {
+      if (matchesPath(rest, path.slice(skip))) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  return path.length > 0 && head.test(path[0]) && matchesPath(rest, path.slice(1));
+}
+
+function collectLeaves(value: unknown, into: Set<string>): void {
+  if (value && typeof value === 'object') {
+    for (const item of Object.values(value)) {
+      collectLeaves(item, into);
+    }
+  } else if (value !== null && value !== undefined) {
+    into.add(String(value));
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
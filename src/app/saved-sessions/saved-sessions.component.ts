@@ -0,0 +1,40 @@
+import { DatePipe } from '@angular/common';
+import { Component, EventEmitter, Input, OnInit, Output, inject } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+
+import { SavedSession } from '../log-viewer.model';
+import { SessionStoreService } from '../session-store.service';
+
+/**
+ * Lists the investigations saved in this browser. Saving and reopening need the viewer's state, so they are
+ * reported to the parent; deleting is handled here.
+ */
+@Component({
+  selector: 'app-saved-sessions',
+  imports: [DatePipe, FormsModule],
+  templateUrl: './saved-sessions.component.html',
+  styleUrl: './saved-sessions.component.css'
+})
+export class SavedSessionsComponent implements OnInit {
+  readonly store = inject(SessionStoreService);
+
+  /** Whether there are open files worth saving. */
+  @Input() canSave = false;
+  @Output() save = new EventEmitter<string>();
+  @Output() open = new EventEmitter<SavedSession>();
+
+  name = '';
+
+  ngOnInit(): void {
+    void this.store.refresh();
+  }
+
+  saveSession(): void {
+    this.save.emit(this.name);
+    this.name = '';
+  }
+
+  fileNames(session: SavedSession): string {
+    return session.files.map((file) => file.name).join(', ');
+  }
+}
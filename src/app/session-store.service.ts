@@ -0,0 +1,91 @@
+import { Injectable } from '@angular/core';
+
+import { SavedSession } from './log-viewer.model';
+
+const DB_NAME = 'ws-log-viewer';
+const DB_VERSION = 1;
+const STORE_NAME = 'sessions';
+
+/**
+ * Named investigations kept in IndexedDB. The log files themselves are stored alongside the filters, so a
+ * session reopens without picking the files again. `sessions` is the newest-first list the UI renders.
+ */
+@Injectable({ providedIn: 'root' })
+export class SessionStoreService {
+  sessions: SavedSession[] = [];
+  /** Set when IndexedDB cannot be used or an operation failed. */
+  error = '';
+
+  private database: Promise<IDBDatabase> | null = null;
+
+  async refresh(): Promise<void> {
+    try {
+      const sessions = await this.request<SavedSession[]>('readonly', (store) => store.getAll());
+      this.sessions = sessions.sort((a, b) => b.savedAt - a.savedAt);
+      this.error = '';
+    } catch (error) {
+      this.fail(error);
+    }
+  }
+
+  /** Saves under a new id, or replaces the session that already has this name. */
+  async save(session: Omit<SavedSession, 'id' | 'savedAt'>): Promise<void> {
+    const name = session.name.trim() || 'Untitled session';
+    const existing = this.sessions.find((candidate) => candidate.name === name);
+    const record: SavedSession = {
+      ...session,
+      id: existing?.id ?? `session-${Date.now().toString(36)}`,
+      name,
+      savedAt: Date.now()
+    };
+
+    try {
+      await this.request('readwrite', (store) => store.put(record));
+    } catch (error) {
+      this.fail(error);
+      return;
+    }
+    await this.refresh();
+  }
+
+  async remove(id: string): Promise<void> {
+    try {
+      await this.request('readwrite', (store) => store.delete(id));
+    } catch (error) {
+      this.fail(error);
+      return;
+    }
+    await this.refresh();
+  }
+
+  private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const database = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const request = run(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.database ??= new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('This browser does not support IndexedDB.'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    // Let a later call retry instead of replaying the same failure.
+    this.database.catch(() => (this.database = null));
+    return this.database;
+  }
+
+  private fail(error: unknown): void {
+    this.error = error instanceof Error ? error.message : 'Saved sessions are unavailable.';
+  }
+}
@@ -0,0 +1,43 @@
+import { TestBed } from '@angular/core/testing';
+
+import { LogSource } from '../log-viewer.model';
+import { SkippedLinesComponent } from './skipped-lines.component';
+
+function source(key: string, skippedLines: LogSource['skippedLines'], linesSkipped: number): LogSource {
+  return {
+    key,
+    name: `${key}.jsonl`,
+    file: new File([''], `${key}.jsonl`),
+    status: 'complete',
+    progress: { bytesRead: 0, totalBytes: 0, eventsParsed: 0, linesSkipped },
+    error: '',
+    format: 'ndjson',
+    profileName: 'Workspaces (built-in)',
+    skippedLines,
+    applicationName: '',
+    prettyMetaBlocks: [],
+    metaEntries: []
+  };
+}
+
+describe('SkippedLinesComponent', () => {
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [SkippedLinesComponent]
+    }).compileComponents();
+  });
+
+  it('should list skipped lines only for files that have them', () => {
+    const fixture = TestBed.createComponent(SkippedLinesComponent);
+    fixture.componentRef.setInput('sources', [
+      source('clean', [], 0),
+      source('broken', [{ line: 7, error: 'Unexpected token', text: '{"id": ' }], 3)
+    ]);
+    fixture.detectChanges();
+
+    const element = fixture.nativeElement as HTMLElement;
+    expect(element.querySelectorAll('.skipped-source').length).toBe(1);
+    expect(element.querySelector('.skipped-line-number')?.textContent).toContain('Line 7');
+    expect(element.querySelector('.skipped-note')?.textContent).toContain('first 1');
+  });
+});
@@ -0,0 +1,22 @@
+import { DecimalPipe } from '@angular/common';
+import { Component, Input } from '@angular/core';
+
+import { LogSource } from '../log-viewer.model';
+
+/**
+ * Lists the records each file could not parse, with line number and parser error, so a few bad lines in a
+ * JSON Lines export are visible instead of failing the whole file.
+ */
+@Component({
+  selector: 'app-skipped-lines',
+  imports: [DecimalPipe],
+  templateUrl: './skipped-lines.component.html',
+  styleUrl: './skipped-lines.component.css'
+})
+export class SkippedLinesComponent {
+  @Input({ required: true }) sources: LogSource[] = [];
+
+  get affectedSources(): LogSource[] {
+    return this.sources.filter((source) => source.skippedLines.length > 0);
+  }
+}
@@ -0,0 +1,63 @@
+import { DatePipe, DecimalPipe, PercentPipe } from '@angular/common';
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
+
+import { formatDuration } from '../duration-format';
+import { CountRow, EventStatistics, buildEventStatistics } from '../event-stats';
+import { EventView, TimeRange } from '../log-viewer.model';
+
+interface CountTable {
+  title: string;
+  rows: CountRow[];
+  /** Rows past the display limit, summarized as one count. */
+  hiddenCount: number;
+}
+
+const MAX_COUNT_ROWS = 15;
+
+/**
+ * Aggregate picture of the filtered events: counts per level, application and context, rates, busiest
+ * minutes, longest silences and most frequent messages. A busy minute can be selected as the time range
+ * and a gap shows the event before it; both are handled by the parent.
+ */
+@Component({
+  selector: 'app-stats-dashboard',
+  imports: [DatePipe, DecimalPipe, PercentPipe],
+  templateUrl: './stats-dashboard.component.html',
+  styleUrl: './stats-dashboard.component.css'
+})
+export class StatsDashboardComponent implements OnChanges {
+  @Input({ required: true }) events: EventView[] = [];
+  @Input() levelOptions: string[] = [];
+  @Input() applicationOptions: string[] = [];
+  @Input() contextOptions: string[] = [];
+  @Output() rangeChange = new EventEmitter<TimeRange>();
+  @Output() showEvent = new EventEmitter<string>();
+
+  stats: EventStatistics | null = null;
+  countTables: CountTable[] = [];
+
+  ngOnChanges(): void {
+    this.stats = buildEventStatistics(this.events, {
+      levels: this.levelOptions,
+      applications: this.applicationOptions,
+      contexts: this.contextOptions
+    });
+    this.countTables = [
+      toCountTable('Levels', this.stats.levels),
+      toCountTable('Applications', this.stats.applications),
+      toCountTable('Contexts', this.stats.contexts)
+    ];
+  }
+
+  duration(ms: number): string {
+    return formatDuration(ms);
+  }
+}
+
+function toCountTable(title: string, rows: CountRow[]): CountTable {
+  return {
+    title,
+    rows: rows.slice(0, MAX_COUNT_ROWS),
+    hiddenCount: Math.max(rows.length - MAX_COUNT_ROWS, 0)
+  };
+}
@@ -0,0 +1,80 @@
+import { buildTemplateExplorer } from './template-explorer';
+
+const templates = [
+  {
+    name: 'Voice',
+    core: true,
+    layout: {
+      agent: {
+        tabs: {
+          main: { name: 'Main', widgets: ['Customer Details', 'Dialer'] },
+          crm: { widgets: ['CRM Lookup', { name: 'Notes' }] }
+        }
+      },
+      supervisor: { tabs: { team: { label: 'Team', widgets: ['Team Monitor'] } } }
+    }
+  },
+  { id: 'chat-template', layout: { agent: { tabs: { main: { widgets: ['dialer'] } } } } }
+];
+
+const catalog = [
+  { name: 'Customer Details', metadataName: 'customer-details', description: 'Caller info', library: 'core', enabled: true },
+  { name: 'Dialer', metadataName: '', description: '', library: 'core', enabled: true },
+  { name: 'CRM Lookup', metadataName: '', description: '', library: 'crm', enabled: false },
+  { name: 'Notes', metadataName: '', description: '', library: 'core', enabled: true },
+  { name: 'Unused Widget', metadataName: '', description: '', library: 'misc', enabled: true }
+];
+
+describe('buildTemplateExplorer', () => {
+  it('should rebuild the role, tab and widget hierarchy of each template', () => {
+    const [voice, chat] = buildTemplateExplorer(templates, catalog).templates;
+
+    expect(voice.name).toBe('Voice');
+    expect(voice.core).toBeTrue();
+    const hierarchy = voice.roles.map((role) => [
+      role.role,
+      role.tabs.map((tab) => [tab.name, tab.widgets.map((ref) => ref.name)])
+    ]);
+    expect(hierarchy).toEqual([
+      [
+        'agent',
+        [
+          ['Main', ['Customer Details', 'Dialer']],
+          ['crm', ['CRM Lookup', 'Notes']]
+        ]
+      ],
+      ['supervisor', [['Team', ['Team Monitor']]]]
+    ]);
+    expect(chat.name).toBe('chat-template');
+  });
+
+  it('should flag references missing or disabled in the catalog', () => {
+    const explorer = buildTemplateExplorer(templates, catalog);
+    const [voice, chat] = explorer.templates;
+
+    expect(voice.widgetCount).toBe(5);
+    expect(voice.problemCount).toBe(2);
+    expect(chat.problemCount).toBe(0);
+    expect(explorer.missing).toEqual(['Team Monitor']);
+    expect(explorer.disabled).toEqual(['CRM Lookup']);
+  });
+
+  it('should count references per catalog widget, matching names case-insensitively', () => {
+    const explorer = buildTemplateExplorer(templates, catalog);
+
+    expect(explorer.catalog.map((widget) => [widget.name, widget.referenceCount])).toEqual([
+      ['Customer Details', 1],
+      ['Dialer', 2],
+      ['CRM Lookup', 1],
+      ['Notes', 1],
+      ['Unused Widget', 0]
+    ]);
+  });
+
+  it('should tolerate missing layouts and catalog', () => {
+    const explorer = buildTemplateExplorer([{ name: 'Empty' }], undefined);
+
+    expect(explorer.templates[0].roles).toEqual([]);
+    expect(explorer.catalog).toEqual([]);
+  });
+});
@@ -0,0 +1,155 @@
+import { getPathValue } from './mapping-profiles';
+
+/** A widget of the `_cc.widgets` catalog, as the normalizer's widgets block keeps it. */
+export interface CatalogWidget {
+  name: string;
+  metadataName: string;
+  description: string;
+  library: string;
+  enabled: boolean;
+}
+
+/** `missing`: not in the catalog; `disabled`: in the catalog but not enabled. */
+export type WidgetRefStatus = 'ok' | 'disabled' | 'missing';
+
+export interface WidgetRef {
+  name: string;
+  status: WidgetRefStatus;
+  catalog: CatalogWidget | null;
+}
+
+export interface TemplateTab {
+  key: string;
+  name: string;
+  widgets: WidgetRef[];
+}
+
+export interface TemplateRole {
+  role: string;
+  tabs: TemplateTab[];
+}
+
+export interface TemplateTree {
+  name: string;
+  core: boolean;
+  roles: TemplateRole[];
+  widgetCount: number;
+  /** Widget references that are missing or disabled in the catalog. */
+  problemCount: number;
+}
+
+export interface CatalogEntry extends CatalogWidget {
+  /** How many tabs of all templates place this widget. */
+  referenceCount: number;
+}
+
+export interface TemplateExplorer {
+  templates: TemplateTree[];
+  catalog: CatalogEntry[];
+  /** Distinct names referenced in a layout but absent from the catalog, or present but disabled. */
+  missing: string[];
+  disabled: string[];
+}
+
+/**
+ * Rebuilds each template's role → tab → widget hierarchy from `meta.templates` (`layout.<role>.tabs.<tab>
+ * .widgets`) and checks every widget reference against the `_cc.widgets` catalog, matching the catalog's
+ * name or metadata name case-insensitively.
+ */
+export function buildTemplateExplorer(templates: unknown, catalog: unknown): TemplateExplorer {
+  const catalogWidgets = listOf(catalog).map(toCatalogWidget);
+  const byName = new Map<string, CatalogWidget>();
+  for (const widget of catalogWidgets) {
+    for (const name of [widget.name, widget.metadataName]) {
+      if (name && !byName.has(name.toLowerCase())) {
+        byName.set(name.toLowerCase(), widget);
+      }
+    }
+  }
+
+  const referenceCounts = new Map<CatalogWidget, number>();
+  const missing = new Set<string>();
+  const disabled = new Set<string>();
+  const toRef = (name: string): WidgetRef => {
+    const widget = byName.get(name.toLowerCase()) ?? null;
+    const status: WidgetRefStatus = !widget ? 'missing' : widget.enabled ? 'ok' : 'disabled';
+    if (widget) {
+      referenceCounts.set(widget, (referenceCounts.get(widget) ?? 0) + 1);
+    }
+    if (status === 'missing') {
+      missing.add(name);
+    } else if (status === 'disabled') {
+      disabled.add(name);
+    }
+
+    return { name, status, catalog: widget };
+  };
+
+  const trees = listOf(templates).map((template, index) => {
+    const roles: TemplateRole[] = entriesOf(getPathValue(template, 'layout')).map(([role, roleLayout]) => ({
+      role,
+      tabs: entriesOf(getPathValue(roleLayout, 'tabs')).map(([key, tab]) => ({
+        key,
+        name: firstText(tab, ['name', 'label', 'title']) || key,
+        widgets: listOf(getPathValue(tab, 'widgets'))
+          .map((widget) => widgetName(widget))
+          .filter((name) => name)
+          .map(toRef)
+      }))
+    }));
+    const refs = roles.flatMap((role) => role.tabs.flatMap((tab) => tab.widgets));
+
+    return {
+      name: firstText(template, ['name', 'id']) || `Template ${index + 1}`,
+      core: getPathValue(template, 'core') === true,
+      roles,
+      widgetCount: refs.length,
+      problemCount: refs.filter((ref) => ref.status !== 'ok').length
+    };
+  });
+
+  return {
+    templates: trees,
+    catalog: catalogWidgets.map((widget) => ({ ...widget, referenceCount: referenceCounts.get(widget) ?? 0 })),
+    missing: Array.from(missing).sort((left, right) => left.localeCompare(right)),
+    disabled: Array.from(disabled).sort((left, right) => left.localeCompare(right))
+  };
+}
+
+function toCatalogWidget(entry: unknown): CatalogWidget {
+  return {
+    name: firstText(entry, ['name', 'metadataName']),
+    metadataName: firstText(entry, ['metadataName']),
+    description: firstText(entry, ['description']),
+    library: firstText(entry, ['library']),
+    enabled: getPathValue(entry, 'enabled') === true
+  };
+}
+
+/** Layouts reference widgets by name; an object reference is read by its name or id. */
+function widgetName(widget: unknown): string {
+  if (typeof widget === 'string' || typeof widget === 'number') {
+    return String(widget).trim();
+  }
+
+  return firstText(widget, ['name', 'widgetName', 'metadata.name', 'id']);
+}
+
+function entriesOf(value: unknown): Array<[string, unknown]> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) ? Object.entries(value) : [];
+}
+
+function listOf(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function firstText(value: unknown, paths: string[]): string {
+  for (const path of paths) {
+    const text = getPathValue(value, path);
+    if ((typeof text === 'string' || typeof text === 'number') && String(text).trim()) {
+      return String(text).trim();
+    }
+  }
+
+  return '';
+}
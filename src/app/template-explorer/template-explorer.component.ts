@@ -0,0 +1,95 @@
+import { DecimalPipe } from '@angular/common';
+import { Component, Input, OnChanges } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+
+import { LogSource } from '../log-viewer.model';
+import { TemplateExplorer, TemplateTree, WidgetRef, buildTemplateExplorer } from '../template-explorer';
+
+/**
+ * Drill-down of the templates in a file's metadata: each template's roles, tabs and the widgets placed on
+ * them, checked against the widget catalog. Built only while open.
+ */
+@Component({
+  selector: 'app-template-explorer',
+  imports: [DecimalPipe, FormsModule],
+  templateUrl: './template-explorer.component.html',
+  styleUrl: './template-explorer.component.css'
+})
+export class TemplateExplorerComponent implements OnChanges {
+  @Input({ required: true }) sources: LogSource[] = [];
+
+  isOpen = false;
+  /** Sources with template or widget metadata. */
+  candidates: LogSource[] = [];
+  sourceKey = '';
+  onlyProblems = false;
+  searchText = '';
+  explorer: TemplateExplorer | null = null;
+  /** `explorer.templates` narrowed by the problem and search filters. */
+  visibleTemplates: TemplateTree[] = [];
+
+  ngOnChanges(): void {
+    if (this.isOpen) {
+      this.build();
+    }
+  }
+
+  onToggle(event: Event): void {
+    this.isOpen = (event.target as HTMLDetailsElement).open;
+    if (this.isOpen) {
+      this.build();
+    }
+  }
+
+  build(): void {
+    this.candidates = this.sources.filter((source) =>
+      source.prettyMetaBlocks.some((block) => block.key === 'templates' || block.key === 'widgets')
+    );
+    if (!this.candidates.some((source) => source.key === this.sourceKey)) {
+      this.sourceKey = this.candidates[0]?.key ?? '';
+    }
+
+    const source = this.candidates.find((candidate) => candidate.key === this.sourceKey);
+    const blockValue = (key: string): unknown =>
+      source?.prettyMetaBlocks.find((block) => block.key === key)?.rawValue;
+    // The widgets block keeps the catalog parsed from local storage's `_cc.widgets` under `widgetCatalog`.
+    const catalog = (blockValue('widgets') as { widgetCatalog?: unknown } | undefined)?.widgetCatalog;
+    this.explorer = source ? buildTemplateExplorer(blockValue('templates'), catalog) : null;
+    this.applyFilters();
+  }
+
+  applyFilters(): void {
+    const needle = this.searchText.trim().toLowerCase();
+    const keep = (ref: WidgetRef): boolean =>
+      (!this.onlyProblems || ref.status !== 'ok') && (!needle || ref.name.toLowerCase().includes(needle));
+    const filtering = this.onlyProblems || needle !== '';
+
+    this.visibleTemplates = (this.explorer?.templates ?? [])
+      .map((template) => ({
+        ...template,
+        roles: template.roles
+          .map((role) => ({
+            ...role,
+            tabs: role.tabs
+              .map((tab) => ({ ...tab, widgets: tab.widgets.filter(keep) }))
+              .filter((tab) => !filtering || tab.widgets.length > 0)
+          }))
+          .filter((role) => !filtering || role.tabs.length > 0)
+      }))
+      .filter((template) => !filtering || template.roles.length > 0);
+  }
+
+  widgetTitle(ref: WidgetRef): string {
+    if (!ref.catalog) {
+      return 'Not in the widget catalog';
+    }
+
+    return [
+      ref.catalog.enabled ? 'Enabled' : 'Disabled in the catalog',
+      ref.catalog.library && `Library: ${ref.catalog.library}`,
+      ref.catalog.description
+    ]
+      .filter((line) => line)
+      .join('\n');
+  }
+}
@@ -0,0 +1,78 @@
+import { JsonRecordHandlers } from './json-record-reader';
+import { LineParser } from './line-parsers';
+
+const SKIPPED_TEXT_LENGTH = 200;
+
+/**
+ * Incremental reader for text logs. Each line matching the parser starts a new record; lines that do not
+ * match are appended to the previous record's message (stack traces, wrapped output), or reported through
+ * `skip` when no record has started yet.
+ */
+export class TextLineReader {
+  private buffer = '';
+  private line = 0;
+  private pending: { record: Record<string, unknown>; line: number } | null = null;
+  private sawContent = false;
+
+  constructor(
+    private readonly handlers: JsonRecordHandlers,
+    private readonly parser: LineParser
+  ) {}
+
+  get hasContent(): boolean {
+    return this.sawContent;
+  }
+
+  write(chunk: string): void {
+    this.buffer += chunk;
+
+    let start = 0;
+    for (let end = this.buffer.indexOf('\n'); end >= 0; end = this.buffer.indexOf('\n', start)) {
+      this.readLine(this.buffer.slice(start, end));
+      start = end + 1;
+    }
+    this.buffer = this.buffer.slice(start);
+  }
+
+  end(): void {
+    if (this.buffer) {
+      this.readLine(this.buffer);
+      this.buffer = '';
+    }
+    this.flushPending();
+  }
+
+  private readLine(rawLine: string): void {
+    const text = rawLine.replace(/^\uFEFF/, '').replace(/\r$/, '');
+    this.line += 1;
+    if (!text.trim()) {
+      return;
+    }
+
+    this.sawContent = true;
+    const record = this.parser.parse(text);
+    if (record) {
+      this.flushPending();
+      this.pending = { record: { lineNumber: this.line, ...record }, line: this.line };
+      return;
+    }
+
+    if (this.pending) {
+      this.pending.record['message'] = `${this.pending.record['message']}\n${text}`;
+      return;
+    }
+
+    this.handlers.skip(
+      this.line,
+      `Line does not match the "${this.parser.definition.name}" format`,
+      text.length > SKIPPED_TEXT_LENGTH ? `${text.slice(0, SKIPPED_TEXT_LENGTH)}…` : text
+    );
+  }
+
+  private flushPending(): void {
+    if (this.pending) {
+      this.handlers.record(this.pending.record, this.pending.line);
+      this.pending = null;
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import { DatePipe, DecimalPipe } from '@angular/common';
+import { Component, EventEmitter, Input, OnChanges, Output, inject } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+
+import { CorrelationSettingsService } from '../correlation-settings.service';
+import { formatDuration } from '../duration-format';
+import { buildEventThreads } from '../event-threads';
+import { EventThread, EventView } from '../log-viewer.model';
+
+const MAX_LISTED_THREADS = 200;
+
+/**
+ * Lists the interaction / call threads found in the events, with their span, participants and final
+ * state. Threads are only built while the list is open; opening one is left to the parent, which narrows
+ * the viewer to its events.
+ */
+@Component({
+  selector: 'app-thread-list',
+  imports: [DatePipe, DecimalPipe, FormsModule],
+  templateUrl: './thread-list.component.html',
+  styleUrl: './thread-list.component.css'
+})
+export class ThreadListComponent implements OnChanges {
+  readonly correlation = inject(CorrelationSettingsService);
+
+  @Input({ required: true }) events: EventView[] = [];
+  @Output() openThread = new EventEmitter<EventThread>();
+
+  readonly maxListed = MAX_LISTED_THREADS;
+  isOpen = false;
+  threads: EventThread[] = [];
+  listedThreads: EventThread[] = [];
+  matchingCount = 0;
+  searchText = '';
+
+  keyPaths = '';
+  participantPaths = '';
+  statePaths = '';
+
+  ngOnChanges(): void {
+    if (this.isOpen) {
+      this.buildThreads();
+    }
+  }
+
+  onToggle(event: Event): void {
+    this.isOpen = (event.target as HTMLDetailsElement).open;
+    if (this.isOpen) {
+      this.loadSettingsDraft();
+      this.buildThreads();
+    }
+  }
+
+  onSearchChange(): void {
+    const needle = this.searchText.trim().toLowerCase();
+    const matching = needle
+      ? this.threads.filter((thread) =>
+          [...thread.keys.map((key) => key.value), ...thread.participants, thread.finalState].some((value) =>
+            value.toLowerCase().includes(needle)
+          )
+        )
+      : this.threads;
+
+    this.matchingCount = matching.length;
+    this.listedThreads = matching.slice(0, MAX_LISTED_THREADS);
+  }
+
+  saveSettings(): void {
+    this.correlation.save({
+      keyPaths: toPaths(this.keyPaths),
+      participantPaths: toPaths(this.participantPaths),
+      statePaths: toPaths(this.statePaths)
+    });
+    this.buildThreads();
+  }
+
+  resetSettings(): void {
+    this.correlation.reset();
+    this.loadSettingsDraft();
+    this.buildThreads();
+  }
+
+  duration(thread: EventThread): string {
+    return thread.start === null || thread.end === null ? '-' : formatDuration(thread.end - thread.start);
+  }
+
+  private buildThreads(): void {
+    this.threads = buildEventThreads(this.events, this.correlation.settings);
+    this.onSearchChange();
+  }
+
+  private loadSettingsDraft(): void {
+    const { keyPaths, participantPaths, statePaths } = this.correlation.settings;
+    this.keyPaths = keyPaths.join('\n');
+    this.participantPaths = participantPaths.join('\n');
+    this.statePaths = statePaths.join('\n');
+  }
+}
+
+function toPaths(text: string): string[] {
+  return text
+    .split(/[\n,]/)
+    .map((path) => path.trim())
+    .filter((path) => path);
+}
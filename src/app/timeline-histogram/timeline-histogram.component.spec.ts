@@ -0,0 +1,78 @@
+import { TestBed } from '@angular/core/testing';
+
+import { EventView, LevelTone } from '../log-viewer.model';
+import { TimelineHistogramComponent } from './timeline-histogram.component';
+
+function eventAt(time: number | null, levelTone: LevelTone): EventView {
+  return {
+    uid: `${time}-${levelTone}`,
+    id: '1',
+    source: '',
+    timestamp: time === null ? '-' : new Date(time).toISOString(),
+    time,
+    level: levelTone.toUpperCase(),
+    levelTone,
+    application: 'app',
+    context: 'ctx',
+    message: 'message',
+    lineTitle: '',
+    rawValue: {}
+  };
+}
+
+describe('TimelineHistogramComponent', () => {
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [TimelineHistogramComponent]
+    }).compileComponents();
+  });
+
+  it('should bin events over time and stack them by level tone', () => {
+    const base = Date.parse('2026-05-01T10:00:00Z');
+    const fixture = TestBed.createComponent(TimelineHistogramComponent);
+    fixture.componentRef.setInput('events', [
+      eventAt(base, 'error'),
+      eventAt(base + 100, 'info'),
+      eventAt(base + 60000, 'info'),
+      eventAt(null, 'warning')
+    ]);
+    fixture.detectChanges();
+
+    const histogram = fixture.componentInstance;
+    const first = histogram.bins[0];
+    expect(histogram.bins.length).toBeGreaterThan(1);
+    expect(first.count).toBe(2);
+    expect(first.segments.map((segment) => segment.tone)).toEqual(['error', 'info']);
+    expect(histogram.maxCount).toBe(2);
+    expect(histogram.undatedCount).toBe(1);
+  });
+
+  it('should highlight the selected range', () => {
+    const base = Date.parse('2026-05-01T10:00:00Z');
+    const fixture = TestBed.createComponent(TimelineHistogramComponent);
+    fixture.componentRef.setInput('events', [eventAt(base, 'info'), eventAt(base + 120000, 'info')]);
+    fixture.componentRef.setInput('range', { start: base + 30000, end: base + 60000 });
+    fixture.detectChanges();
+
+    expect(fixture.componentInstance.selection).not.toBeNull();
+    expect((fixture.nativeElement as HTMLElement).querySelector('rect.selection')).toBeTruthy();
+  });
+
+  it('should mark bookmarked events and report marker clicks', () => {
+    const base = Date.parse('2026-05-01T10:00:00Z');
+    const events = [eventAt(base, 'info'), eventAt(base + 60000, 'error'), eventAt(base + 120000, 'info')];
+    const fixture = TestBed.createComponent(TimelineHistogramComponent);
+    fixture.componentRef.setInput('events', events);
+    fixture.componentRef.setInput('bookmarks', new Map([[events[1].uid, { note: 'First error', tags: [] }]]));
+    fixture.detectChanges();
+
+    const shown: string[] = [];
+    fixture.componentInstance.showEvent.subscribe((uid: string) => shown.push(uid));
+    const markers = (fixture.nativeElement as HTMLElement).querySelectorAll<SVGGElement>('.bookmark-marker');
+    markers[0].dispatchEvent(new MouseEvent('click'));
+
+    expect(markers.length).toBe(1);
+    expect(markers[0].textContent).toContain('First error');
+    expect(shown).toEqual([events[1].uid]);
+  });
+});
@@ -0,0 +1,237 @@
+import { DatePipe } from '@angular/common';
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
+
+import { EventBookmarks, annotationSummary } from '../event-annotations';
+import { EventView, LevelTone, TimeRange } from '../log-viewer.model';
+
+interface HistogramSegment {
+  tone: LevelTone;
+  y: number;
+  height: number;
+}
+
+interface HistogramBin {
+  start: number;
+  end: number;
+  x: number;
+  count: number;
+  segments: HistogramSegment[];
+  title: string;
+}
+
+interface BookmarkMarker {
+  uid: string;
+  x: number;
+  title: string;
+}
+
+const CHART_WIDTH = 1000;
+const CHART_HEIGHT = 120;
+const TARGET_BINS = 120;
+const TONE_ORDER: LevelTone[] = ['error', 'warning', 'info', 'debug', 'trace', 'neutral'];
+const BIN_STEPS_MS = [
+  1000, 2000, 5000, 10000, 15000, 30000, 60000, 120000, 300000, 600000, 900000, 1800000, 3600000,
+  7200000, 10800000, 21600000, 43200000, 86400000
+];
+
+/**
+ * Event counts over time, stacked by level tone, with a marker on each bookmarked event. Dragging across
+ * the chart selects a time range; the parent owns the range so it can combine it with the other filters.
+ */
+@Component({
+  selector: 'app-timeline-histogram',
+  imports: [DatePipe],
+  templateUrl: './timeline-histogram.component.html',
+  styleUrl: './timeline-histogram.component.css'
+})
+export class TimelineHistogramComponent implements OnChanges {
+  @Input({ required: true }) events: EventView[] = [];
+  @Input() range: TimeRange | null = null;
+  @Input() bookmarks: EventBookmarks = new Map();
+  @Output() rangeChange = new EventEmitter<TimeRange | null>();
+  /** The uid of a clicked bookmark marker. */
+  @Output() showEvent = new EventEmitter<string>();
+
+  readonly chartWidth = CHART_WIDTH;
+  readonly chartHeight = CHART_HEIGHT;
+  bins: HistogramBin[] = [];
+  markers: BookmarkMarker[] = [];
+  binWidth = 0;
+  domainStart = 0;
+  domainEnd = 0;
+  maxCount = 0;
+  undatedCount = 0;
+  selection: { x: number; width: number } | null = null;
+
+  private brush: { from: number; to: number } | null = null;
+
+  ngOnChanges(): void {
+    this.buildBins();
+    this.updateSelection();
+  }
+
+  onPointerDown(event: PointerEvent): void {
+    if (this.bins.length === 0) {
+      return;
+    }
+
+    (event.currentTarget as Element).setPointerCapture?.(event.pointerId);
+    const x = this.pointerToX(event);
+    this.brush = { from: x, to: x };
+    this.updateSelection();
+  }
+
+  onPointerMove(event: PointerEvent): void {
+    if (this.brush) {
+      this.brush.to = this.pointerToX(event);
+      this.updateSelection();
+    }
+  }
+
+  onPointerUp(): void {
+    if (!this.brush) {
+      return;
+    }
+
+    const from = Math.min(this.brush.from, this.brush.to);
+    const to = Math.max(this.brush.from, this.brush.to);
+    this.brush = null;
+    this.updateSelection();
+
+    // A click without a drag clears the selection.
+    if (to - from < 3) {
+      this.rangeChange.emit(null);
+      return;
+    }
+
+    this.rangeChange.emit({ start: this.xToTime(from), end: this.xToTime(to) });
+  }
+
+  private updateSelection(): void {
+    if (this.brush) {
+      const from = Math.min(this.brush.from, this.brush.to);
+      this.selection = { x: from, width: Math.abs(this.brush.to - this.brush.from) };
+      return;
+    }
+    if (!this.range || this.bins.length === 0) {
+      this.selection = null;
+      return;
+    }
+
+    const x = this.timeToX(Math.max(this.range.start, this.domainStart));
+    this.selection = {
+      x,
+      width: Math.max(1, this.timeToX(Math.min(this.range.end, this.domainEnd)) - x)
+    };
+  }
+
+  private buildBins(): void {
+    let min = Infinity;
+    let max = -Infinity;
+    this.undatedCount = 0;
+
+    for (const event of this.events) {
+      if (event.time === null) {
+        this.undatedCount += 1;
+        continue;
+      }
+      min = Math.min(min, event.time);
+      max = Math.max(max, event.time);
+    }
+
+    if (!Number.isFinite(min)) {
+      this.bins = [];
+      this.markers = [];
+      this.maxCount = 0;
+      return;
+    }
+
+    const span = Math.max(max - min, 1000);
+    const step = BIN_STEPS_MS.find((candidate) => span / candidate <= TARGET_BINS) ?? Math.ceil(span / TARGET_BINS);
+    const start = Math.floor(min / step) * step;
+    const binCount = Math.floor((max - start) / step) + 1;
+    const counts = Array.from({ length: binCount }, () => new Map<LevelTone, number>());
+
+    for (const event of this.events) {
+      if (event.time !== null) {
+        const bin = counts[Math.floor((event.time - start) / step)];
+        bin.set(event.levelTone, (bin.get(event.levelTone) ?? 0) + 1);
+      }
+    }
+
+    this.domainStart = start;
+    this.domainEnd = start + binCount * step;
+    this.binWidth = CHART_WIDTH / binCount;
+    this.maxCount = Math.max(
+      ...counts.map((bin) => Array.from(bin.values()).reduce((sum, value) => sum + value, 0))
+    );
+
+    this.bins = counts.map((bin, index) => this.toBin(bin, start + index * step, step, index));
+    this.markers = this.buildMarkers();
+  }
+
+  private buildMarkers(): BookmarkMarker[] {
+    const markers: BookmarkMarker[] = [];
+    if (this.bookmarks.size === 0) {
+      return markers;
+    }
+
+    for (const event of this.events) {
+      const annotation = this.bookmarks.get(event.uid);
+      if (annotation && event.time !== null) {
+        markers.push({
+          uid: event.uid,
+          x: this.timeToX(event.time),
+          title: `★ ${event.timestamp} · ${annotationSummary(annotation) || event.message}`
+        });
+      }
+    }
+
+    return markers;
+  }
+
+  private toBin(counts: Map<LevelTone, number>, start: number, step: number, index: number): HistogramBin {
+    const segments: HistogramSegment[] = [];
+    let total = 0;
+    let y = CHART_HEIGHT;
+
+    for (const tone of TONE_ORDER) {
+      const count = counts.get(tone) ?? 0;
+      if (count === 0) {
+        continue;
+      }
+
+      const height = (count / this.maxCount) * CHART_HEIGHT;
+      y -= height;
+      total += count;
+      segments.push({ tone, y, height });
+    }
+
+    const breakdown = TONE_ORDER.filter((tone) => counts.has(tone))
+      .map((tone) => `${counts.get(tone)} ${tone}`)
+      .join(', ');
+
+    return {
+      start,
+      end: start + step,
+      x: index * this.binWidth,
+      count: total,
+      segments,
+      title: `${new Date(start).toISOString()} (+${step / 1000}s): ${total} events${breakdown ? ` - ${breakdown}` : ''}`
+    };
+  }
+
+  private pointerToX(event: PointerEvent): number {
+    const rect = (event.currentTarget as Element).getBoundingClientRect();
+    const ratio = rect.width > 0 ? (event.clientX - rect.left) / rect.width : 0;
+    return Math.min(CHART_WIDTH, Math.max(0, ratio * CHART_WIDTH));
+  }
+
+  private timeToX(time: number): number {
+    return ((time - this.domainStart) / (this.domainEnd - this.domainStart)) * CHART_WIDTH;
+  }
+
+  private xToTime(x: number): number {
+    return Math.round(this.domainStart + (x / CHART_WIDTH) * (this.domainEnd - this.domainStart));
+  }
+}
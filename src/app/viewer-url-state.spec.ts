@@ -0,0 +1,47 @@
+import { ViewerState } from './log-viewer.model';
+import { EMPTY_VIEWER_STATE, viewerStateFromQueryParams, viewerStateToQueryParams } from './viewer-url-state';
+
+describe('viewer URL state', () => {
+  it('should leave every parameter out for an unfiltered viewer', () => {
+    expect(viewerStateToQueryParams(EMPTY_VIEWER_STATE)).toEqual({});
+    expect(viewerStateFromQueryParams({})).toEqual(EMPTY_VIEWER_STATE);
+  });
+
+  it('should round-trip filters, time range and the selected event', () => {
+    const state: ViewerState = {
+      searchText: 'level:ERROR timeout',
+      levels: ['ERROR', 'WARN'],
+      applications: ['WSFE'],
+      contexts: [],
+      sources: ['s1'],
+      timeRange: { start: Date.UTC(2024, 0, 1, 10), end: Date.UTC(2024, 0, 1, 11) },
+      expandedEventUid: 's1:4-abc',
+      bookmarkedOnly: true
+    };
+
+    const params = viewerStateToQueryParams(state);
+
+    expect(params).toEqual({
+      q: 'level:ERROR timeout',
+      level: ['ERROR', 'WARN'],
+      app: ['WSFE'],
+      file: ['s1'],
+      from: '2024-01-01T10:00:00.000Z',
+      to: '2024-01-01T11:00:00.000Z',
+      event: 's1:4-abc',
+      bookmarked: '1'
+    });
+    expect(viewerStateFromQueryParams(params)).toEqual(state);
+  });
+
+  it('should accept single values where the router hands out strings', () => {
+    const state = viewerStateFromQueryParams({ level: 'ERROR', ctx: 'login' });
+
+    expect(state.levels).toEqual(['ERROR']);
+    expect(state.contexts).toEqual(['login']);
+  });
+
+  it('should drop a time range that does not parse', () => {
+    expect(viewerStateFromQueryParams({ from: 'yesterday', to: '2024-01-01T11:00:00Z' }).timeRange).toBeNull();
+  });
+});
@@ -0,0 +1,67 @@
+import { ViewerState } from './log-viewer.model';
+
+/** Query parameters as the router hands them out: repeated keys arrive as arrays. */
+export type ViewerQueryParams = Record<string, string | string[] | undefined>;
+
+export const EMPTY_VIEWER_STATE: ViewerState = {
+  searchText: '',
+  levels: [],
+  applications: [],
+  contexts: [],
+  sources: [],
+  timeRange: null,
+  expandedEventUid: null,
+  bookmarkedOnly: false
+};
+
+/**
+ * Encodes viewer state as query parameters: `q`, repeated `level`, `app`, `ctx` and `file`, ISO `from`/`to`,
+ * `event` and `bookmarked=1`. Empty values are left out so an unfiltered viewer has a clean URL.
+ */
+export function viewerStateToQueryParams(state: ViewerState): ViewerQueryParams {
+  const params: ViewerQueryParams = {};
+  const set = (key: string, value: string | string[]): void => {
+    if (value.length > 0) {
+      params[key] = value;
+    }
+  };
+
+  set('q', state.searchText.trim());
+  set('level', state.levels);
+  set('app', state.applications);
+  set('ctx', state.contexts);
+  set('file', state.sources);
+  if (state.timeRange) {
+    params['from'] = new Date(state.timeRange.start).toISOString();
+    params['to'] = new Date(state.timeRange.end).toISOString();
+  }
+  set('event', state.expandedEventUid ?? '');
+  if (state.bookmarkedOnly) {
+    params['bookmarked'] = '1';
+  }
+
+  return params;
+}
+
+/** Reverses {@link viewerStateToQueryParams}; missing or malformed parameters fall back to empty state. */
+export function viewerStateFromQueryParams(params: ViewerQueryParams): ViewerState {
+  const list = (key: string): string[] => {
+    const value = params[key];
+    return value === undefined ? [] : Array.isArray(value) ? value : [value];
+  };
+  const single = (key: string): string => list(key)[0] ?? '';
+
+  const start = Date.parse(single('from'));
+  const end = Date.parse(single('to'));
+
+  return {
+    searchText: single('q'),
+    levels: list('level'),
+    applications: list('app'),
+    contexts: list('ctx'),
+    sources: list('file'),
+    timeRange: Number.isNaN(start) || Number.isNaN(end) ? null : { start, end },
+    expandedEventUid: single('event') || null,
+    bookmarkedOnly: single('bookmarked') === '1'
+  };
+}
@@ -0,0 +1,55 @@
+import { CliUsageError, DEFAULT_FAIL_ON_LEVELS, parseCliArgs } from './cli-options';
+
+describe('parseCliArgs', () => {
+  it('should default to a summary that fails on errors', () => {
+    const options = parseCliArgs(['exports/']);
+
+    expect(options.paths).toEqual(['exports/']);
+    expect(options.format).toBe('summary');
+    expect(options.failOn).toEqual(DEFAULT_FAIL_ON_LEVELS);
+    expect(options.redact).toBeTrue();
+  });
+
+  it('should read values after the flag or after =, and merge repeated lists', () => {
+    const options = parseCliArgs([
+      '-f',
+      'csv',
+      '--level=error,warn',
+      '-l',
+      'critical',
+      '--app',
+      'AXP, WSFE',
+      '-q',
+      'message:"call failed"',
+      'a.json',
+      '-o',
+      'out.csv',
+      '--',
+      '-odd-name.json'
+    ]);
+
+    expect(options.format).toBe('csv');
+    expect(options.levels).toEqual(['ERROR', 'WARN', 'CRITICAL']);
+    expect(options.applications).toEqual(['AXP', 'WSFE']);
+    expect(options.query).toBe('message:"call failed"');
+    expect(options.outputPath).toBe('out.csv');
+    expect(options.paths).toEqual(['a.json', '-odd-name.json']);
+  });
+
+  it('should change or turn off the failing levels', () => {
+    expect(parseCliArgs(['--fail-on', 'warn', '-']).failOn).toEqual(['WARN']);
+    expect(parseCliArgs(['--no-fail', '-']).failOn).toEqual([]);
+  });
+
+  it('should keep original values only when asked to', () => {
+    expect(parseCliArgs(['--no-redact', 'a.json']).redact).toBeFalse();
+  });
+
+  it('should reject unusable command lines', () => {
+    expect(() => parseCliArgs([])).toThrowError(CliUsageError, /at least one/);
+    expect(() => parseCliArgs(['--colour', 'a.json'])).toThrowError(CliUsageError, 'Unknown option --colour.');
+    expect(() => parseCliArgs(['-f', 'xml', 'a.json'])).toThrowError(CliUsageError, /Unknown format "xml"/);
+    expect(() => parseCliArgs(['a.json', '--query'])).toThrowError(CliUsageError, '--query needs a value.');
+    expect(parseCliArgs(['--help']).help).toBeTrue();
+  });
+});
@@ -0,0 +1,180 @@
+export type CliOutputFormat = 'summary' | 'summary-json' | 'csv' | 'json' | 'ndjson';
+
+export interface CliOptions {
+  /** Files and folders to read; folders contribute the log files directly inside them, `-` is standard input. */
+  paths: string[];
+  format: CliOutputFormat;
+  /** Search query in the viewer's query language. */
+  query: string;
+  levels: string[];
+  applications: string[];
+  contexts: string[];
+  /** Mapping profile export to read events with, instead of the built-in profile alone. */
+  profilePath: string | null;
+  /** Where to write the output; standard output when `null`. */
+  outputPath: string | null;
+  /** Levels that make the exit code 1 when a matching event has one of them. */
+  failOn: string[];
+  /** Masks personal data with the viewer's built-in detectors, like the viewer's exports. */
+  redact: boolean;
+  help: boolean;
+}
+
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+export const CLI_OUTPUT_FORMATS: CliOutputFormat[] = ['summary', 'summary-json', 'csv', 'json', 'ndjson'];
+
+export const DEFAULT_FAIL_ON_LEVELS = ['ERROR', 'CRITICAL'];
+
+export const CLI_USAGE = `Usage: wslog [options] <file or folder>...
+
+Summarizes log exports, or writes their events, using the parser and filters of the web viewer.
+A folder stands for the log files directly inside it; - reads standard input.
+
+Options:
+  -f, --format <format>   summary (default), summary-json, csv, json or ndjson
+  -q, --query <query>     search query, same syntax as the viewer's search box
+  -l, --level <levels>    keep these levels only (comma separated, repeatable)
+  -a, --app <names>       keep these applications only
+  -c, --context <names>   keep these contexts only
+  -p, --profile <file>    mapping profile export to read events with
+  -o, --output <file>     write to a file instead of standard output
+      --fail-on <levels>  exit with 1 when a matching event has one of these levels (default ERROR,CRITICAL)
+      --no-fail           always exit with 0 when the files could be read
+      --no-redact         keep emails, phone numbers, tokens and IP addresses instead of masking them
+  -h, --help              show this help
+
+Exit codes: 0 no matching event at a --fail-on level, 1 at least one, 2 bad usage or an unreadable file.
+`;
+
+const VALUE_OPTIONS: Record<string, string> = {
+  '-f': 'format',
+  '--format': 'format',
+  '-q': 'query',
+  '--query': 'query',
+  '-l': 'level',
+  '--level': 'level',
+  '-a': 'app',
+  '--app': 'app',
+  '-c': 'context',
+  '--context': 'context',
+  '-p': 'profile',
+  '--profile': 'profile',
+  '-o': 'output',
+  '--output': 'output',
+  '--fail-on': 'fail-on'
+};
+
+/**
+ * Reads the command line (without the node and script arguments). Options take their value as the next
+ * argument or after `=`; list options accept comma-separated values and may be repeated. Levels are
+ * upper-cased like normalized event levels. Throws {@link CliUsageError} for anything unusable.
+ */
+export function parseCliArgs(args: string[]): CliOptions {
+  const options: CliOptions = {
+    paths: [],
+    format: 'summary',
+    query: '',
+    levels: [],
+    applications: [],
+    contexts: [],
+    profilePath: null,
+    outputPath: null,
+    failOn: DEFAULT_FAIL_ON_LEVELS,
+    redact: true,
+    help: false
+  };
+
+  for (let index = 0; index < args.length; index += 1) {
+    const arg = args[index];
+    if (arg === '-h' || arg === '--help') {
+      options.help = true;
+      continue;
+    }
+    if (arg === '--no-fail') {
+      options.failOn = [];
+      continue;
+    }
+    if (arg === '--no-redact') {
+      options.redact = false;
+      continue;
+    }
+    if (arg === '--') {
+      options.paths.push(...args.slice(index + 1));
+      break;
+    }
+    if (!arg.startsWith('-') || arg === '-') {
+      options.paths.push(arg);
+      continue;
+    }
+
+    const separator = arg.indexOf('=');
+    const flag = separator > 0 ? arg.slice(0, separator) : arg;
+    const name = VALUE_OPTIONS[flag];
+    if (!name) {
+      throw new CliUsageError(`Unknown option ${flag}.`);
+    }
+
+    let value: string;
+    if (separator > 0) {
+      value = arg.slice(separator + 1);
+    } else if (index + 1 < args.length) {
+      index += 1;
+      value = args[index];
+    } else {
+      throw new CliUsageError(`${flag} needs a value.`);
+    }
+
+    switch (name) {
+      case 'format':
+        if (!CLI_OUTPUT_FORMATS.includes(value as CliOutputFormat)) {
+          throw new CliUsageError(`Unknown format "${value}"; use one of ${CLI_OUTPUT_FORMATS.join(', ')}.`);
+        }
+        options.format = value as CliOutputFormat;
+        break;
+      case 'query':
+        options.query = value;
+        break;
+      case 'level':
+        options.levels = options.levels.concat(toLevels(value));
+        break;
+      case 'app':
+        options.applications = options.applications.concat(toList(value));
+        break;
+      case 'context':
+        options.contexts = options.contexts.concat(toList(value));
+        break;
+      case 'profile':
+        options.profilePath = value;
+        break;
+      case 'output':
+        options.outputPath = value;
+        break;
+      case 'fail-on':
+        options.failOn = toLevels(value);
+        break;
+    }
+  }
+
+  if (!options.help && options.paths.length === 0) {
+    throw new CliUsageError('Give at least one log file or folder.');
+  }
+
+  return options;
+}
+
+function toList(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item);
+}
+
+function toLevels(value: string): string[] {
+  return toList(value).map((level) => level.toUpperCase());
+}
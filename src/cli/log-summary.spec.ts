@@ -0,0 +1,53 @@
+import { parseLogDocument } from '../app/log-document';
+import { DEFAULT_MAPPING_PROFILE } from '../app/mapping-profiles';
+import { LogFileSummary, LogSummaryBuilder, formatLogSummary } from './log-summary';
+
+describe('LogSummaryBuilder', () => {
+  const text = JSON.stringify({
+    meta: { application: 'AXP', browser: { name: 'Chrome', version: '120' } },
+    events: [
+      { topic: 'login', level: 'info' },
+      { topic: 'call', level: 'error' },
+      { topic: 'call', level: 'error' },
+      { topic: 'ws', level: 'warn' }
+    ]
+  });
+  const parsed = parseLogDocument(text, DEFAULT_MAPPING_PROFILE, { fileName: 'axp.json' });
+  const result = { summary: parsed.meta, format: parsed.diagnostics.format, profileName: 'Workspaces' };
+
+  function summarize(): LogFileSummary {
+    const builder = new LogSummaryBuilder('exports/axp.json');
+    builder.add(parsed.events.slice(0, 2), [parsed.events[1]]);
+    builder.add(parsed.events.slice(2), []);
+    return builder.build(result, 3);
+  }
+
+  it('should count levels over all batches, most frequent first', () => {
+    const summary = summarize();
+
+    expect(summary.totalEvents).toBe(4);
+    expect(summary.levels).toEqual({ ERROR: 2, INFO: 1, WARNING: 1 });
+    expect(Object.keys(summary.levels)).toEqual(['ERROR', 'INFO', 'WARNING']);
+    expect(summary.matchingEvents).toBe(1);
+    expect(summary.matchingLevels).toEqual({ ERROR: 1 });
+    expect(summary.application).toBe('AXP');
+    expect(summary.metadata.map((block) => block.title)).toEqual(['Browser']);
+  });
+
+  it('should format the summary with the matching line only when filtered', () => {
+    const summary = summarize();
+    const lines = formatLogSummary(summary, true).split('\n');
+
+    expect(lines.slice(0, 6)).toEqual([
+      'exports/axp.json',
+      '  Application: AXP',
+      '  Read as:     JSON document, profile Workspaces',
+      '  Events:      4 (3 skipped)',
+      '  Levels:      ERROR 2, INFO 1, WARNING 1',
+      '  Matching:    1 (ERROR 1)'
+    ]);
+    expect(lines).toContain('    Version: 120');
+    expect(lines.some((line) => line.includes('n/a'))).toBeFalse();
+    expect(formatLogSummary(summary, false)).not.toContain('Matching');
+  });
+});
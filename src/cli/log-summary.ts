@@ -0,0 +1,108 @@
+import { LogDocumentResult } from '../app/log-document';
+import { EventView, LogFormat, PrettyFact } from '../app/log-viewer.model';
+
+export interface MetadataSummary {
+  title: string;
+  subtitle: string;
+  facts: PrettyFact[];
+}
+
+/** What the command-line tool reports for one file. */
+export interface LogFileSummary {
+  file: string;
+  application: string;
+  format: LogFormat;
+  profileName: string;
+  totalEvents: number;
+  skippedLines: number;
+  /** Event count per level, most frequent first. */
+  levels: Record<string, number>;
+  /** The pretty metadata blocks of the viewer's metadata panel. */
+  metadata: MetadataSummary[];
+  /** Events passing the filters; equal to `totalEvents` without filters. */
+  matchingEvents: number;
+  matchingLevels: Record<string, number>;
+}
+
+const FORMAT_LABELS: Record<LogFormat, string> = {
+  json: 'JSON document',
+  ndjson: 'JSON Lines',
+  concatenated: 'concatenated JSON',
+  text: 'text log'
+};
+
+/** Counts the events of one file batch by batch, so a large file never has to be held in memory. */
+export class LogSummaryBuilder {
+  private totalEvents = 0;
+  private matchingEvents = 0;
+  private readonly levels = new Map<string, number>();
+  private readonly matchingLevels = new Map<string, number>();
+
+  constructor(private readonly file: string) {}
+
+  add(events: EventView[], matching: EventView[]): void {
+    this.totalEvents += events.length;
+    this.matchingEvents += matching.length;
+    countLevels(events, this.levels);
+    countLevels(matching, this.matchingLevels);
+  }
+
+  build(result: LogDocumentResult, skippedLines: number): LogFileSummary {
+    return {
+      file: this.file,
+      application: result.summary.applicationName,
+      format: result.format,
+      profileName: result.profileName,
+      totalEvents: this.totalEvents,
+      skippedLines,
+      levels: sortedCounts(this.levels),
+      metadata: result.summary.prettyMetaBlocks.map(({ title, subtitle, facts }) => ({ title, subtitle, facts })),
+      matchingEvents: this.matchingEvents,
+      matchingLevels: sortedCounts(this.matchingLevels)
+    };
+  }
+}
+
+/**
+ * Human-readable form of a summary. The matching line is only shown when filters were applied, and
+ * metadata facts without a value are left out.
+ */
+export function formatLogSummary(summary: LogFileSummary, filtered: boolean): string {
+  const skipped = summary.skippedLines > 0 ? ` (${summary.skippedLines} skipped)` : '';
+  const lines = [
+    summary.file,
+    `  Application: ${summary.application}`,
+    `  Read as:     ${FORMAT_LABELS[summary.format]}, profile ${summary.profileName}`,
+    `  Events:      ${summary.totalEvents}${skipped}`,
+    `  Levels:      ${formatCounts(summary.levels)}`
+  ];
+  if (filtered) {
+    const levels = summary.matchingEvents > 0 ? ` (${formatCounts(summary.matchingLevels)})` : '';
+    lines.push(`  Matching:    ${summary.matchingEvents}${levels}`);
+  }
+  for (const block of summary.metadata) {
+    lines.push(`  ${block.title}: ${block.subtitle}`);
+    for (const fact of block.facts.filter(({ value }) => value !== 'n/a')) {
+      lines.push(`    ${fact.label}: ${fact.value}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function countLevels(events: EventView[], counts: Map<string, number>): void {
+  for (const event of events) {
+    counts.set(event.level, (counts.get(event.level) ?? 0) + 1);
+  }
+}
+
+function sortedCounts(counts: Map<string, number>): Record<string, number> {
+  return Object.fromEntries(
+    Array.from(counts.entries()).sort((left, right) => right[1] - left[1] || left[0].localeCompare(right[0]))
+  );
+}
+
+function formatCounts(counts: Record<string, number>): string {
+  const entries = Object.entries(counts);
+  return entries.length > 0 ? entries.map(([level, count]) => `${level} ${count}`).join(', ') : 'none';
+}
@@ -0,0 +1,194 @@
+#!/usr/bin/env node
+import { createReadStream } from 'node:fs';
+import { readFile, readdir, stat, writeFile } from 'node:fs/promises';
+import { basename, join } from 'node:path';
+
+import { createEventFilter } from '../app/event-filters';
+import { toCsv, toJson, toNdjson } from '../app/event-export';
+import { EventPredicate, QuerySyntaxError, compileEventQuery } from '../app/event-query';
+import { LogDocumentParser } from '../app/log-document';
+import { EventView, FieldMappingProfile } from '../app/log-viewer.model';
+import { DEFAULT_MAPPING_PROFILE, importMappingProfiles } from '../app/mapping-profiles';
+import { DEFAULT_REDACTION_SETTINGS, Redactor } from '../app/redaction';
+import { CLI_USAGE, CliOptions, CliUsageError, parseCliArgs } from './cli-options';
+import { LogFileSummary, LogSummaryBuilder, formatLogSummary } from './log-summary';
+
+const LOG_FILE_EXTENSIONS = /\.(json|jsonl|ndjson|log|txt)$/i;
+const CHUNK_SIZE = 1024 * 1024;
+const STDIN_PATH = '-';
+
+const EXIT_OK = 0;
+const EXIT_MATCHED_FAILURE_LEVEL = 1;
+const EXIT_UNUSABLE = 2;
+
+/**
+ * Command-line companion of the viewer: reads each file with the viewer's parser, applies the viewer's
+ * filters and prints a summary per file or the matching events as CSV, JSON or NDJSON. Like the viewer's
+ * exports, the output is redacted with the built-in detectors unless `--no-redact` is given.
+ */
+async function main(args: string[]): Promise<number> {
+  let options: CliOptions;
+  let query: EventPredicate | null;
+  try {
+    options = parseCliArgs(args);
+    query = compileEventQuery(options.query);
+  } catch (error) {
+    if (error instanceof CliUsageError || error instanceof QuerySyntaxError) {
+      process.stderr.write(`wslog: ${error.message}\nRun wslog --help for the options.\n`);
+      return EXIT_UNUSABLE;
+    }
+    throw error;
+  }
+
+  if (options.help) {
+    process.stdout.write(CLI_USAGE);
+    return EXIT_OK;
+  }
+
+  let profiles = [DEFAULT_MAPPING_PROFILE];
+  let files: string[];
+  try {
+    if (options.profilePath) {
+      profiles = [...importMappingProfiles(await readFile(options.profilePath, 'utf8')), DEFAULT_MAPPING_PROFILE];
+    }
+    files = await expandPaths(options.paths);
+  } catch (error) {
+    process.stderr.write(`wslog: ${errorMessage(error)}\n`);
+    return EXIT_UNUSABLE;
+  }
+
+  const matches = createEventFilter({
+    query,
+    levels: options.levels,
+    applications: options.applications,
+    contexts: options.contexts,
+    sources: []
+  });
+  const redactor = options.redact ? new Redactor(DEFAULT_REDACTION_SETTINGS) : null;
+  const writesEvents = options.format === 'csv' || options.format === 'json' || options.format === 'ndjson';
+  const matchingEvents: EventView[] = [];
+  const summaries: LogFileSummary[] = [];
+  let failed = false;
+
+  for (const file of files) {
+    try {
+      summaries.push(
+        await summarizeFile(file, profiles, matches, redactor, (events) => {
+          if (writesEvents) {
+            matchingEvents.push(...events);
+          }
+        })
+      );
+    } catch (error) {
+      process.stderr.write(`${file}: ${errorMessage(error)}\n`);
+      failed = true;
+    }
+  }
+
+  const filtered =
+    query !== null || options.levels.length + options.applications.length + options.contexts.length > 0;
+  const report = summaries.map((summary) => formatLogSummary(summary, filtered)).join('\n\n');
+  let output: string;
+  switch (options.format) {
+    case 'csv':
+      output = toCsv(matchingEvents);
+      break;
+    case 'json':
+      output = toJson(matchingEvents);
+      break;
+    case 'ndjson':
+      output = toNdjson(matchingEvents);
+      break;
+    case 'summary-json':
+      output = `${JSON.stringify(summaries, null, 2)}\n`;
+      break;
+    default:
+      output = report ? `${report}\n` : '';
+  }
+
+  if (options.outputPath) {
+    await writeFile(options.outputPath, output);
+    // The output file holds the events, so standard output is free for the summaries.
+    if (writesEvents && report) {
+      process.stdout.write(`${report}\n`);
+    }
+  } else {
+    process.stdout.write(output);
+  }
+
+  if (failed) {
+    return EXIT_UNUSABLE;
+  }
+  const failing = summaries.some((summary) =>
+    options.failOn.some((level) => (summary.matchingLevels[level] ?? 0) > 0)
+  );
+  return failing ? EXIT_MATCHED_FAILURE_LEVEL : EXIT_OK;
+}
+
+/** Replaces folders with the log files directly inside them, in name order. */
+async function expandPaths(paths: string[]): Promise<string[]> {
+  const files: string[] = [];
+  for (const path of paths) {
+    if (path === STDIN_PATH || !(await stat(path)).isDirectory()) {
+      files.push(path);
+      continue;
+    }
+
+    const entries = await readdir(path, { withFileTypes: true });
+    files.push(
+      ...entries
+        .filter((entry) => entry.isFile() && LOG_FILE_EXTENSIONS.test(entry.name))
+        .map((entry) => join(path, entry.name))
+        .sort((left, right) => left.localeCompare(right))
+    );
+  }
+
+  return files;
+}
+
+/** Streams one file through the parser; throws when it cannot be read or holds no records. */
+async function summarizeFile(
+  file: string,
+  profiles: FieldMappingProfile[],
+  matches: EventPredicate,
+  redactor: Redactor | null,
+  onMatching: (events: EventView[]) => void
+): Promise<LogFileSummary> {
+  const fileName = file === STDIN_PATH ? 'stdin' : basename(file);
+  const parser = new LogDocumentParser(fileName, { mappingProfiles: profiles });
+  const summary = new LogSummaryBuilder(file === STDIN_PATH ? 'stdin' : file);
+  const take = (): void => {
+    const events = parser.takeEvents();
+    const matching = events.filter(matches);
+    summary.add(events, matching);
+    onMatching(redactor ? matching.map((event) => redactor.redactEvent(event)) : matching);
+  };
+
+  const input =
+    file === STDIN_PATH
+      ? process.stdin.setEncoding('utf8')
+      : createReadStream(file, { encoding: 'utf8', highWaterMark: CHUNK_SIZE });
+  for await (const chunk of input) {
+    parser.write(chunk as string);
+    take();
+  }
+
+  const result = parser.end();
+  take();
+  return summary.build(
+    redactor ? { ...result, summary: redactor.redactSummary(result.summary) } : result,
+    parser.skippedCount
+  );
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+main(process.argv.slice(2)).then(
+  (code) => (process.exitCode = code),
+  (error: unknown) => {
+    process.stderr.write(`wslog: ${errorMessage(error)}\n`);
+    process.exitCode = EXIT_UNUSABLE;
+  }
+);
@@ -0,0 +1,157 @@
+#!/usr/bin/env node
+// Local stand-in for a desktop log feed, for trying the viewer's live tail without a real desktop.
+//
+//   node tools/live-tail-server.mjs [--port 8787] [--rate 5] [log file]
+//
+// Serves the same events as Server-Sent Events on http://localhost:<port>/events and over a WebSocket on
+// ws://localhost:<port>/. With a log file (JSON document with an `events` array, JSON array, NDJSON or text
+// lines) its records are replayed in a loop with fresh timestamps; without one, synthetic events are sent.
+// Uses only Node built-ins.
+
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { createServer } from 'node:http';
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args.splice(index, 2)[1] : fallback;
+};
+const port = Number(option('port', '8787'));
+const rate = Math.max(0.1, Number(option('rate', '5')));
+const file = args[0];
+
+const records = file ? readRecords(file) : null;
+const clients = new Set();
+let sequence = 0;
+
+const server = createServer((request, response) => {
+  if (request.url?.startsWith('/events')) {
+    response.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'Access-Control-Allow-Origin': '*'
+    });
+    response.write(': connected\n\n');
+    const client = { send: (text) => response.write(`data: ${text.replace(/\n/g, '\ndata: ')}\n\n`) };
+    clients.add(client);
+    request.on('close', () => clients.delete(client));
+    return;
+  }
+
+  response.writeHead(404, { 'Content-Type': 'text/plain' });
+  response.end('Live tail feed: use /events for Server-Sent Events or connect a WebSocket to /.\n');
+});
+
+server.on('upgrade', (request, socket) => {
+  const key = request.headers['sec-websocket-key'];
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  const client = { send: (text) => socket.write(textFrame(text)) };
+  clients.add(client);
+  // Incoming frames are not interpreted; a close frame or a dropped socket ends the client.
+  socket.on('data', (data) => {
+    if ((data[0] & 0x0f) === 0x8) {
+      socket.end(Buffer.from([0x88, 0x00]));
+    }
+  });
+  socket.on('close', () => clients.delete(client));
+  socket.on('error', () => clients.delete(client));
+});
+
+setInterval(() => {
+  if (clients.size === 0) {
+    return;
+  }
+
+  const payload = nextPayload();
+  for (const client of clients) {
+    client.send(payload);
+  }
+}, 1000 / rate);
+
+server.listen(port, () => {
+  console.log(`Live tail feed on ws://localhost:${port}/ and http://localhost:${port}/events`);
+  console.log(file ? `Replaying ${records.length} records from ${file}` : 'Sending synthetic events');
+});
+
+function nextPayload() {
+  const timestamp = new Date().toISOString();
+  sequence += 1;
+
+  if (records) {
+    const record = records[(sequence - 1) % records.length];
+    return typeof record === 'string' ? record : JSON.stringify({ ...record, timestamp });
+  }
+
+  const levels = ['INFO', 'INFO', 'INFO', 'DEBUG', 'WARN', 'ERROR'];
+  const contexts = ['agent.state', 'call.state', 'login', 'websocket'];
+  const level = levels[sequence % levels.length];
+  return JSON.stringify({
+    id: `live-${sequence}`,
+    timestamp,
+    level,
+    topic: contexts[sequence % contexts.length],
+    application: 'live-tail-server',
+    message: level === 'ERROR' ? `Request ${sequence} failed: timeout after 5000 ms` : `Heartbeat ${sequence}`,
+    data: { sequence }
+  });
+}
+
+function readRecords(path) {
+  const text = readFileSync(path, 'utf8');
+  try {
+    const document = JSON.parse(text);
+    const events = Array.isArray(document) ? document : document.events;
+    if (Array.isArray(events) && events.length > 0) {
+      return events;
+    }
+  } catch {
+    // Not one JSON document: one record per line.
+  }
+
+  const lines = text.split(/\r?\n/).filter((line) => line.trim());
+  if (lines.length === 0) {
+    throw new Error(`${path} has no records to replay.`);
+  }
+
+  return lines.map((line) => {
+    try {
+      return JSON.parse(line);
+    } catch {
+      return line;
+    }
+  });
+}
+
+function textFrame(text) {
+  const payload = Buffer.from(text, 'utf8');
+  let header;
+  if (payload.length < 126) {
+    header = Buffer.from([0x81, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x81;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x81;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+
+  return Buffer.concat([header, payload]);
+}